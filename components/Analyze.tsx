@@ -0,0 +1,296 @@
+import React, { useState, useRef, useEffect } from "react";
+import { Card, Image, Button, Divider, Select, SelectItem, Chip } from "@nextui-org/react";
+import { DETECTION_THRESHOLD, bitPlane, type AnalysisReport, type ChannelEstimates } from "@/lib/stego";
+import { imageDataToDataUrl, loadImageData } from "@/lib/stego/canvas";
+import { analyzeInWorker, isAbortError, type JobProgress as Progression } from "@/lib/stego/jobs";
+import { formatBytes } from "@/lib/utils";
+import JobProgress from "./JobProgress";
+
+const CHANNELS = ["Red", "Green", "Blue"];
+const BITS = [0, 1, 2, 3, 4, 5, 6, 7];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const Analyze = () => {
+  const [image, setImage] = useState<{ data: string; name: string } | null>(null);
+  const [imageData, setImageData] = useState<ImageData | null>(null);
+  const [report, setReport] = useState<AnalysisReport | null>(null);
+  const [confirmation, setConfirmation] = useState<string>("");
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [jobProgress, setJobProgress] = useState<Progression | null>(null);
+  const [channel, setChannel] = useState(0);
+  const [bit, setBit] = useState(0);
+  const [planeUrl, setPlaneUrl] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    if (!imageData) {
+      setPlaneUrl(null);
+      return;
+    }
+    const plane = bitPlane(imageData.data, channel, bit);
+    setPlaneUrl(imageDataToDataUrl(new ImageData(plane, imageData.width, imageData.height)));
+  }, [imageData, channel, bit]);
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      setConfirmation("⚠️ Please upload an image.");
+      setTimeout(() => setConfirmation(""), 2000);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      const data = reader.result as string;
+      try {
+        setImageData(await loadImageData(data));
+        setImage({ data, name: file.name });
+        setReport(null);
+      } catch {
+        setConfirmation("⚠️ Error reading the image.");
+        setTimeout(() => setConfirmation(""), 2000);
+      }
+    };
+    reader.onerror = () => {
+      setConfirmation("⚠️ Error reading the image.");
+      setTimeout(() => setConfirmation(""), 2000);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => loadFile(e.target.files?.[0]);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    loadFile(e.dataTransfer.files?.[0]);
+  };
+
+  const handleSubmit = async () => {
+    if (!imageData) {
+      setConfirmation("⚠️ Please upload an image.");
+      return;
+    }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsAnalyzing(true);
+    setReport(null);
+    setJobProgress(null);
+
+    try {
+      // The worker takes ownership of its buffer; keep the original for the bit planes.
+      setReport(
+        await analyzeInWorker(imageData.data.slice(), imageData.width, imageData.height, {
+          signal: controller.signal,
+          onProgress: setJobProgress,
+        })
+      );
+      setConfirmation("");
+    } catch (error) {
+      controller.abort();
+      setConfirmation(isAbortError(error) ? "⚠️ Analysis cancelled." : `❌ Error analyzing image: ${error}`);
+    } finally {
+      abortControllerRef.current = null;
+      setIsAnalyzing(false);
+      setJobProgress(null);
+    }
+  };
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const resetAll = () => {
+    setImage(null);
+    setImageData(null);
+    setReport(null);
+    setConfirmation("");
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+      fileInputRef.current.click();
+    }
+  };
+
+  const estimateRow = (label: string, estimates: ChannelEstimates) => (
+    <tr>
+      <td className="py-1 text-left">{label}</td>
+      <td className="py-1">{percent(estimates.red)}</td>
+      <td className="py-1">{percent(estimates.green)}</td>
+      <td className="py-1">{percent(estimates.blue)}</td>
+      <td className="py-1 font-bold">{percent(estimates.average)}</td>
+    </tr>
+  );
+
+  const suspicious = report !== null && (report.embeddingRate >= DETECTION_THRESHOLD || report.chiSquare.pValue > 0.5);
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen relative text-neutral-200 overflow-hidden">
+      <div className="absolute inset-0 bg-gradient-to-b from-[#111] via-[#181818] to-[#111]"></div>
+
+      <div className="relative z-10 text-center">
+        <p className="text-2xl sm:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-200 to-neutral-500 py-8">
+          Upload <strong className="text-red-400">any image</strong> to{" "}
+          <strong className="text-red-400">check</strong> it for{" "}
+          <strong className="bg-gradient-to-r from-stone-500 to-stone-700 bg-clip-text text-transparent">
+            hidden data
+          </strong>
+        </p>
+
+        <Card
+          isBlurred
+          className="max-w-lg w-full mx-auto p-6 my-12 border-2 border-dotted border-gray-400 rounded-lg shadow-xl bg-gray-50 dark:bg-gray-900"
+        >
+          <div
+            className="flex flex-col items-center justify-center cursor-pointer w-full min-h-48"
+            onDrop={handleDrop}
+            onDragOver={(e) => e.preventDefault()}
+          >
+            {confirmation && <p className="text-sm mb-2 text-red-500">{confirmation}</p>}
+            {image ? (
+              <div className="relative text-center group w-full">
+                <Image
+                  src={image.data}
+                  alt={`Uploaded ${image.name}`}
+                  className="w-full h-auto max-h-64 object-contain rounded-md transition-all duration-300 group-hover:brightness-75"
+                />
+                <button
+                  className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-red-500 text-white rounded-md w-20 h-8 flex items-center justify-center hover:bg-red-700 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-10 text-sm shadow-md"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Replace
+                </button>
+                <span className="block mt-1 text-sm text-gray-500 truncate">
+                  {image.name}
+                  {imageData && ` (${imageData.width}×${imageData.height})`}
+                </span>
+              </div>
+            ) : (
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                className="text-center text-gray-500 border-2 border-dotted border-gray-400 rounded-lg p-6 w-full"
+              >
+                Click to upload or drag & drop an image
+              </div>
+            )}
+            <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
+          </div>
+
+          <Divider className="my-4" />
+
+          {isAnalyzing ? (
+            <>
+              <JobProgress label="Progress" progress={jobProgress} />
+              <Button className="mt-4 w-full bg-red-500 text-white hover:bg-red-700" onClick={handleCancel}>
+                Cancel
+              </Button>
+            </>
+          ) : report ? (
+            <>
+              <div className="flex items-center gap-2 mb-4 text-left">
+                <Chip size="sm" variant="flat" color={suspicious ? "danger" : "success"}>
+                  {suspicious ? "Likely contains hidden data" : "No LSB payload detected"}
+                </Chip>
+                <span className="text-sm text-gray-500">Estimated embedding rate: {percent(report.embeddingRate)}</span>
+              </div>
+
+              {report.stagnoContainerSize !== null && (
+                <p className="text-sm text-green-500 mb-4 text-left">
+                  ✅ Found a Stagno header declaring {formatBytes(report.stagnoContainerSize)} of hidden data.
+                </p>
+              )}
+
+              <table className="w-full text-sm text-gray-500 mb-4 text-right">
+                <thead>
+                  <tr className="border-b border-gray-300 dark:border-gray-700">
+                    <th className="py-1 text-left">Detector</th>
+                    <th className="py-1">R</th>
+                    <th className="py-1">G</th>
+                    <th className="py-1">B</th>
+                    <th className="py-1">Avg</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {estimateRow("RS analysis", report.rs)}
+                  {estimateRow("Sample pairs", report.spa)}
+                </tbody>
+              </table>
+
+              <div className="text-left mb-4">
+                <p className="text-sm text-gray-500 mb-1">
+                  Chi-square: p = {report.chiSquare.pValue.toFixed(3)}
+                  {report.chiSquare.sequentialLength > 0 &&
+                    `, first ${percent(report.chiSquare.sequentialLength)} of the image looks randomised`}
+                </p>
+                <div className="flex items-end gap-px h-16 bg-gray-200 dark:bg-gray-800 rounded-md p-1" aria-label="Chi-square p-value curve">
+                  {report.chiSquare.curve.map((value, index) => (
+                    <div
+                      key={index}
+                      className={`flex-1 rounded-sm ${value > 0.5 ? "bg-red-400" : "bg-gray-400"}`}
+                      style={{ height: `${Math.max(2, value * 100)}%` }}
+                      title={`${Math.round((index / report.chiSquare.curve.length) * 100)}–${Math.round(
+                        ((index + 1) / report.chiSquare.curve.length) * 100
+                      )}%: p = ${value.toFixed(3)}`}
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  p-value of each 1/{report.chiSquare.curve.length} of the image on its own, top-left to bottom-right.
+                </p>
+              </div>
+
+              <p className="text-xs text-gray-400 mb-4 text-left">
+                Estimates assume one bit per channel and an uncompressed carrier. Scattered or deeper embedding
+                shows up as a high rate rather than a precise one.
+              </p>
+            </>
+          ) : (
+            <Button className="mt-4 w-full bg-gray-800 text-white hover:bg-gray-700" onClick={handleSubmit}>
+              Analyze
+            </Button>
+          )}
+
+          {planeUrl && (
+            <>
+              <Divider className="my-4" />
+              <div className="flex gap-4 mb-4">
+                <Select
+                  label="Channel"
+                  selectedKeys={[String(channel)]}
+                  onChange={(e) => e.target.value && setChannel(Number(e.target.value))}
+                >
+                  {CHANNELS.map((name, index) => (
+                    <SelectItem key={String(index)} value={String(index)}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </Select>
+                <Select
+                  label="Bit plane"
+                  selectedKeys={[String(bit)]}
+                  onChange={(e) => e.target.value && setBit(Number(e.target.value))}
+                >
+                  {BITS.map((value) => (
+                    <SelectItem key={String(value)} value={String(value)}>
+                      {value === 0 ? "0 (least significant)" : value === 7 ? "7 (most significant)" : String(value)}
+                    </SelectItem>
+                  ))}
+                </Select>
+              </div>
+              <Image
+                src={planeUrl}
+                alt={`${CHANNELS[channel]} bit plane ${bit}`}
+                className="w-full h-auto max-h-64 object-contain rounded-md [image-rendering:pixelated]"
+              />
+            </>
+          )}
+
+          {report && (
+            <Button className="mt-4 w-full bg-gray-800 text-white hover:bg-gray-700" onClick={resetAll}>
+              Analyze Another
+            </Button>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Analyze;
@@ -0,0 +1,39 @@
+import { Progress } from "@nextui-org/react";
+import { formatBytes } from "@/lib/utils";
+
+interface CapacityMeterProps {
+  label: string;
+  needed: number;
+  available: number;
+  /** Size the payload would have without compression, to report the ratio. */
+  uncompressed?: number;
+}
+
+const CapacityMeter = ({ label, needed, available, uncompressed }: CapacityMeterProps) => {
+  const fits = needed <= available;
+
+  return (
+    <div className="mt-2">
+      <Progress
+        size="sm"
+        label={label}
+        value={Math.min(needed, available)}
+        maxValue={available}
+        showValueLabel
+        valueLabel={`${formatBytes(needed)} / ${formatBytes(available)}`}
+        color={fits ? "success" : "danger"}
+        classNames={{
+          label: "text-sm text-gray-500",
+          value: fits ? "text-sm text-gray-500" : "text-sm text-red-500",
+        }}
+      />
+      {uncompressed !== undefined && uncompressed > needed && (
+        <p className="text-xs text-gray-500 mt-1 text-left">
+          Compressed to {Math.round((needed / uncompressed) * 100)}% of {formatBytes(uncompressed)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CapacityMeter;
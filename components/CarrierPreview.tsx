@@ -0,0 +1,54 @@
+import { useMemo } from "react";
+import { Image } from "@nextui-org/react";
+import type { CarrierComparison, EmbeddingStats, PreviewImage } from "@/lib/stego";
+import { imageDataToDataUrl } from "@/lib/stego/canvas";
+
+interface CarrierPreviewProps {
+  title: string;
+  comparison: CarrierComparison;
+  /** What the embedding wrote and changed, for its efficiency. */
+  stats?: EmbeddingStats;
+}
+
+const toDataUrl = ({ pixels, width, height }: PreviewImage) => imageDataToDataUrl(new ImageData(pixels, width, height));
+
+const CarrierPreview = ({ title, comparison, stats }: CarrierPreviewProps) => {
+  const { metrics } = comparison;
+  const images = useMemo(
+    () => [
+      { label: "Difference (amplified)", src: toDataUrl(comparison.heatmap) },
+      { label: "LSBs before", src: toDataUrl(comparison.lsbBefore) },
+      { label: "LSBs after", src: toDataUrl(comparison.lsbAfter) },
+    ],
+    [comparison]
+  );
+  const modifiedShare = metrics.totalPixels === 0 ? 0 : (metrics.modifiedPixels / metrics.totalPixels) * 100;
+
+  return (
+    <div className="mb-6 text-left">
+      <p className="text-gray-500 font-bold mb-2">{title}:</p>
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        {images.map(({ label, src }) => (
+          <div key={label} className="text-center">
+            <Image src={src} alt={`${title} ${label}`} className="w-full h-auto rounded-md [image-rendering:pixelated]" />
+            <span className="block mt-1 text-xs text-gray-500">{label}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-gray-500">
+        PSNR {Number.isFinite(metrics.psnr) ? `${metrics.psnr.toFixed(1)} dB` : "∞ (identical)"} · SSIM{" "}
+        {metrics.ssim.toFixed(4)} · {metrics.modifiedPixels.toLocaleString()} of {metrics.totalPixels.toLocaleString()}{" "}
+        pixels modified ({modifiedShare.toFixed(1)}%)
+      </p>
+      {stats && (
+        <p className="text-sm text-gray-500">
+          Embedding efficiency{" "}
+          {stats.changes === 0 ? "∞" : (stats.bits / stats.changes).toFixed(2)} bits per change ·{" "}
+          {stats.bits.toLocaleString()} bits written with {stats.changes.toLocaleString()} changes
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CarrierPreview;
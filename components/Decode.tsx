@@ -1,30 +1,133 @@
-import React, { useState, useRef } from "react";
-import { Card, Image, Button, Divider, Textarea, Input } from "@nextui-org/react";
-import CryptoJS from "crypto-js";
+import React, { useState, useRef, useEffect } from "react";
+import { Card, Image, Button, Divider, Textarea, Input, Chip } from "@nextui-org/react";
+import { readBatchFiles, readDroppedFiles, type BatchFile } from "@/lib/batch";
+import { importPrivateKeys, loadKeyring, type KeyringEntry } from "@/lib/keyring";
+import { validateDecryptionKey } from "@/lib/passphrase";
+import {
+  fileFromDataUrl,
+  fileToDataUrl,
+  combineShares,
+  isJpeg,
+  joinShards,
+  keyFingerprint,
+  type HiddenFile,
+  type Shard,
+  type Share,
+} from "@/lib/stego";
+import { loadImage, loadImageData } from "@/lib/stego/canvas";
+import {
+  decodeInWorker,
+  decodeJpegInWorker,
+  isAbortError,
+  openInWorker,
+  openTextInWorker,
+  type DecodeResult,
+  type JobOptions,
+  type JobProgress as Progression,
+} from "@/lib/stego/jobs";
+import { formatBytes } from "@/lib/utils";
+import DecodeBatch from "./DecodeBatch";
+import JobProgress from "./JobProgress";
+
+interface SignatureBadge {
+  valid: boolean;
+  fingerprint: string;
+  /** Name of the matching keyring entry, if the signer is known. */
+  signer?: string;
+}
+
+// A valid signature only proves who signed when the signer's key is one the user trusts.
+const signatureColor = ({ valid, signer }: SignatureBadge) => (!valid ? "danger" : signer ? "success" : "default");
+
+const signatureLabel = ({ valid, signer }: SignatureBadge) =>
+  !valid ? "Invalid signature" : signer ? "Verified" : "Signed by unknown key";
+
+interface DecodedMessage {
+  text: string;
+  embeddedImage: string | null;
+  file: HiddenFile | null;
+  signature?: SignatureBadge;
+  error?: string;
+  /** Damaged bytes repaired by error correction. */
+  correctedBytes?: number;
+  /** Set when the carrier holds one part of a split message, which is revealed once all parts are joined. */
+  shard?: Shard;
+  /** Set when the carrier holds one threshold share, which is revealed once enough shares are combined. */
+  share?: Share;
+  width: number;
+  height: number;
+}
+
+const isZipFile = (file: File) => /\.zip$/i.test(file.name) || file.type === "application/zip" || file.type === "application/x-zip-compressed";
+
+interface DecodedEntry {
+  width: number;
+  height: number;
+  text: string;
+  image: string | null;
+  file: HiddenFile | null;
+  signature?: SignatureBadge;
+  name: string;
+  error?: string;
+  correctedBytes?: number;
+  shard?: Shard;
+  share?: Share;
+}
 
 const Decode = () => {
   const [files, setFiles] = useState<{ data: string; name: string; key: string; type: string }[]>([]);
-  const [decodedData, setDecodedData] = useState<
-    {
-      width: number;
-      height: number;
-      text: string;
-      image: string | null;
-      name: string;
-      error?: string;
-    }[]
-  >([]);
+  const [decodedData, setDecodedData] = useState<DecodedEntry[]>([]);
   const [confirmation, setConfirmation] = useState<string>("");
   const [keyVisibility, setKeyVisibility] = useState<boolean[]>([]);
+  const [keyring, setKeyring] = useState<KeyringEntry[]>([]);
+  const [privateKeys, setPrivateKeys] = useState<CryptoKey[]>([]);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [jobProgress, setJobProgress] = useState<(Progression | null)[]>([]);
+  // Set once a ZIP archive or folder is given; its files are decoded in bulk instead.
+  const [batch, setBatch] = useState<{ source: string; files: BatchFile[] } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const MAX_FILES = 4;
-  const DELIMITER = "||";
-  const KEY_LENGTH = 6;
+
+  useEffect(() => {
+    const entries = loadKeyring();
+    setKeyring(entries);
+    importPrivateKeys(entries)
+      .then(setPrivateKeys)
+      .catch(() => console.warn("Could not load private keys from the keyring"));
+  }, []);
+
+  const openBatch = (source: string, read: Promise<BatchFile[]>) => {
+    read
+      .then((batchFiles) => {
+        if (batchFiles.length === 0) {
+          setConfirmation(`⚠️ No images or text files found in ${source}.`);
+          setTimeout(() => setConfirmation(""), 2000);
+          return;
+        }
+        setBatch({ source, files: batchFiles });
+      })
+      .catch(() => {
+        setConfirmation(`⚠️ Error reading ${source}.`);
+        setTimeout(() => setConfirmation(""), 2000);
+      });
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = e.target.files;
     if (!selectedFiles) return;
 
+    const selected = Array.from(selectedFiles);
+    const archive = selected.find(isZipFile);
+    if (archive) {
+      openBatch(
+        selected.length === 1 ? archive.name : `${selected.length} files`,
+        readBatchFiles(selected.map((file) => ({ path: file.name, file })))
+      );
+      e.target.value = "";
+      return;
+    }
+
     const totalSelected = files.length + selectedFiles.length;
     if (totalSelected > MAX_FILES) {
       setConfirmation(`⚠️ You can only upload a maximum of ${MAX_FILES} files.`);
@@ -64,6 +167,14 @@ const Decode = () => {
     const droppedFiles = e.dataTransfer.files;
     if (!droppedFiles) return;
 
+    // Folders and archives are walked and decoded in bulk, however many files they hold.
+    const entries = Array.from(e.dataTransfer.items).map((item) => item.webkitGetAsEntry());
+    if (entries.some((entry) => entry?.isDirectory) || Array.from(droppedFiles).some(isZipFile)) {
+      const folder = entries.length === 1 ? entries[0]?.name : undefined;
+      openBatch(folder ?? `${entries.length} items`, readDroppedFiles(e.dataTransfer.items));
+      return;
+    }
+
     const totalSelected = files.length + droppedFiles.length;
     if (totalSelected > MAX_FILES) {
       setConfirmation(`⚠️ You can only drop a maximum of ${MAX_FILES} files.`);
@@ -98,202 +209,143 @@ const Decode = () => {
       });
   };
 
-  const decryptData = (encryptedData: string, key: string): { data: string; hasError: boolean } => {
-    if (key.length !== KEY_LENGTH) throw new Error(`Key must be exactly ${KEY_LENGTH} characters.`);
-    if (!key || key.trim() === "") {
-      return { data: "No data found", hasError: true };
+  const revealContent = async ({ revealed, error, correctedBytes, shard, share }: DecodeResult): Promise<DecodedMessage> => {
+    if (error !== undefined) {
+      return {
+        text: `Error: ${error}`,
+        embeddedImage: null,
+        file: null,
+        error: "Corrupted",
+        width: 0,
+        height: 0,
+      };
     }
-    try {
-      const bytes = CryptoJS.AES.decrypt(encryptedData, key);
-      const decrypted = bytes.toString(CryptoJS.enc.Utf8);
-      if (!decrypted) return { data: "Error: Wrong decryption key", hasError: true };
-      return { data: decrypted, hasError: false };
-    } catch (error) {
-      return { data: "Error: Wrong decryption key", hasError: true };
+    if (shard || share) {
+      return { text: "", embeddedImage: null, file: null, correctedBytes, shard, share, width: 0, height: 0 };
+    }
+    if (revealed === null) {
+      return { text: "No hidden data found", embeddedImage: null, file: null, width: 0, height: 0 };
+    }
+    const { text, file, hasError } = revealed;
+    if (hasError) {
+      return { text, embeddedImage: null, file: null, error: "Wrong key", width: 0, height: 0 };
     }
+    let signature: SignatureBadge | undefined;
+    if (revealed.signature) {
+      const fingerprint = await keyFingerprint(revealed.signature.signerPublicKey);
+      const signer = keyring.find((entry) => entry.signingFingerprint === fingerprint)?.name;
+      signature = { valid: revealed.signature.valid, fingerprint, signer };
+    }
+    const embeddedImage = revealed.embeddedImage ?? (file?.type.startsWith("image/") ? fileToDataUrl(file) : null);
+    let customWidth = 0;
+    let customHeight = 0;
+    if (embeddedImage) {
+      try {
+        const tempImg = await loadImage(embeddedImage);
+        customWidth = tempImg.width;
+        customHeight = tempImg.height;
+      } catch {
+        console.warn("Could not load image to get dimensions");
+      }
+    }
+    return { text, embeddedImage, file, signature, correctedBytes, width: customWidth, height: customHeight };
   };
 
-  const decodeImageMessage = (imageData: string, key: string) => {
-    return new Promise<{ text: string; embeddedImage: string | null; error?: string; width: number; height: number }>(
-      (resolve, reject) => {
-        const canvas = document.createElement("canvas");
-        const ctx = canvas.getContext("2d");
-        const img = new window.Image();
-        img.src = imageData;
-
-        img.onload = () => {
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx?.drawImage(img, 0, 0);
-          const imgData = ctx?.getImageData(0, 0, img.width, img.height);
-          if (!imgData) return reject("Error loading image data");
-
-          const data = imgData.data;
-          let binaryMessage = "";
-          for (let i = 0; i < data.length; i += 4) {
-            binaryMessage += (data[i] & 1).toString();
-            binaryMessage += (data[i + 1] & 1).toString();
-            binaryMessage += (data[i + 2] & 1).toString();
-          }
-
-          let message = "";
-          for (let i = 0; i < binaryMessage.length; i += 8) {
-            const byte = binaryMessage.slice(i, i + 8);
-            if (byte.length < 8) break;
-            const charCode = parseInt(byte, 2);
-            if (charCode === 0) break;
-            message += String.fromCharCode(charCode);
-          }
-
-          if (!message) {
-            resolve({ text: "No hidden data found", embeddedImage: null, width: 0, height: 0 });
-            return;
-          }
-
-          const parts = message.split(DELIMITER);
-          let text = "";
-          let embeddedImage: string | null = null;
-          let customWidth: number = 0;
-          let customHeight: number = 0;
-
-          if (parts.length > 0 && message.length > 0) {
-            const base64ImageRegex = /^data:image\/(png|jpeg|jpg);base64,[\w+\/=]+$/;
-            let hasError = false;
-
-            const processParts = async () => {
-              for (const part of parts) {
-                const { data: decryptedPart, hasError: decryptionError } = decryptData(part, key);
-                if (decryptionError) {
-                  hasError = true;
-                } else if (base64ImageRegex.test(decryptedPart)) {
-                  embeddedImage = decryptedPart;
-                  await new Promise((resolveImg, rejectImg) => {
-                    const tempImg = new window.Image();
-                    tempImg.src = decryptedPart;
-                    tempImg.onload = () => {
-                      customWidth = tempImg.width;
-                      customHeight = tempImg.height;
-                      resolveImg(null);
-                    };
-                    tempImg.onerror = () => {
-                      console.warn("Could not load image to get dimensions");
-                      resolveImg(null);
-                    };
-                  });
-                } else if (decryptedPart) {
-                  text += decryptedPart + " ";
-                }
-              }
-
-              if (!text && !embeddedImage) {
-                text = hasError ? "Error: Wrong decryption key" : "No hidden data found";
-                if (hasError) {
-                  resolve({ text, embeddedImage: null, error: "Wrong key", width: 0, height: 0 });
-                  return;
-                }
-              }
-
-              resolve({
-                text: text.trim(),
-                embeddedImage,
-                width: customWidth,
-                height: customHeight,
-              });
-            };
-
-            processParts();
-          } else {
-            resolve({
-              text: "No hidden data found",
-              embeddedImage: null,
-              width: 0,
-              height: 0,
-            });
-          }
-        };
+  const decodeImageMessage = async (imageData: string, key: string, job: JobOptions): Promise<DecodedMessage> => {
+    // JPEG carriers hide their data in DCT coefficients, not in the decoded pixels.
+    const bytes = fileFromDataUrl(imageData, "Image").data;
+    if (isJpeg(bytes)) {
+      return revealContent(await decodeJpegInWorker(bytes, { passphrase: key, privateKeys }, job));
+    }
+    const imgData = await loadImageData(imageData);
+    return revealContent(await decodeInWorker(imgData.data, { passphrase: key, privateKeys }, key || undefined, job));
+  };
 
-        img.onerror = () => reject("Failed to load image.");
-      }
-    );
+  const decodeTextFile = async (fileContent: string, key: string, job: JobOptions): Promise<DecodedMessage> => {
+    try {
+      return await revealContent(await openTextInWorker(fileContent, { passphrase: key, privateKeys }, job));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        text: "Error decoding text file",
+        embeddedImage: null,
+        file: null,
+        error: "Invalid file format",
+        width: 0,
+        height: 0,
+      };
+    }
   };
 
-  const decodeTextFile = (fileContent: string, key: string) => {
-    return new Promise<{ text: string; embeddedImage: string | null; error?: string; width: number; height: number }>(
-      (resolve) => {
-        try {
-          const parts = fileContent.split(DELIMITER);
-          if (parts.length < 2) {
-            resolve({ text: "No hidden data found", embeddedImage: null, width: 0, height: 0 });
-            return;
-          }
+  // Rebuilds the sealed container from the shards or shares of one message, or explains what is missing.
+  const assembleParts = (parts: DecodedEntry[]): { container: Uint8Array | null; shortfall: string } => {
+    const share = parts[0].share;
+    if (share) {
+      const { container, needed } = combineShares(parts.map((part) => part.share!));
+      return {
+        container,
+        shortfall:
+          `Error: ${needed} more share${needed === 1 ? "" : "s"} needed. Any ${share.threshold} of the ${share.count} ` +
+          `images reveal the message and ${share.threshold - needed} ${share.threshold - needed === 1 ? "was" : "were"} added.`,
+      };
+    }
+    const { container, missing } = joinShards(parts.map((part) => part.shard!));
+    return {
+      container,
+      shortfall: `Error: Missing part${missing.length === 1 ? "" : "s"} ${missing.map((index) => index + 1).join(", ")} of ${parts[0].shard!.count}. Add every image the message was split across.`,
+    };
+  };
 
-          const encodedData = parts[parts.length - 1];
-          const decodedMessage = atob(encodedData);
-          const messageParts = decodedMessage.split(DELIMITER);
-          let text = "";
-          let embeddedImage: string | null = null;
-          let customWidth: number = 0;
-          let customHeight: number = 0;
-          const base64ImageRegex = /^data:image\/(png|jpeg|jpg);base64,[\w+\/=]+$/;
-          let hasError = false;
-
-          const processParts = async () => {
-            for (const part of messageParts) {
-              const { data: decryptedPart, hasError: decryptionError } = decryptData(part, key);
-              if (decryptionError) {
-                hasError = true;
-              } else if (base64ImageRegex.test(decryptedPart)) {
-                embeddedImage = decryptedPart;
-                await new Promise((resolveImg, rejectImg) => {
-                  const tempImg = new window.Image();
-                  tempImg.src = decryptedPart;
-                  tempImg.onload = () => {
-                    customWidth = tempImg.width;
-                    customHeight = tempImg.height;
-                    resolveImg(null);
-                  };
-                  tempImg.onerror = () => {
-                    console.warn("Could not load image to get dimensions");
-                    resolveImg(null);
-                  };
-                });
-              } else if (decryptedPart) {
-                text += decryptedPart + " ";
-              }
-            }
-
-            if (!text && !embeddedImage) {
-              text = hasError ? "Error: Wrong decryption key" : "No hidden data found";
-              if (hasError) {
-                resolve({ text, embeddedImage: null, error: "Wrong key", width: 0, height: 0 });
-                return;
-              }
-            }
-
-            resolve({
-              text: text.trim(),
-              embeddedImage,
-              width: customWidth,
-              height: customHeight,
-            });
-          };
-
-          processParts();
-        } catch (error) {
-          resolve({
-            text: "Error decoding text file",
-            embeddedImage: null,
-            error: "Invalid file format",
-            width: 0,
-            height: 0,
-          });
-        }
+  /**
+   * Replaces the parts of each split or shared message with a single entry for
+   * the assembled message, opened with the first key given for one of its parts.
+   */
+  const joinMessageParts = async (results: DecodedEntry[], job: JobOptions): Promise<DecodedEntry[]> => {
+    const groups = new Map<string, number[]>();
+    results.forEach((result, index) => {
+      const messageId = result.shard?.messageId ?? result.share?.messageId;
+      if (messageId) groups.set(messageId, [...(groups.get(messageId) ?? []), index]);
+    });
+    if (groups.size === 0) return results;
+
+    const joined = new Map<number, DecodedEntry>();
+    for (const indices of Array.from(groups.values())) {
+      const parts = indices.map((index) => results[index]);
+      const name = `${parts[0].share ? "Shared" : "Split"} message (${parts.map((part) => part.name).join(", ")})`;
+      const { container, shortfall } = assembleParts(parts);
+      if (!container) {
+        joined.set(indices[0], {
+          text: shortfall,
+          image: null,
+          file: null,
+          name,
+          error: "Incomplete",
+          width: 0,
+          height: 0,
+        });
+        continue;
       }
+      const key = indices.map((index) => files[index].key).find((candidate) => candidate !== "") ?? "";
+      const message = await revealContent(await openInWorker(container, { passphrase: key, privateKeys }, job));
+      const correctedBytes = parts.reduce((total, part) => total + (part.correctedBytes ?? 0), 0);
+      joined.set(indices[0], {
+        text: message.text,
+        image: message.embeddedImage,
+        file: message.file,
+        signature: message.signature,
+        name,
+        error: message.error,
+        correctedBytes,
+        width: message.width,
+        height: message.height,
+      });
+    }
+    return results.flatMap((result, index) =>
+      result.shard || result.share ? (joined.has(index) ? [joined.get(index)!] : []) : [result]
     );
   };
 
   const handleKeyChange = (index: number, value: string) => {
-    if (value.length > KEY_LENGTH) return;
     setFiles((prev) => prev.map((file, i) => (i === index ? { ...file, key: value } : file)));
     if (keyVisibility.length <= index) {
       setKeyVisibility((prev) => [...prev, false]);
@@ -311,31 +363,53 @@ const Decode = () => {
       setConfirmation("⚠️ Please upload at least one file.");
       return;
     }
-    const invalidKeyIndex = files.findIndex((file) => !file.key || file.key.length !== KEY_LENGTH);
+    // With a key pair in the keyring, carriers sealed to it need no passphrase.
+    const invalidKeyIndex =
+      privateKeys.length > 0 ? -1 : files.findIndex((file) => validateDecryptionKey(file.key) !== null);
     if (invalidKeyIndex !== -1) {
-      setConfirmation(`⚠️ Encryption key for File ${invalidKeyIndex + 1} must be exactly ${KEY_LENGTH} characters.`);
+      setConfirmation(`⚠️ Decryption key for File ${invalidKeyIndex + 1}: ${validateDecryptionKey(files[invalidKeyIndex].key)}`);
       return;
     }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsDecoding(true);
+    setDecodedData([]);
+    setJobProgress(files.map(() => null));
+    const jobFor = (index: number): JobOptions => ({
+      signal: controller.signal,
+      onProgress: (progress) => setJobProgress((prev) => prev.map((current, i) => (i === index ? progress : current))),
+    });
+
     try {
       const decodedResults = await Promise.all(
-        files.map(async (file) => {
+        files.map(async (file, index) => {
           if (file.type === "image") {
-            const { text, embeddedImage, error, width, height } = await decodeImageMessage(file.data, file.key);
+            const { text, embeddedImage, file: hiddenFile, signature, error, correctedBytes, shard, share, width, height } = await decodeImageMessage(file.data, file.key, jobFor(index));
             return {
               text,
               image: embeddedImage,
+              file: hiddenFile,
+              signature,
               name: file.name,
               error,
+              correctedBytes,
+              shard,
+              share,
               width,
               height,
             };
           } else {
-            const { text, embeddedImage, error, width, height } = await decodeTextFile(file.data, file.key);
+            const { text, embeddedImage, file: hiddenFile, signature, error, correctedBytes, shard, share, width, height } = await decodeTextFile(file.data, file.key, jobFor(index));
             return {
               text,
               image: embeddedImage,
+              file: hiddenFile,
+              signature,
               name: file.name,
               error,
+              correctedBytes,
+              shard,
+              share,
               width,
               height,
             };
@@ -343,16 +417,32 @@ const Decode = () => {
         })
       );
 
-      setDecodedData(decodedResults);
+      setDecodedData(await joinMessageParts(decodedResults, { signal: controller.signal }));
       setTimeout(() => {
         setDecodedData((prev) => prev.filter((data) => data.error !== "Wrong key"));
       }, 2000);
       setTimeout(() => setConfirmation(""), 2000);
     } catch (error) {
-      setConfirmation(`❌ Error decoding files: ${error}`);
+      controller.abort();
+      setConfirmation(isAbortError(error) ? "⚠️ Decoding cancelled." : `❌ Error decoding files: ${error}`);
+    } finally {
+      abortControllerRef.current = null;
+      setIsDecoding(false);
+      setJobProgress([]);
     }
   };
 
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const handleDownloadFile = (file: HiddenFile) => {
+    const url = URL.createObjectURL(new Blob([file.data], { type: file.type }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleRemoveFile = (index: number) => {
     setFiles((prev) => prev.filter((_, i) => i !== index));
     setDecodedData([]);
@@ -369,9 +459,21 @@ const Decode = () => {
     }
   };
 
+  if (batch) {
+    return (
+      <DecodeBatch
+        source={batch.source}
+        files={batch.files}
+        keyring={keyring}
+        privateKeys={privateKeys}
+        onBack={() => setBatch(null)}
+      />
+    );
+  }
+
   const isDecodingSuccessful =
     decodedData.length > 0 &&
-    decodedData.every((data) => !data.error && (data.text !== "No hidden data found" || data.image));
+    decodedData.every((data) => !data.error && (data.text !== "No hidden data found" || data.image || data.file));
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen relative text-neutral-200 overflow-hidden">
@@ -444,14 +546,14 @@ const Decode = () => {
                 onClick={() => fileInputRef.current?.click()}
                 className="text-center text-gray-500 border-2 border-dotted border-gray-400 rounded-lg p-6 w-full"
               >
-                Click to upload or drag & drop up to 4 images or text files
+                Click to upload or drag & drop up to 4 images or text files, or a ZIP archive or folder of any number
               </div>
             )}
             <input
               type="file"
               ref={fileInputRef}
               className="hidden"
-              accept="image/*,text/plain"
+              accept="image/*,text/plain,.zip,application/zip"
               multiple
               onChange={handleFileChange}
             />
@@ -467,17 +569,17 @@ const Decode = () => {
                     fullWidth
                     size="lg"
                     label={`Decryption Key for File ${index + 1}`}
-                    placeholder={`Enter ${KEY_LENGTH}-character key`}
+                    placeholder={
+                      privateKeys.length > 0
+                        ? "Enter the passphrase, or leave empty to use your keyring"
+                        : "Enter the passphrase used to encode"
+                    }
                     value={file.key}
                     onChange={(e) => handleKeyChange(index, e.target.value)}
                     type={keyVisibility[index] ? "text" : "password"}
                     className="text-black"
                     variant="bordered"
-                    color={
-                      file.key && file.key.length !== KEY_LENGTH && decodedData[index]?.error === "Wrong key"
-                        ? "danger"
-                        : "primary"
-                    }
+                    color={decodedData[index]?.error === "Wrong key" ? "danger" : "primary"}
                     classNames={{
                       input: "text-black dark:text-white",
                       label: "text-gray-500 dark:text-gray-400",
@@ -517,19 +619,50 @@ const Decode = () => {
                       </Button>
                     }
                   />
-                  {file.key && file.key.length !== KEY_LENGTH && (
-                    <p className="text-red-500 text-sm mt-1">Key must be exactly {KEY_LENGTH} characters</p>
-                  )}
                 </div>
               ))}
             </div>
           )}
 
-          {decodedData.length > 0 ? (
+          {isDecoding ? (
+            <>
+              {files.map((file, index) => (
+                <div key={index} className="mb-6">
+                  <p className="text-gray-500 font-bold mb-2">{file.name}:</p>
+                  <JobProgress label="Progress" progress={jobProgress[index] ?? null} />
+                </div>
+              ))}
+              <Button className="mt-4 w-full bg-red-500 text-white hover:bg-red-700" onClick={handleCancel}>
+                Cancel
+              </Button>
+            </>
+          ) : decodedData.length > 0 ? (
             <>
               {decodedData.map((data, index) => (
                 <div key={index} className="mb-6">
                   <p className="text-gray-500 font-bold mb-2">{data.name}:</p>
+                  {!data.error && (data.text !== "No hidden data found" || data.image || data.file) && (
+                    <div className="flex items-center gap-2 mb-2 text-left">
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        color={data.signature ? signatureColor(data.signature) : "default"}
+                      >
+                        {data.signature ? signatureLabel(data.signature) : "Unverified"}
+                      </Chip>
+                      {data.signature && (
+                        <span className="text-xs text-gray-500 font-mono truncate" title={data.signature.fingerprint}>
+                          {data.signature.signer ? `${data.signature.signer} · ` : ""}
+                          {data.signature.fingerprint}
+                        </span>
+                      )}
+                      {data.correctedBytes !== undefined && data.correctedBytes > 0 && (
+                        <Chip size="sm" variant="flat" color="warning" className="shrink-0">
+                          Repaired {data.correctedBytes} damaged {data.correctedBytes === 1 ? "byte" : "bytes"}
+                        </Chip>
+                      )}
+                    </div>
+                  )}
                   {data.error && <p className="text-red-500 mb-2">{data.text}</p>}
                   {!data.error && data.text && data.text !== "No hidden data found" && (
                     <Textarea readOnly value={data.text} label="Decoded Text" className="mt-2 text-black" />
@@ -547,7 +680,17 @@ const Decode = () => {
                       />
                     </div>
                   )}
-                  {!data.error && (!data.text || data.text === "No hidden data found") && !data.image && (
+                  {!data.error && data.file && (
+                    <div className="mt-4 flex items-center justify-between gap-2 rounded-md bg-gray-200 dark:bg-gray-800 p-3">
+                      <span className="text-sm text-gray-500 truncate">
+                        {data.file.name} ({formatBytes(data.file.data.length)})
+                      </span>
+                      <Button size="sm" className="bg-gray-700 text-white" onClick={() => handleDownloadFile(data.file!)}>
+                        Download
+                      </Button>
+                    </div>
+                  )}
+                  {!data.error && (!data.text || data.text === "No hidden data found") && !data.image && !data.file && (
                     <p className="text-gray-500">No hidden data found</p>
                   )}
                 </div>
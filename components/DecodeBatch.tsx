@@ -0,0 +1,512 @@
+import React, { useState, useRef } from "react";
+import { Card, Input, Button, Divider, Chip } from "@nextui-org/react";
+import { parseKeyList, type BatchFile } from "@/lib/batch";
+import type { KeyringEntry } from "@/lib/keyring";
+import { validateDecryptionKey } from "@/lib/passphrase";
+import {
+  combineShares,
+  fileToDataUrl,
+  isJpeg,
+  joinShards,
+  keyFingerprint,
+  utf8Decode,
+  type HiddenFile,
+  type RevealedContent,
+} from "@/lib/stego";
+import { loadImageData } from "@/lib/stego/canvas";
+import {
+  decodeInWorker,
+  decodeJpegInWorker,
+  isAbortError,
+  openInWorker,
+  openTextInWorker,
+  type DecodeResult,
+  type JobOptions,
+  type JobProgress as Progression,
+} from "@/lib/stego/jobs";
+import { formatBytes } from "@/lib/utils";
+import JobProgress from "./JobProgress";
+
+type RowStatus = "queued" | "decoding" | "revealed" | "part" | "incomplete" | "wrong key" | "empty" | "corrupted" | "failed";
+type SortColumn = "path" | "status" | "key";
+
+interface ResultRow {
+  path: string;
+  status: RowStatus;
+  /** Position in the key list of the key that opened the file, if one did. */
+  keyIndex: number | null;
+  progress: Progression | null;
+  /** Why the file revealed nothing, or what is missing from a split or shared message. */
+  detail?: string;
+  revealed?: RevealedContent;
+  /** Fingerprint of the key that signed the message, if it was signed. */
+  fingerprint?: string;
+  /** Name of the keyring entry that signed the message, if it is known. */
+  signer?: string;
+  result?: DecodeResult;
+}
+
+interface DecodeBatchProps {
+  /** The archive or folder the files came from. */
+  source: string;
+  files: BatchFile[];
+  keyring: KeyringEntry[];
+  privateKeys: CryptoKey[];
+  onBack: () => void;
+}
+
+// The order the status column sorts in, most useful first.
+const STATUS_ORDER: RowStatus[] = ["revealed", "part", "incomplete", "wrong key", "corrupted", "failed", "empty", "decoding", "queued"];
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  queued: "Queued",
+  decoding: "Decoding",
+  revealed: "Revealed",
+  part: "Part",
+  incomplete: "Incomplete",
+  "wrong key": "Wrong key",
+  empty: "No hidden data",
+  corrupted: "Corrupted",
+  failed: "Failed",
+};
+
+const statusColor = (status: RowStatus) =>
+  status === "revealed"
+    ? "success"
+    : status === "part" || status === "decoding"
+    ? "primary"
+    : status === "wrong key" || status === "incomplete"
+    ? "warning"
+    : status === "corrupted" || status === "failed"
+    ? "danger"
+    : "default";
+
+const statusOf = (result: DecodeResult): RowStatus =>
+  result.error !== undefined
+    ? "corrupted"
+    : result.shard || result.share
+    ? "part"
+    : result.revealed === null
+    ? "empty"
+    : result.revealed.hasError
+    ? "wrong key"
+    : "revealed";
+
+/**
+ * Tries `keys` in order until one opens the carrier, reveals a part of a split
+ * or shared message, or finds damaged data no other key would fix.
+ */
+const tryKeys = async (keys: string[], attempt: (key: string) => Promise<DecodeResult>) => {
+  let best: { result: DecodeResult; keyIndex: number | null } | null = null;
+  for (let keyIndex = 0; keyIndex < keys.length; keyIndex++) {
+    const result = await attempt(keys[keyIndex]);
+    const status = statusOf(result);
+    if (status === "revealed" || status === "part" || status === "corrupted") return { result, keyIndex };
+    // A wrong key proves something is hidden, which says more than finding nothing.
+    if (!best || status === "wrong key") best = { result, keyIndex: null };
+  }
+  return best!;
+};
+
+const baseName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+const DecodeBatch = ({ source, files, keyring, privateKeys, onBack }: DecodeBatchProps) => {
+  const [key, setKey] = useState("");
+  const [keyVisibility, setKeyVisibility] = useState(false);
+  const [keyList, setKeyList] = useState<string[] | null>(null);
+  const [keyListName, setKeyListName] = useState("");
+  const [rows, setRows] = useState<ResultRow[]>([]);
+  // The keys of the last run, in the order they were tried.
+  const [keys, setKeys] = useState<string[]>([]);
+  const [sort, setSort] = useState<{ column: SortColumn; descending: boolean }>({ column: "path", descending: false });
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [error, setError] = useState("");
+  const [summary, setSummary] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const keyListInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleKeyListChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file
+      .text()
+      .then((text) => {
+        setKeyList(parseKeyList(text));
+        setKeyListName(file.name);
+        setError("");
+      })
+      .catch(() => setError("⚠️ Could not read the key list."));
+    e.target.value = "";
+  };
+
+  /** Decodes one file with a key, reading its pixels only once however many keys are tried. */
+  const openerFor = async (file: BatchFile) => {
+    if (file.type === "text/plain") {
+      const content = utf8Decode(file.data);
+      return (passphrase: string, job: JobOptions) => openTextInWorker(content, { passphrase, privateKeys }, job);
+    }
+    // JPEG carriers hide their data in DCT coefficients, not in the decoded pixels.
+    if (isJpeg(file.data)) {
+      return (passphrase: string, job: JobOptions) => decodeJpegInWorker(file.data.slice(), { passphrase, privateKeys }, job);
+    }
+    const { data } = await loadImageData(fileToDataUrl({ name: file.path, type: file.type, data: file.data }));
+    return (passphrase: string, job: JobOptions) =>
+      decodeInWorker(data.slice(), { passphrase, privateKeys }, passphrase || undefined, job);
+  };
+
+  const describe = async (result: DecodeResult, keyIndex: number | null): Promise<Omit<ResultRow, "path">> => {
+    const status = statusOf(result);
+    const { revealed } = result;
+    let fingerprint: string | undefined;
+    let signer: string | undefined;
+    if (status === "revealed" && revealed?.signature) {
+      fingerprint = await keyFingerprint(revealed.signature.signerPublicKey);
+      signer = keyring.find((entry) => entry.signingFingerprint === fingerprint)?.name;
+    }
+    return {
+      status,
+      keyIndex,
+      progress: null,
+      result,
+      revealed: status === "revealed" ? revealed ?? undefined : undefined,
+      fingerprint,
+      signer,
+      detail:
+        status === "corrupted"
+          ? result.error
+          : status === "wrong key"
+          ? "None of the keys opens this file"
+          : status === "part"
+          ? result.shard
+            ? `Part ${result.shard.index + 1} of ${result.shard.count} of a split message`
+            : `Share ${result.share!.x} of a message any ${result.share!.threshold} of ${result.share!.count} images reveal`
+          : undefined,
+    };
+  };
+
+  /** Rows for the split and shared messages whose parts were found, opened once all of them are there. */
+  const joinParts = async (decoded: ResultRow[], candidates: string[], job: JobOptions): Promise<ResultRow[]> => {
+    const groups = new Map<string, ResultRow[]>();
+    for (const row of decoded) {
+      const messageId = row.result?.shard?.messageId ?? row.result?.share?.messageId;
+      if (messageId) groups.set(messageId, [...(groups.get(messageId) ?? []), row]);
+    }
+    const joined: ResultRow[] = [];
+    for (const parts of Array.from(groups.values())) {
+      const share = parts[0].result!.share;
+      const path = `${share ? "Shared" : "Split"} message (${parts.map((part) => baseName(part.path)).join(", ")})`;
+      let container: Uint8Array | null;
+      let shortfall: string;
+      if (share) {
+        const combined = combineShares(parts.map((part) => part.result!.share!));
+        container = combined.container;
+        shortfall = `${combined.needed} more share${combined.needed === 1 ? "" : "s"} needed`;
+      } else {
+        const { container: whole, missing } = joinShards(parts.map((part) => part.result!.shard!));
+        container = whole;
+        shortfall = `Missing part${missing.length === 1 ? "" : "s"} ${missing.map((index) => index + 1).join(", ")} of ${parts[0].result!.shard!.count}`;
+      }
+      if (!container) {
+        joined.push({ path, status: "incomplete", keyIndex: null, progress: null, detail: shortfall });
+        continue;
+      }
+      const whole = container;
+      const { result, keyIndex } = await tryKeys(candidates, (passphrase) => openInWorker(whole.slice(), { passphrase, privateKeys }, job));
+      joined.push({ path, ...(await describe(result, keyIndex)) });
+    }
+    return joined;
+  };
+
+  const updateRow = (index: number, row: Partial<ResultRow>) =>
+    setRows((prev) => prev.map((current, i) => (i === index ? { ...current, ...row } : current)));
+
+  const handleSubmit = async () => {
+    const candidates = parseKeyList([key, ...(keyList ?? [])].join("\n"));
+    // With a key pair in the keyring, carriers sealed to it need no passphrase.
+    if (candidates.length === 0 && privateKeys.length > 0) candidates.push("");
+    if (candidates.length === 0) {
+      setError("⚠️ Please enter a key or choose a key list.");
+      return;
+    }
+    for (let index = 0; index < candidates.length; index++) {
+      const keyError = candidates[index] ? validateDecryptionKey(candidates[index]) : null;
+      if (keyError) {
+        setError(candidates.length === 1 ? `⚠️ Decryption key: ${keyError}` : `⚠️ Key ${index + 1}: ${keyError}`);
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsDecoding(true);
+    setError("");
+    setSummary("");
+    setKeys(candidates);
+    const decoded: ResultRow[] = files.map((file) => ({ path: file.path, status: "queued", keyIndex: null, progress: null }));
+    setRows(decoded.map((row) => ({ ...row })));
+
+    try {
+      const decodeNext = async (index: number) => {
+        const job = { signal: controller.signal, onProgress: (progress: Progression) => updateRow(index, { progress }) };
+        updateRow(index, { status: "decoding" });
+        try {
+          const open = await openerFor(files[index]);
+          const { result, keyIndex } = await tryKeys(candidates, (passphrase) => open(passphrase, job));
+          Object.assign(decoded[index], await describe(result, keyIndex));
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          Object.assign(decoded[index], {
+            status: "failed",
+            progress: null,
+            detail: error instanceof Error ? error.message : String(error),
+          });
+        }
+        updateRow(index, decoded[index]);
+      };
+
+      // A few files at a time, each in its own worker; one failing does not stop the rest.
+      const concurrency = Math.max(1, Math.min(4, navigator.hardwareConcurrency || 2));
+      let next = 0;
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, files.length) }, async () => {
+          while (next < files.length) await decodeNext(next++);
+        })
+      );
+
+      const all = [...decoded, ...(await joinParts(decoded, candidates, { signal: controller.signal }))];
+      setRows(all);
+      const revealed = all.filter((row) => row.status === "revealed").length;
+      const withData = all.filter((row) => row.status !== "empty" && row.status !== "part").length;
+      setSummary(
+        revealed === 0
+          ? `⚠️ Nothing was revealed in ${files.length} ${files.length === 1 ? "file" : "files"}.`
+          : `✅ Revealed ${revealed} ${revealed === 1 ? "message" : "messages"}${withData > revealed ? `; ${withData - revealed} could not be opened` : ""}.`
+      );
+    } catch (error) {
+      controller.abort();
+      setError(isAbortError(error) ? "⚠️ Decoding cancelled." : `❌ Error decoding files: ${error}`);
+    } finally {
+      abortControllerRef.current = null;
+      setIsDecoding(false);
+    }
+  };
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const handleDownloadFile = (file: HiddenFile) => {
+    const url = URL.createObjectURL(new Blob([file.data], { type: file.type }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadImage = (row: ResultRow) => {
+    const a = document.createElement("a");
+    a.href = row.revealed!.embeddedImage!;
+    a.download = `hidden_image_${baseName(row.path).replace(/\.[^.]*$/, "")}.png`;
+    a.click();
+  };
+
+  const toggleSort = (column: SortColumn) =>
+    setSort((prev) => ({ column, descending: prev.column === column ? !prev.descending : false }));
+
+  const compareRows = (a: ResultRow, b: ResultRow) => {
+    const order =
+      sort.column === "status"
+        ? STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+        : sort.column === "key"
+        ? (a.keyIndex ?? keys.length) - (b.keyIndex ?? keys.length)
+        : 0;
+    return (order || a.path.localeCompare(b.path)) * (sort.descending ? -1 : 1);
+  };
+
+  const table = rows.length > 0 ? rows : files.map((file): ResultRow => ({ path: file.path, status: "queued", keyIndex: null, progress: null }));
+  const sortedRows = [...table].sort(compareRows);
+  const totalSize = files.reduce((total, file) => total + file.data.length, 0);
+
+  const sortHeader = (column: SortColumn, label: string) => (
+    <th className="py-1 pr-2 text-left">
+      <button className="hover:text-gray-300" onClick={() => toggleSort(column)}>
+        {label}
+        {sort.column === column ? (sort.descending ? " ▼" : " ▲") : ""}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen relative text-neutral-200 overflow-hidden">
+      <div className="absolute inset-0 bg-gradient-to-b from-[#111] via-[#181818] to-[#111]"></div>
+
+      <div className="relative z-10 text-center">
+        <p className="text-2xl sm:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-200 to-neutral-500 py-8">
+          {summary ? (
+            <span className={summary.startsWith("✅") ? "text-green-400" : "text-yellow-400"}>{summary}</span>
+          ) : (
+            <>
+              <strong className="text-red-400">Decode</strong> every file in{" "}
+              <strong className="bg-gradient-to-r from-stone-500 to-stone-700 bg-clip-text text-transparent">{source}</strong>
+            </>
+          )}
+        </p>
+
+        <Card
+          isBlurred
+          className="max-w-3xl w-full mx-auto p-6 my-12 border-2 border-dotted border-gray-400 rounded-lg shadow-xl bg-gray-50 dark:bg-gray-900"
+        >
+          <div className="flex w-full items-center justify-between gap-2">
+            <span className="text-sm text-gray-500">
+              {files.length} {files.length === 1 ? "file" : "files"} ({formatBytes(totalSize)})
+            </span>
+            <Button size="sm" className="bg-gray-800 text-white" onClick={onBack} isDisabled={isDecoding}>
+              Back
+            </Button>
+          </div>
+
+          <Divider className="my-4" />
+
+          <Input
+            fullWidth
+            size="lg"
+            label="Decryption Key"
+            placeholder={
+              privateKeys.length > 0
+                ? "Enter the passphrase, or leave empty to use your keyring"
+                : "Enter the passphrase used to encode"
+            }
+            value={key}
+            onChange={(e) => setKey(e.target.value)}
+            type={keyVisibility ? "text" : "password"}
+            className="text-black"
+            variant="bordered"
+            color="primary"
+            classNames={{
+              input: "text-black dark:text-white",
+              label: "text-gray-500 dark:text-gray-400",
+              inputWrapper: "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 shadow-sm hover:shadow-md transition-shadow",
+            }}
+            endContent={
+              <Button
+                size="sm"
+                variant="light"
+                onClick={() => setKeyVisibility((visible) => !visible)}
+                className="focus:outline-none text-gray-500"
+              >
+                {keyVisibility ? "Hide" : "Show"}
+              </Button>
+            }
+          />
+
+          <div className="flex gap-2 my-4">
+            <input type="file" ref={keyListInputRef} className="hidden" accept=".txt,text/plain" onChange={handleKeyListChange} />
+            <Button onClick={() => keyListInputRef.current?.click()} className="bg-gray-800 text-white flex-1" isDisabled={isDecoding}>
+              {keyList ? `${keyListName} (${keyList.length} ${keyList.length === 1 ? "key" : "keys"})` : "Choose Key List"}
+            </Button>
+            {keyList && (
+              <Button
+                color="danger"
+                variant="light"
+                onClick={() => {
+                  setKeyList(null);
+                  setKeyListName("");
+                }}
+                isDisabled={isDecoding}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mb-4 text-left">
+            A text file with one key per line. Every file is tried with the key above first and then with each key in the list.
+          </p>
+
+          {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+
+          <div className="w-full max-h-96 overflow-auto mb-4">
+            <table className="w-full text-sm text-gray-500 text-left">
+              <thead>
+                <tr className="border-b border-gray-300 dark:border-gray-700">
+                  {sortHeader("path", "File")}
+                  {sortHeader("status", "Status")}
+                  {sortHeader("key", "Key")}
+                  <th className="py-1">Content</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map((row) => (
+                  <tr key={row.path} className="border-b border-gray-200 dark:border-gray-800 align-top">
+                    <td className="py-2 pr-2 max-w-[12rem] truncate" title={row.path}>
+                      {row.path}
+                    </td>
+                    <td className="py-2 pr-2">
+                      <Chip size="sm" variant="flat" color={statusColor(row.status)}>
+                        {STATUS_LABELS[row.status]}
+                      </Chip>
+                      {row.status === "decoding" && <JobProgress label="Progress" progress={row.progress} />}
+                    </td>
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {row.keyIndex === null ? "–" : keys[row.keyIndex] === "" ? "Keyring" : `Key ${row.keyIndex + 1}`}
+                    </td>
+                    <td className="py-2 max-w-[16rem]">
+                      {row.revealed ? (
+                        <div className="flex flex-col gap-1">
+                          {row.revealed.text && (
+                            <span className="truncate text-gray-400" title={row.revealed.text}>
+                              {row.revealed.text}
+                            </span>
+                          )}
+                          {row.revealed.signature && (
+                            <span
+                              className={`text-xs truncate ${
+                                !row.revealed.signature.valid ? "text-red-500" : row.signer ? "text-green-500" : "text-gray-500"
+                              }`}
+                              title={row.fingerprint}
+                            >
+                              {!row.revealed.signature.valid
+                                ? `Invalid signature · ${row.fingerprint}`
+                                : row.signer
+                                ? `Verified · ${row.signer}`
+                                : `Signed by unknown key · ${row.fingerprint}`}
+                            </span>
+                          )}
+                          {row.revealed.file && (
+                            <button className="text-xs text-blue-400 hover:text-blue-600 text-left truncate" onClick={() => handleDownloadFile(row.revealed!.file!)}>
+                              Download {row.revealed.file.name} ({formatBytes(row.revealed.file.data.length)})
+                            </button>
+                          )}
+                          {row.revealed.embeddedImage && (
+                            <button className="text-xs text-blue-400 hover:text-blue-600 text-left" onClick={() => handleDownloadImage(row)}>
+                              Download hidden image
+                            </button>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs">{row.detail}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {isDecoding ? (
+            <Button className="mt-4 w-full bg-red-500 text-white hover:bg-red-700" onClick={handleCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              className="mt-4 w-full bg-gradient-to-r from-green-400 to-blue-500 hover:bg-gradient-to-l"
+              onClick={handleSubmit}
+            >
+              {rows.length > 0 ? "Decode Again" : `Decode ${files.length} ${files.length === 1 ? "File" : "Files"}`}
+            </Button>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default DecodeBatch;
@@ -1,10 +1,11 @@
 import React, { useState } from "react";
 import EncodeText from "./EncodeText";
 import EncodeImage from "./EncodeImages";
+import EncodeBatch from "./EncodeBatch";
 import { Card, Button } from "@nextui-org/react";
 
 const Encode = () => {
-  const [mode, setMode] = useState<"text" | "image" | null>(null);
+  const [mode, setMode] = useState<"text" | "image" | "batch" | null>(null);
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen relative text-neutral-200 overflow-hidden">
@@ -33,11 +34,19 @@ const Encode = () => {
                 >
                   Encode Text &<br /> Image in Image
                 </Button>
+                <Button
+                  className="w-full sm:w-[320px] h-[120px] rounded-3xl text-lg sm:text-xl font-bold text-white bg-gradient-to-br from-emerald-400 via-teal-500 to-cyan-600 shadow-[0_8px_30px_rgba(0,220,160,0.4)] hover:scale-105 transition-all duration-300 ease-in-out text-center leading-snug"
+                  onClick={() => setMode("batch")}
+                >
+                  Batch Encode<br /> Many Images to ZIP
+                </Button>
               </div>
             </Card>
           </>
         ) : mode === "text" ? (
           <EncodeText />
+        ) : mode === "batch" ? (
+          <EncodeBatch />
         ) : (
           <EncodeImage />
         )}
@@ -0,0 +1,539 @@
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import { Card, Input, Textarea, Button, Divider, Select, SelectItem, Switch, Chip } from "@nextui-org/react";
+import { Dices } from "lucide-react";
+import {
+  MAX_BITS_PER_CHANNEL,
+  MIN_BITS_PER_CHANNEL,
+  ErrorCorrection,
+  fileFromDataUrl,
+  isJpeg,
+  utf8Length,
+  type SealOptions,
+} from "@/lib/stego";
+import { imageDataToDataUrl, loadImageData } from "@/lib/stego/canvas";
+import { encodeInWorker, encodeJpegInWorker, isAbortError, type JobOptions, type JobProgress as Progression } from "@/lib/stego/jobs";
+import { buildBatchZip, fillTemplate, readBatchCsv, uniqueName, type BatchRow, type ManifestEntry } from "@/lib/batch";
+import { importSigningKeyPair, loadKeyring, type KeyringEntry } from "@/lib/keyring";
+import { generatePassphrase, passphraseStrength, validatePassphrase } from "@/lib/passphrase";
+import { formatBytes } from "@/lib/utils";
+import JobProgress from "./JobProgress";
+import PassphraseStrength from "./PassphraseStrength";
+import SignerSelect from "./SignerSelect";
+
+type OutputFormat = "png" | "jpeg";
+type MessageSource = "template" | "csv";
+
+interface QueueItem {
+  status: "queued" | "encoding" | "encoded" | "failed";
+  progress: Progression | null;
+  error?: string;
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+const baseName = (name: string) => (name.lastIndexOf(".") > 0 ? name.slice(0, name.lastIndexOf(".")) : name);
+
+/** Hides `text` in one carrier file and returns the encoded image file with what the embedding changed. */
+const encodeCarrier = async (
+  carrier: File,
+  text: string,
+  passphrase: string,
+  options: { format: OutputFormat; seal: SealOptions; bitsPerChannel: number; errorCorrection: ErrorCorrection },
+  job: JobOptions
+) => {
+  const dataUrl = await readAsDataUrl(carrier);
+  const imgData = await loadImageData(dataUrl);
+  const { width, height } = imgData;
+  const payload = { content: { text, file: null }, key: passphrase, seal: options.seal };
+  if (options.format === "jpeg") {
+    const original = fileFromDataUrl(dataUrl, carrier.name).data;
+    const { jpeg, stats } = await encodeJpegInWorker(
+      { pixels: imgData.data, width, height, jpeg: isJpeg(original) ? original : undefined },
+      payload,
+      { errorCorrection: options.errorCorrection },
+      job
+    );
+    return { data: jpeg, stats };
+  }
+  const { pixels, stats } = await encodeInWorker(
+    imgData.data,
+    payload,
+    { bitsPerChannel: options.bitsPerChannel, errorCorrection: options.errorCorrection },
+    job
+  );
+  const png = imageDataToDataUrl(new ImageData(pixels, width, height));
+  return { data: fileFromDataUrl(png, carrier.name).data, stats };
+};
+
+const EncodeBatch = () => {
+  const [carriers, setCarriers] = useState<File[]>([]);
+  const [source, setSource] = useState<MessageSource>("template");
+  const [template, setTemplate] = useState("");
+  const [csvRows, setCsvRows] = useState<BatchRow[] | null>(null);
+  const [csvName, setCsvName] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [keyVisibility, setKeyVisibility] = useState(false);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("png");
+  const [bitsPerChannel, setBitsPerChannel] = useState<number>(MIN_BITS_PER_CHANNEL);
+  const [errorCorrection, setErrorCorrection] = useState<ErrorCorrection>(ErrorCorrection.None);
+  const [compressPayload, setCompressPayload] = useState(true);
+  const [keyring, setKeyring] = useState<KeyringEntry[]>([]);
+  const [signerId, setSignerId] = useState<string | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const csvInputRef = useRef<HTMLInputElement | null>(null);
+  const strength = useMemo(() => passphraseStrength(passphrase), [passphrase]);
+
+  useEffect(() => {
+    setKeyring(loadKeyring());
+  }, []);
+
+  const signerEntry = keyring.find((entry) => entry.id === signerId && entry.privateKey) ?? null;
+
+  const addCarriers = (selected: FileList | null) => {
+    if (!selected) return;
+    const images = Array.from(selected).filter((file) => file.type.startsWith("image/"));
+    if (images.length < selected.length) {
+      setError("⚠️ Only image files can be used as carriers; the others were skipped.");
+      setTimeout(() => setError(""), 2000);
+    }
+    setCarriers((prev) => [...prev, ...images]);
+    setQueue([]);
+  };
+
+  const handleCsvChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file
+      .text()
+      .then((text) => {
+        setCsvRows(readBatchCsv(text));
+        setCsvName(file.name);
+        setError("");
+      })
+      .catch((reason) => {
+        setCsvRows(null);
+        setCsvName("");
+        setError(`⚠️ ${reason instanceof Error ? reason.message : "Could not read the CSV file."}`);
+      });
+    e.target.value = "";
+  };
+
+  /** The message and passphrase for carrier `index`, or why it has none. */
+  const messageFor = (index: number): { text: string; passphrase: string } | { error: string } => {
+    const carrier = carriers[index];
+    if (source === "template") {
+      return {
+        text: fillTemplate(template, { name: baseName(carrier.name), index: index + 1, count: carriers.length }),
+        passphrase,
+      };
+    }
+    const row = csvRows?.find((candidate) => candidate.file === carrier.name);
+    if (!row) return { error: "No CSV row for this file" };
+    if (!row.message) return { error: "The CSV row has no message" };
+    return { text: row.message, passphrase: row.passphrase ?? passphrase };
+  };
+
+  const updateItem = (index: number, item: Partial<QueueItem>) =>
+    setQueue((prev) => prev.map((current, i) => (i === index ? { ...current, ...item } : current)));
+
+  const handleSubmit = async () => {
+    if (carriers.length === 0) {
+      setError("⚠️ Please add at least one carrier image.");
+      return;
+    }
+    if (source === "template" && !template) {
+      setError("⚠️ Please enter a message template.");
+      return;
+    }
+    if (source === "csv" && !csvRows) {
+      setError("⚠️ Please choose a CSV file of messages.");
+      return;
+    }
+    const messages = carriers.map((_, index) => messageFor(index));
+    for (let index = 0; index < messages.length; index++) {
+      const message = messages[index];
+      const keyError = "text" in message ? validatePassphrase(message.passphrase) : null;
+      if (keyError) {
+        setError(
+          "text" in message && message.passphrase !== passphrase
+            ? `⚠️ Passphrase for ${carriers[index].name} in the CSV: ${keyError}`
+            : `⚠️ Encryption key: ${keyError}`
+        );
+        return;
+      }
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsEncoding(true);
+    setError("");
+    setQueue(carriers.map(() => ({ status: "queued", progress: null })));
+
+    const extension = outputFormat === "jpeg" ? "jpg" : "png";
+    const taken = new Set<string>();
+    const outputs: { path: string; data: Uint8Array }[] = [];
+    const entries: ManifestEntry[] = carriers.map((carrier, index) => {
+      const message = messages[index];
+      return {
+        carrier: carrier.name,
+        output: null,
+        status: "failed",
+        messageBytes: "text" in message ? utf8Length(message.text) : 0,
+      };
+    });
+
+    try {
+      const signer = signerEntry ? await importSigningKeyPair(signerEntry) : undefined;
+      const encodeNext = async (index: number) => {
+        const message = messages[index];
+        if ("error" in message) {
+          entries[index].error = message.error;
+          updateItem(index, { status: "failed", error: message.error });
+          return;
+        }
+        updateItem(index, { status: "encoding" });
+        try {
+          const { data, stats } = await encodeCarrier(
+            carriers[index],
+            message.text,
+            message.passphrase,
+            { format: outputFormat, seal: { compress: compressPayload, signer }, bitsPerChannel, errorCorrection },
+            { signal: controller.signal, onProgress: (progress) => updateItem(index, { progress }) }
+          );
+          const path = uniqueName(`encoded/${baseName(carriers[index].name)}.${extension}`, taken);
+          outputs.push({ path, data });
+          Object.assign(entries[index], { output: path, status: "encoded", embeddedBits: stats.bits, changes: stats.changes });
+          updateItem(index, { status: "encoded", progress: null });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          const reason = error instanceof Error ? error.message : String(error);
+          entries[index].error = reason;
+          updateItem(index, { status: "failed", progress: null, error: reason });
+        }
+      };
+
+      // A few carriers at a time, each in its own worker; one failing does not stop the rest.
+      const concurrency = Math.max(1, Math.min(4, navigator.hardwareConcurrency || 2));
+      let next = 0;
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, carriers.length) }, async () => {
+          while (next < carriers.length) await encodeNext(next++);
+        })
+      );
+
+      const zip = buildBatchZip(outputs, {
+        createdAt: new Date().toISOString(),
+        format: outputFormat,
+        settings: {
+          source,
+          bitsPerChannel: outputFormat === "png" ? bitsPerChannel : 1,
+          errorCorrection,
+          compressed: compressPayload,
+          signed: Boolean(signer),
+        },
+        entries,
+      });
+      const url = URL.createObjectURL(new Blob([zip], { type: "application/zip" }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "encoded_batch.zip";
+      a.click();
+      URL.revokeObjectURL(url);
+
+      const failed = entries.filter((entry) => entry.status === "failed").length;
+      setSuccess(
+        failed === 0
+          ? `✅ Encoded all ${outputs.length} images into encoded_batch.zip (${formatBytes(zip.length)}).`
+          : `⚠️ Encoded ${outputs.length} of ${carriers.length} images; see manifest.json for the ${failed} that failed.`
+      );
+    } catch (error) {
+      controller.abort();
+      setError(isAbortError(error) ? "⚠️ Encoding cancelled." : `❌ Error processing the batch: ${error}`);
+    } finally {
+      abortControllerRef.current = null;
+      setIsEncoding(false);
+    }
+  };
+
+  const handleCancel = () => abortControllerRef.current?.abort();
+
+  const resetAll = () => {
+    setCarriers([]);
+    setQueue([]);
+    setSuccess("");
+    setError("");
+  };
+
+  const statusColor = (status: QueueItem["status"]) =>
+    status === "encoded" ? "success" : status === "failed" ? "danger" : status === "encoding" ? "primary" : "default";
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen relative text-neutral-200 overflow-hidden">
+      <div className="absolute inset-0 bg-gradient-to-b from-[#111] via-[#181818] to-[#111]"></div>
+
+      <div className="relative z-10 text-center">
+        <p className="text-2xl sm:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-200 to-neutral-500 py-1">
+          {success ? (
+            <span className={success.startsWith("✅") ? "text-green-400" : "text-yellow-400"}>{success}</span>
+          ) : (
+            <>
+              <strong className="text-red-400">Batch</strong> encode{" "}
+              <strong className="bg-gradient-to-r from-stone-500 to-stone-700 bg-clip-text text-transparent">
+                many images
+              </strong>
+            </>
+          )}
+        </p>
+        <Card
+          isBlurred
+          className="max-w-lg w-full mx-auto p-6 my-12 border-2 border-dotted border-gray-400 rounded-lg shadow-xl bg-gray-50 dark:bg-gray-900"
+        >
+          <div
+            className="flex flex-col items-center justify-center w-full min-h-32 cursor-pointer"
+            onDrop={(e) => {
+              e.preventDefault();
+              addCarriers(e.dataTransfer.files);
+            }}
+            onDragOver={(e) => e.preventDefault()}
+          >
+            {carriers.length > 0 ? (
+              <div className="flex w-full items-center justify-between gap-2">
+                <span className="text-sm text-gray-500">
+                  {carriers.length} carrier {carriers.length === 1 ? "image" : "images"} (
+                  {formatBytes(carriers.reduce((total, carrier) => total + carrier.size, 0))})
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" className="bg-gray-800 text-white" onClick={() => fileInputRef.current?.click()} isDisabled={isEncoding}>
+                    Add More
+                  </Button>
+                  <Button size="sm" color="danger" variant="light" onClick={resetAll} isDisabled={isEncoding}>
+                    Clear
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                className="text-center text-gray-500 border-2 border-dotted border-gray-400 rounded-lg p-6 w-full"
+              >
+                Click here or drag & drop any number of carrier images
+              </div>
+            )}
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept="image/*"
+              multiple
+              onChange={(e) => {
+                addCarriers(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          <Divider className="my-4" />
+
+          <Select
+            label="Messages"
+            selectedKeys={[source]}
+            onChange={(e) => e.target.value && setSource(e.target.value as MessageSource)}
+            className="mb-4"
+            description={
+              source === "template"
+                ? "One message for every image. {name}, {index} and {count} are replaced per image."
+                : 'A CSV with "file" and "message" columns and an optional "passphrase" column, one row per image.'
+            }
+          >
+            <SelectItem key="template" value="template">
+              One template for all images
+            </SelectItem>
+            <SelectItem key="csv" value="csv">
+              A CSV of messages per file
+            </SelectItem>
+          </Select>
+
+          {source === "template" ? (
+            <Textarea
+              fullWidth
+              label="Message template"
+              placeholder="e.g. Certificate {index} of {count} for {name}"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              className="text-black mb-4"
+            />
+          ) : (
+            <div className="mb-4">
+              <input type="file" ref={csvInputRef} className="hidden" accept=".csv,text/csv" onChange={handleCsvChange} />
+              <Button onClick={() => csvInputRef.current?.click()} className="bg-gray-800 text-white w-full">
+                {csvRows ? `${csvName} (${csvRows.length} ${csvRows.length === 1 ? "row" : "rows"})` : "Choose CSV File"}
+              </Button>
+            </div>
+          )}
+
+          <Input
+            fullWidth
+            size="lg"
+            label="Encryption Key"
+            placeholder={source === "csv" ? "Used for rows without a passphrase" : "Enter a passphrase or generate one"}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            type={keyVisibility ? "text" : "password"}
+            className="text-black"
+            variant="bordered"
+            color={passphrase && strength.error ? "danger" : "primary"}
+            classNames={{
+              input: "text-black dark:text-white",
+              label: "text-gray-500 dark:text-gray-400",
+              inputWrapper: "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 shadow-sm hover:shadow-md transition-shadow",
+            }}
+            endContent={
+              <div className="flex items-center">
+                <Button
+                  isIconOnly
+                  variant="light"
+                  onClick={() => {
+                    setPassphrase(generatePassphrase());
+                    setKeyVisibility(true);
+                  }}
+                  className="focus:outline-none"
+                  aria-label="Generate passphrase"
+                >
+                  <Dices className="w-5 h-5 text-gray-500" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="light"
+                  onClick={() => setKeyVisibility((visible) => !visible)}
+                  className="focus:outline-none text-gray-500"
+                >
+                  {keyVisibility ? "Hide" : "Show"}
+                </Button>
+              </div>
+            }
+          />
+          <PassphraseStrength passphrase={passphrase} strength={strength} />
+
+          <Select
+            label="Output format"
+            selectedKeys={[outputFormat]}
+            onChange={(e) => e.target.value && setOutputFormat(e.target.value as OutputFormat)}
+            className="my-4"
+          >
+            <SelectItem key="png" value="png">
+              PNG (pixel LSBs)
+            </SelectItem>
+            <SelectItem key="jpeg" value="jpeg">
+              JPEG (DCT coefficients)
+            </SelectItem>
+          </Select>
+
+          {outputFormat === "png" && (
+            <Select
+              label="Bits per colour channel"
+              selectedKeys={[bitsPerChannel.toString()]}
+              onChange={(e) => e.target.value && setBitsPerChannel(parseInt(e.target.value))}
+              className="mb-4"
+            >
+              {Array.from({ length: MAX_BITS_PER_CHANNEL - MIN_BITS_PER_CHANNEL + 1 }, (_, i) => i + MIN_BITS_PER_CHANNEL).map((bits) => (
+                <SelectItem key={bits.toString()} value={bits.toString()}>
+                  {bits === 1 ? "1 bit" : `${bits} bits`}
+                </SelectItem>
+              ))}
+            </Select>
+          )}
+
+          <Select
+            label="Error correction"
+            selectedKeys={[errorCorrection.toString()]}
+            onChange={(e) => e.target.value && setErrorCorrection(parseInt(e.target.value) as ErrorCorrection)}
+            className="mb-4"
+          >
+            <SelectItem key={ErrorCorrection.None.toString()} value={ErrorCorrection.None.toString()}>
+              None
+            </SelectItem>
+            <SelectItem key={ErrorCorrection.Low.toString()} value={ErrorCorrection.Low.toString()}>
+              Low
+            </SelectItem>
+            <SelectItem key={ErrorCorrection.Medium.toString()} value={ErrorCorrection.Medium.toString()}>
+              Medium
+            </SelectItem>
+            <SelectItem key={ErrorCorrection.High.toString()} value={ErrorCorrection.High.toString()}>
+              High
+            </SelectItem>
+          </Select>
+
+          <SignerSelect keyring={keyring} value={signerEntry?.id ?? null} onChange={setSignerId} />
+
+          <Switch isSelected={compressPayload} onValueChange={setCompressPayload} size="sm" className="mb-4">
+            <span className="text-sm text-gray-500">Compress hidden data before encrypting</span>
+          </Switch>
+
+          {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+
+          {carriers.length > 0 && (
+            <div className="w-full max-h-80 overflow-y-auto mb-4 text-left">
+              {carriers.map((carrier, index) => {
+                const item = queue[index];
+                const message = messageFor(index);
+                return (
+                  <div key={index} className="py-2 border-b border-gray-700 last:border-b-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-gray-400 truncate" title={carrier.name}>
+                        {carrier.name}
+                      </span>
+                      {item ? (
+                        <Chip size="sm" variant="flat" color={statusColor(item.status)} className="shrink-0">
+                          {item.status === "encoded" ? "Encoded" : item.status === "failed" ? "Failed" : item.status === "encoding" ? "Encoding" : "Queued"}
+                        </Chip>
+                      ) : (
+                        !isEncoding && (
+                          <button
+                            className="text-xs text-red-400 hover:text-red-600 shrink-0"
+                            onClick={() => setCarriers((prev) => prev.filter((_, i) => i !== index))}
+                          >
+                            Remove
+                          </button>
+                        )
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">
+                      {item?.error ?? ("error" in message ? message.error : message.text || "(empty message)")}
+                    </p>
+                    {item?.status === "encoding" && <JobProgress label="Progress" progress={item.progress} />}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {isEncoding ? (
+            <Button className="mt-4 w-full bg-red-500 text-white hover:bg-red-700" onClick={handleCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              className="mt-4 w-full bg-gradient-to-r from-green-400 to-blue-500 hover:bg-gradient-to-l cursor-pointer"
+              onClick={handleSubmit}
+            >
+              Encode {carriers.length > 0 ? `${carriers.length} ${carriers.length === 1 ? "Image" : "Images"}` : "Batch"} to ZIP
+            </Button>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default EncodeBatch;
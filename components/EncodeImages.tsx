@@ -1,74 +1,134 @@
-import React, { useState, useRef, useEffect } from "react";
-import { Input, Card, Image, Button, Divider, Textarea, Select, SelectItem, Modal, ModalContent, ModalHeader, ModalBody, ModalFooter } from "@nextui-org/react";
-import CryptoJS from "crypto-js";
-
-const encodeImageMessage = async (imageData: string, message: string) => {
-  const canvas = document.createElement("canvas");
-  const ctx = canvas.getContext("2d");
-  const img = new window.Image();
-  img.src = imageData;
-
-  return new Promise<string>((resolve, reject) => {
-    img.onload = () => {
-      if (!ctx) {
-        console.error("Canvas context is null");
-        reject("Failed to get canvas context.");
-        return;
-      }
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx?.drawImage(img, 0, 0);
-      const imgData = ctx?.getImageData(0, 0, img.width, img.height);
-      if (!imgData) return reject("Error loading image data");
-
-      const data = imgData.data;
-      let binaryMessage = "";
-      const fullMessage = message + "\0";
-
-      for (let i = 0; i < fullMessage.length; i++) {
-        binaryMessage += fullMessage.charCodeAt(i).toString(2).padStart(8, "0");
-      }
-      if (message.startsWith("data:image/")) {
-        const hiddenImg = new window.Image();
-        hiddenImg.src = message;
-        hiddenImg.onload = () => {
-          const dimString = `DIM:${hiddenImg.width}x${hiddenImg.height}:`;
-          binaryMessage += dimString
-            .split("")
-            .map(char => char.charCodeAt(0).toString(2).padStart(8, "0"))
-            .join("");
-        };
-        hiddenImg.onerror = () => reject("Failed to load hidden image for dimensions.");
-      }
-      let messageIndex = 0;
-      for (let i = 0; i < data.length && messageIndex < binaryMessage.length; i += 4) {
-        if (messageIndex < binaryMessage.length) {
-          data[i] = (data[i] & 0b11111110) | parseInt(binaryMessage[messageIndex++], 2); // Red
-        }
-        if (messageIndex < binaryMessage.length) {
-          data[i + 1] = (data[i + 1] & 0b11111110) | parseInt(binaryMessage[messageIndex++], 2); // Green
-        }
-        if (messageIndex < binaryMessage.length) {
-          data[i + 2] = (data[i + 2] & 0b11111110) | parseInt(binaryMessage[messageIndex++], 2); // Blue
-        }
-      }
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import { Input, Card, Image, Button, Divider, Textarea, Select, SelectItem, Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Switch } from "@nextui-org/react";
+import { Dices } from "lucide-react";
+import {
+  MAX_BITS_PER_CHANNEL,
+  MIN_BITS_PER_CHANNEL,
+  MIN_THRESHOLD,
+  ErrorCorrection,
+  LAYER_SLOTS,
+  bytesToBase64,
+  capacityForProfile,
+  fileFromDataUrl,
+  isJpeg,
+  layerCapacity,
+  minimumCarrierSize,
+  profileCarrier,
+  protectedSize,
+  rawCapacityForProfile,
+  sealedSize,
+  shareContainer,
+  shareContainerSize,
+  shardContainerSize,
+  shardSizes,
+  splitContainer,
+  utf8Length,
+  type EmbeddingStats,
+  type CarrierComparison,
+  type CarrierProfile,
+  type HiddenContent,
+  type SealKey,
+  type SealOptions,
+} from "@/lib/stego";
+import { imageDataToDataUrl, loadImageData } from "@/lib/stego/canvas";
+import {
+  compareInWorker,
+  encodeInWorker,
+  encodeJpegInWorker,
+  encodeLayersInWorker,
+  isAbortError,
+  measureJpegInWorker,
+  sealInWorker,
+  type JobOptions,
+  type JobProgress as Progression,
+  type LayerContent,
+  type Payload,
+  type PixelEmbedOptions,
+} from "@/lib/stego/jobs";
+import { buildBatchZip } from "@/lib/batch";
+import { importPublicKey, importSigningKeyPair, loadKeyring, type KeyringEntry } from "@/lib/keyring";
+import { generatePassphrase, passphraseStrength, validatePassphrase } from "@/lib/passphrase";
+import { formatBytes } from "@/lib/utils";
+import CapacityMeter from "./CapacityMeter";
+import CarrierPreview from "./CarrierPreview";
+import JobProgress from "./JobProgress";
+import PassphraseStrength from "./PassphraseStrength";
+import SignerSelect from "./SignerSelect";
 
-      ctx.putImageData(imgData, 0, 0);
-      resolve(canvas.toDataURL());
-    };
+type OutputFormat = "png" | "jpeg";
+/** How a batch of carriers is filled: a message each, or Image 1's message split or threshold-shared across all. */
+type CarrierMode = "separate" | "split" | "threshold";
+/** A payload, or deniable layers that fill the whole carrier. */
+type CarrierPayload = Payload | { layers: LayerContent[]; seal: SealOptions };
 
-    img.onerror = () => reject("Failed to load image.");
-  });
+/** An extra layer with its own text and passphrase, to hand over instead of the real one. */
+interface DecoyLayer {
+  text: string;
+  passphrase: string;
+}
+
+const encodeImageMessage = async (
+  imageData: string,
+  payload: CarrierPayload,
+  options: { format: OutputFormat; robust: boolean; embed: PixelEmbedOptions },
+  job: JobOptions
+) => {
+  const imgData = await loadImageData(imageData);
+  const { width, height } = imgData;
+  // The worker takes ownership of the pixels, so keep a copy of the cover to compare against.
+  const cover = imgData.data.slice();
+  let data: string;
+  let pixels: Uint8ClampedArray;
+  let stats: EmbeddingStats;
+  if ("layers" in payload) {
+    ({ pixels, stats } = await encodeLayersInWorker(imgData.data, payload.layers, payload.seal, job));
+    data = imageDataToDataUrl(new ImageData(pixels, width, height));
+  } else if (options.format === "jpeg") {
+    const original = fileFromDataUrl(imageData, "Carrier").data;
+    const encoded = await encodeJpegInWorker(
+      { pixels: imgData.data, width, height, jpeg: isJpeg(original) ? original : undefined },
+      payload,
+      { errorCorrection: options.embed.errorCorrection, robust: options.robust },
+      job
+    );
+    data = `data:image/jpeg;base64,${bytesToBase64(encoded.jpeg)}`;
+    stats = encoded.stats;
+    // Compare against what a viewer will actually see.
+    pixels = (await loadImageData(data)).data;
+  } else {
+    ({ pixels, stats } = await encodeInWorker(imgData.data, payload, options.embed, job));
+    data = imageDataToDataUrl(new ImageData(pixels, width, height));
+  }
+  const comparison = await compareInWorker(cover, pixels, width, height, job);
+  return { data, comparison, stats };
 };
+
+interface AttachedFile {
+  name: string;
+  data: string;
+}
+
 interface EncodedImage {
   data: string;
+  comparison: CarrierComparison;
+  stats: EmbeddingStats;
   index: number;
   hiddenFileIndex?: number;
 }
 
+// Carriers and attachments are kept as data URLs, which can outgrow the storage
+// quota; a value that does not fit is dropped rather than restored out of date.
+const saveSession = (key: string, value: unknown) => {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    sessionStorage.removeItem(key);
+  }
+};
+
 const EncodeImages = () => {
   const [files, setFiles] = useState<string[]>([]);
-  const [hiddenFiles, setHiddenFiles] = useState<string[]>([]);
+  const [hiddenFiles, setHiddenFiles] = useState<AttachedFile[]>([]);
   const [imageTexts, setImageTexts] = useState<(string | null)[]>([]);
   const [textImageIndices, setTextImageIndices] = useState<number[]>([]);
   const [encryptionKeys, setEncryptionKeys] = useState<(string | null)[]>([]);
@@ -80,12 +140,33 @@ const EncodeImages = () => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const hiddenFileInputRef = useRef<HTMLInputElement | null>(null);
   const [keyVisibility, setKeyVisibility] = useState<boolean[]>([]);
+  const [bitsPerChannel, setBitsPerChannel] = useState<number>(MIN_BITS_PER_CHANNEL);
+  const [scatterBits, setScatterBits] = useState(false);
+  const [compressPayload, setCompressPayload] = useState(true);
+  const [useAlpha, setUseAlpha] = useState(false);
+  const [matrixEmbedding, setMatrixEmbedding] = useState(false);
+  const [carrierMode, setCarrierMode] = useState<CarrierMode>("separate");
+  const [threshold, setThreshold] = useState<number>(MIN_THRESHOLD);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>("png");
+  const [robustJpeg, setRobustJpeg] = useState(false);
+  const [errorCorrection, setErrorCorrection] = useState<ErrorCorrection>(ErrorCorrection.None);
+  const [carriers, setCarriers] = useState<({ width: number; height: number; profile: CarrierProfile } | null)[]>([]);
+  // Bytes each carrier's DCT coefficients hold, measured once JPEG output is chosen.
+  const [jpegCapacities, setJpegCapacities] = useState<(number | null)[]>([]);
+  // Keyring entry id per carrier; null means the carrier uses its passphrase.
+  const [recipients, setRecipients] = useState<(string | null)[]>([]);
+  const [decoys, setDecoys] = useState<DecoyLayer[][]>([]);
+  const [keyring, setKeyring] = useState<KeyringEntry[]>([]);
+  const [signerId, setSignerId] = useState<string | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [jobProgress, setJobProgress] = useState<(Progression | null)[]>([]);
+  // Kept after the form resets so the result can still be inspected.
+  const [previews, setPreviews] = useState<{ index: number; comparison: CarrierComparison; stats: EmbeddingStats }[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const MAX_FILES = 4;
   const MAX_HIDDEN_FILES = 4;
   const MAX_TEXTS = 4;
-  const DELIMITER = "||";
-  const KEY_LENGTH = 6;
 
   useEffect(() => {
     if (typeof window !== "undefined") {
@@ -95,34 +176,199 @@ const EncodeImages = () => {
       const savedTextImageIndices = sessionStorage.getItem("textImageIndices");
       const savedEncryptionKeys = sessionStorage.getItem("encryptionKeys");
       const savedHiddenImageIndices = sessionStorage.getItem("hiddenImageIndices");
+      const savedBitsPerChannel = sessionStorage.getItem("bitsPerChannel");
+      const savedScatterBits = sessionStorage.getItem("scatterBits");
+      const savedCompressPayload = sessionStorage.getItem("compressPayload");
+      const savedUseAlpha = sessionStorage.getItem("useAlpha");
+      const savedMatrixEmbedding = sessionStorage.getItem("matrixEmbedding");
+      const savedCarrierMode = sessionStorage.getItem("carrierMode");
+      const savedThreshold = sessionStorage.getItem("threshold");
+      const savedRecipients = sessionStorage.getItem("recipients");
+      const savedDecoys = sessionStorage.getItem("decoys");
+      const savedSignerId = sessionStorage.getItem("signerId");
+      const savedOutputFormat = sessionStorage.getItem("outputFormat");
+      const savedRobustJpeg = sessionStorage.getItem("robustJpeg");
+      const savedErrorCorrection = sessionStorage.getItem("errorCorrection");
 
       if (savedFiles) setFiles(JSON.parse(savedFiles));
       if (savedHiddenFiles) setHiddenFiles(JSON.parse(savedHiddenFiles));
       if (savedImageTexts) setImageTexts(JSON.parse(savedImageTexts));
       if (savedTextImageIndices) setTextImageIndices(JSON.parse(savedTextImageIndices));
       if (savedEncryptionKeys) setEncryptionKeys(JSON.parse(savedEncryptionKeys));
-      if (savedHiddenImageIndices) setHiddenImageIndices(JSON.parse(savedHiddenImageIndices));
+      // Attachments that did not fit in storage leave their assignments behind.
+      if (savedHiddenFiles && savedHiddenImageIndices) setHiddenImageIndices(JSON.parse(savedHiddenImageIndices));
+      if (savedBitsPerChannel) setBitsPerChannel(JSON.parse(savedBitsPerChannel));
+      if (savedScatterBits) setScatterBits(JSON.parse(savedScatterBits));
+      if (savedCompressPayload) setCompressPayload(JSON.parse(savedCompressPayload));
+      if (savedUseAlpha) setUseAlpha(JSON.parse(savedUseAlpha));
+      if (savedMatrixEmbedding) setMatrixEmbedding(JSON.parse(savedMatrixEmbedding));
+      if (savedCarrierMode) setCarrierMode(JSON.parse(savedCarrierMode));
+      if (savedThreshold) setThreshold(JSON.parse(savedThreshold));
+      if (savedRecipients) setRecipients(JSON.parse(savedRecipients));
+      if (savedDecoys) setDecoys(JSON.parse(savedDecoys));
+      if (savedSignerId) setSignerId(JSON.parse(savedSignerId));
+      if (savedOutputFormat) setOutputFormat(JSON.parse(savedOutputFormat));
+      if (savedRobustJpeg) setRobustJpeg(JSON.parse(savedRobustJpeg));
+      if (savedErrorCorrection) setErrorCorrection(JSON.parse(savedErrorCorrection));
+      setKeyring(loadKeyring());
     }
   }, []);
 
   useEffect(() => {
     if (typeof window !== "undefined") {
-      sessionStorage.setItem("files", JSON.stringify(files));
-      sessionStorage.setItem("hiddenFiles", JSON.stringify(hiddenFiles));
-      sessionStorage.setItem("imageTexts", JSON.stringify(imageTexts));
-      sessionStorage.setItem("textImageIndices", JSON.stringify(textImageIndices));
-      sessionStorage.setItem("encryptionKeys", JSON.stringify(encryptionKeys));
-      sessionStorage.setItem("hiddenImageIndices", JSON.stringify(hiddenImageIndices));
+      saveSession("files", files);
+      saveSession("hiddenFiles", hiddenFiles);
+      saveSession("imageTexts", imageTexts);
+      saveSession("textImageIndices", textImageIndices);
+      saveSession("encryptionKeys", encryptionKeys);
+      saveSession("hiddenImageIndices", hiddenImageIndices);
+      saveSession("bitsPerChannel", bitsPerChannel);
+      saveSession("scatterBits", scatterBits);
+      saveSession("compressPayload", compressPayload);
+      saveSession("useAlpha", useAlpha);
+      saveSession("matrixEmbedding", matrixEmbedding);
+      saveSession("carrierMode", carrierMode);
+      saveSession("threshold", threshold);
+      saveSession("recipients", recipients);
+      saveSession("decoys", decoys);
+      saveSession("signerId", signerId);
+      saveSession("outputFormat", outputFormat);
+      saveSession("robustJpeg", robustJpeg);
+      saveSession("errorCorrection", errorCorrection);
+    }
+  }, [files, hiddenFiles, imageTexts, textImageIndices, encryptionKeys, hiddenImageIndices, bitsPerChannel, scatterBits, compressPayload, useAlpha, matrixEmbedding, carrierMode, threshold, recipients, decoys, signerId, outputFormat, robustJpeg, errorCorrection]);
+
+  useEffect(() => {
+    Promise.all(
+      files.map((file) =>
+        loadImageData(file)
+          .then((img) => ({ width: img.width, height: img.height, profile: profileCarrier(img.data) }))
+          .catch(() => null)
+      )
+    ).then(setCarriers);
+  }, [files]);
+
+  useEffect(() => {
+    setJpegCapacities([]);
+    if (outputFormat !== "jpeg") return;
+    const controller = new AbortController();
+    Promise.all(
+      files.map(async (file) => {
+        try {
+          const { data: pixels, width, height } = await loadImageData(file);
+          const original = fileFromDataUrl(file, "Carrier").data;
+          const carrier = { pixels, width, height, jpeg: isJpeg(original) ? original : undefined };
+          return await measureJpegInWorker(carrier, robustJpeg, { signal: controller.signal });
+        } catch {
+          return null;
+        }
+      })
+    ).then((capacities) => {
+      if (!controller.signal.aborted) setJpegCapacities(capacities);
+    });
+    return () => controller.abort();
+  }, [files, outputFormat, robustJpeg]);
+
+  const keyStrengths = useMemo(
+    () => files.map((_, index) => passphraseStrength(encryptionKeys[index] || "")),
+    [files, encryptionKeys]
+  );
+
+  const attachments = useMemo(
+    () => hiddenFiles.map((file) => fileFromDataUrl(file.data, file.name)),
+    [hiddenFiles]
+  );
+
+  const getCarrierContent = (index: number): HiddenContent => {
+    const hiddenFileIndex = hiddenImageIndices.findIndex(idx => idx === index);
+    return {
+      text: imageTexts[index],
+      file: hiddenFileIndex !== -1 ? attachments[hiddenFileIndex] : null,
+    };
+  };
+
+  const getRecipient = (index: number) => keyring.find((entry) => entry.id === recipients[index]) ?? null;
+  const signerEntry = keyring.find((entry) => entry.id === signerId && entry.privateKey) ?? null;
+
+  // Matrix embedding always works on the lowest bit.
+  const effectiveBitsPerChannel = matrixEmbedding ? 1 : bitsPerChannel;
+  // Recompression flips some bits, so robust JPEG output is always protected.
+  const isRobust = outputFormat === "jpeg" && robustJpeg;
+  const effectiveErrorCorrection =
+    isRobust && errorCorrection === ErrorCorrection.None ? ErrorCorrection.High : errorCorrection;
+
+  // A split or threshold-shared message takes its content and key from Image 1 and spreads over every image.
+  const isShared = carrierMode !== "separate" && files.length > 1;
+  const effectiveThreshold = Math.min(Math.max(threshold, MIN_THRESHOLD), files.length);
+  // The reader of a public-key carrier has no passphrase to derive the order from.
+  const isScattered = (index: number) => scatterBits && !getRecipient(isShared ? 0 : index);
+
+  const getCarrierCapacity = (index: number) => {
+    const carrier = carriers[index];
+    if (outputFormat === "jpeg") return jpegCapacities[index] ?? 0;
+    return carrier
+      ? capacityForProfile(carrier.profile, effectiveBitsPerChannel, useAlpha, matrixEmbedding, isScattered(index))
+      : 0;
+  };
+
+  // Each carrier gets a share of a split message in proportion to what it holds;
+  // until a JPEG carrier is measured its pixel count stands in.
+  const getShardWeights = () =>
+    files.map((_, index) =>
+      outputFormat === "jpeg" && jpegCapacities[index] == null
+        ? (carriers[index]?.width ?? 0) * (carriers[index]?.height ?? 0)
+        : getCarrierCapacity(index)
+    );
+
+  // Decoy layers need the whole PNG carrier and a passphrase for the real layer.
+  const canLayer = (index: number) => outputFormat === "png" && !isShared && !getRecipient(index);
+  const hasLayers = (index: number) => canLayer(index) && (decoys[index]?.length ?? 0) > 0;
+
+  const getCarrierUsage = (index: number) => {
+    const carrier = carriers[index];
+    // JPEG capacity depends on the compressed coefficients, which the worker is still measuring.
+    if (!carrier || (outputFormat === "jpeg" && jpegCapacities[index] == null)) return null;
+    if (hasLayers(index)) {
+      // Every layer gets the same share of the carrier, so the largest one decides.
+      const signed = signerEntry !== null;
+      const layerSize = (compress: boolean) =>
+        Math.max(
+          sealedSize(getCarrierContent(index), { compress, signed }),
+          ...decoys[index].map((decoy) => sealedSize({ text: decoy.text || null, file: null }, { compress, signed }))
+        );
+      return {
+        size: { width: carrier.width, height: carrier.height },
+        needed: layerSize(compressPayload),
+        uncompressed: compressPayload ? layerSize(false) : undefined,
+        available: layerCapacity(rawCapacityForProfile(carrier.profile)),
+      };
     }
-  }, [files, hiddenFiles, imageTexts, textImageIndices, encryptionKeys, hiddenImageIndices]);
+    const sealedIndex = isShared ? 0 : index;
+    const content = getCarrierContent(sealedIndex);
+    const recipient = getRecipient(sealedIndex) !== null;
+    const signed = signerEntry !== null;
+    const containerSize = (compress: boolean) => {
+      const size = sealedSize(content, { compress, recipient, signed });
+      if (!isShared) return size;
+      return carrierMode === "split" ? shardContainerSize(shardSizes(size, getShardWeights())[index]) : shareContainerSize(size);
+    };
+    const embeddedSize = (compress: boolean) => protectedSize(containerSize(compress), effectiveErrorCorrection);
+    return {
+      size: { width: carrier.width, height: carrier.height },
+      needed: embeddedSize(compressPayload),
+      uncompressed: compressPayload ? embeddedSize(false) : undefined,
+      available: getCarrierCapacity(index),
+    };
+  };
 
-  const encryptData = (data: string | null, key: string): string => {
-    if (!key) throw new Error("Encryption key is required.");
-    if (key.length !== KEY_LENGTH) throw new Error(`Key must be exactly ${KEY_LENGTH} characters.`);
-    if (!data) return ""; 
-    return CryptoJS.AES.encrypt(data, key).toString();
+  const isTransparent = (index: number) => {
+    const profile = carriers[index]?.profile;
+    return profile !== undefined && profile.opaquePixels < profile.pixelCount;
   };
 
+  const carrierUsages = files.map((_, index) => getCarrierUsage(index));
+  const hasOverflow = carrierUsages.some((usage) => usage !== null && usage.needed > usage.available);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = e.target.files;
     if (!selectedFiles) return;
@@ -148,6 +394,8 @@ const EncodeImages = () => {
       setFiles((prev) => [...prev, ...loadedFiles]);
       setImageTexts((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
       setEncryptionKeys((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
+      setRecipients((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
+      setDecoys((prev) => [...prev, ...loadedFiles.map(() => [])]);
     });
   };
 
@@ -162,11 +410,16 @@ const EncodeImages = () => {
       setTimeout(() => setTempError(""), 2000);
       return;
     }
+    if (Array.from(selectedFiles).some((file) => file.size === 0)) {
+      setTempError("Empty files cannot be hidden.");
+      setTimeout(() => setTempError(""), 2000);
+      return;
+    }
 
     const readers = Array.from(selectedFiles).map((file) => {
-      return new Promise<string>((resolve, reject) => {
+      return new Promise<AttachedFile>((resolve, reject) => {
         const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
+        reader.onloadend = () => resolve({ name: file.name, data: reader.result as string });
         reader.onerror = reject;
         reader.readAsDataURL(file);
       });
@@ -174,7 +427,7 @@ const EncodeImages = () => {
 
     Promise.all(readers).then((loadedFiles) => {
       setHiddenFiles((prev) => [...prev, ...loadedFiles]);
-      setHiddenImageIndices((prev) => [...prev, null]);
+      setHiddenImageIndices((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
     });
   };
 
@@ -204,6 +457,8 @@ const EncodeImages = () => {
       setFiles((prev) => [...prev, ...loadedFiles]);
       setImageTexts((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
       setEncryptionKeys((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
+      setRecipients((prev) => [...prev, ...Array(loadedFiles.length).fill(null)]);
+      setDecoys((prev) => [...prev, ...loadedFiles.map(() => [])]);
     });
   };
 
@@ -215,6 +470,8 @@ const EncodeImages = () => {
     setFiles((prev) => prev.filter((_, i) => i !== index));
     setImageTexts((prev) => prev.filter((_, i) => i !== index));
     setEncryptionKeys((prev) => prev.filter((_, i) => i !== index));
+    setRecipients((prev) => prev.filter((_, i) => i !== index));
+    setDecoys((prev) => prev.filter((_, i) => i !== index));
     setHiddenImageIndices((prev) => prev.map(idx => idx !== null && idx > index ? idx - 1 : idx));
     setTextImageIndices((prev) => prev.filter(i => i !== index).map(i => i > index ? i - 1 : i));
   };
@@ -262,7 +519,6 @@ const EncodeImages = () => {
   };
 
   const handleEncryptionChange = (index: number, value: string) => {
-    if (value.length > KEY_LENGTH) return;
     const newKeys = [...encryptionKeys];
     newKeys[index] = value || null;
     setEncryptionKeys(newKeys);
@@ -275,6 +531,26 @@ const EncodeImages = () => {
     newVisibility[index] = !newVisibility[index];
     setKeyVisibility(newVisibility);
   };
+  const handleRecipientChange = (index: number, value: string) => {
+    const newRecipients = [...recipients];
+    newRecipients[index] = value || null;
+    setRecipients(newRecipients);
+  };
+  const updateDecoys = (index: number, update: (layers: DecoyLayer[]) => DecoyLayer[]) =>
+    setDecoys((prev) => files.map((_, i) => (i === index ? update(prev[i] ?? []) : prev[i] ?? [])));
+  const handleAddDecoy = (index: number) => updateDecoys(index, (layers) => [...layers, { text: "", passphrase: "" }]);
+  const handleDecoyChange = (index: number, layer: number, change: Partial<DecoyLayer>) =>
+    updateDecoys(index, (layers) => layers.map((decoy, i) => (i === layer ? { ...decoy, ...change } : decoy)));
+  const handleRemoveDecoy = (index: number, layer: number) =>
+    updateDecoys(index, (layers) => layers.filter((_, i) => i !== layer));
+  const handleGeneratePassphrase = (index: number) => {
+    handleEncryptionChange(index, generatePassphrase());
+    setKeyVisibility((prev) => {
+      const newVisibility = [...prev];
+      newVisibility[index] = true;
+      return newVisibility;
+    });
+  };
   const handleSubmit = async () => {
     if (files.length === 0) {
       setError("⚠️ Please upload at least one file.");
@@ -285,20 +561,22 @@ const EncodeImages = () => {
       setError("⚠️ Please select an image for each hidden file.");
       return;
     }
-    const invalidKeyIndex = encryptionKeys.findIndex(key => 
-      !key || key.length !== KEY_LENGTH
+    // Only Image 1's key and content are used for a split or shared message.
+    const isSealed = (index: number) => !isShared || index === 0;
+    const invalidKeyIndex = keyStrengths.findIndex((strength, index) => 
+      isSealed(index) && !getRecipient(index) && encryptionKeys[index] && strength.error !== null
     );
     if (invalidKeyIndex !== -1) {
-      setError(`⚠️ Encryption key for Image ${invalidKeyIndex + 1} must be exactly ${KEY_LENGTH} characters.`);
+      setError(`⚠️ Encryption key for Image ${invalidKeyIndex + 1}: ${keyStrengths[invalidKeyIndex].error}`);
       return;
     }
     const allImagesHaveKeys = files.every((_, index) => 
-      encryptionKeys[index] !== null && encryptionKeys[index] !== ""
+      !isSealed(index) || getRecipient(index) || (encryptionKeys[index] !== null && encryptionKeys[index] !== "")
     );
   
     if (!allImagesHaveKeys) {
       const missingKeyIndex = files.findIndex((_, index) => 
-        encryptionKeys[index] === null || encryptionKeys[index] === ""
+        isSealed(index) && !getRecipient(index) && (encryptionKeys[index] === null || encryptionKeys[index] === "")
       );
       setError(`⚠️ Please assign an encryption key to Image ${missingKeyIndex + 1}.`);
       return;
@@ -309,60 +587,204 @@ const EncodeImages = () => {
       ...hiddenImageIndices.filter(idx => idx !== null),
     ]);
   
-    const allImagesHaveContent = files.every((_, index) => imagesWithContent.has(index));
+    const allImagesHaveContent = files.every((_, index) => !isSealed(index) || imagesWithContent.has(index));
   
     if (!allImagesHaveContent) {
-      const missingContentIndex = files.findIndex((_, index) => !imagesWithContent.has(index));
+      const missingContentIndex = files.findIndex((_, index) => isSealed(index) && !imagesWithContent.has(index));
       setError(`⚠️ Please assign text or a hidden file to Image ${missingContentIndex + 1}.`);
       return;
     }
   
+    for (const index of files.map((_, i) => i).filter(hasLayers)) {
+      const layers = decoys[index];
+      const emptyLayer = layers.findIndex((decoy) => !decoy.text);
+      if (emptyLayer !== -1) {
+        setError(`⚠️ Please enter the text of decoy layer ${emptyLayer + 1} of Image ${index + 1}.`);
+        return;
+      }
+      const weakLayer = layers.findIndex((decoy) => validatePassphrase(decoy.passphrase) !== null);
+      if (weakLayer !== -1) {
+        setError(`⚠️ Passphrase of decoy layer ${weakLayer + 1} of Image ${index + 1}: ${validatePassphrase(layers[weakLayer].passphrase)}`);
+        return;
+      }
+      const passphrases = [encryptionKeys[index], ...layers.map((decoy) => decoy.passphrase)];
+      if (new Set(passphrases).size !== passphrases.length) {
+        setError(`⚠️ Every layer of Image ${index + 1} needs its own passphrase.`);
+        return;
+      }
+    }
+
+    const overflowIndex = carrierUsages.findIndex((usage) => usage !== null && usage.needed > usage.available);
+    if (overflowIndex !== -1) {
+      const usage = carrierUsages[overflowIndex]!;
+      if (hasLayers(overflowIndex)) {
+        setError(
+          `⚠️ Each layer of Image ${overflowIndex + 1} holds ${formatBytes(usage.available)} but one needs ${formatBytes(usage.needed)}. ` +
+            "Use a larger carrier or fewer decoy layers."
+        );
+        return;
+      }
+      if (outputFormat === "jpeg") {
+        setError(
+          `⚠️ Image ${overflowIndex + 1} holds ${formatBytes(usage.available)} as a JPEG but needs ${formatBytes(usage.needed)}. ` +
+            "Use a larger or more detailed carrier, or PNG output."
+        );
+        return;
+      }
+      const suggested = minimumCarrierSize(
+        usage.size.width,
+        usage.size.height,
+        usage.needed,
+        effectiveBitsPerChannel,
+        matrixEmbedding,
+        isScattered(overflowIndex)
+      );
+      setError(
+        `⚠️ Image ${overflowIndex + 1} holds ${formatBytes(usage.available)} but needs ${formatBytes(usage.needed)}. ` +
+          `Use a carrier of at least ${suggested.width}×${suggested.height} px.`
+      );
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsEncoding(true);
+    setPreviews([]);
+    setJobProgress(files.map(() => null));
+    const updateJobProgress = (index: number, progress: Progression) =>
+      setJobProgress((prev) => prev.map((current, i) => (i === index ? progress : current)));
+
     try {
-      const encodedImages: EncodedImage[] = [];
-      for (let i = 0; i < files.length; i++) {
-        if (files[i].startsWith("data:image")) {
-          let combinedMessage = "";
-          const key = encryptionKeys[i]!;
-          if (imageTexts[i]) {
-            combinedMessage += encryptData(imageTexts[i], key);
-          }
+      const signer = signerEntry ? await importSigningKeyPair(signerEntry) : undefined;
+      const sealKey = async (index: number): Promise<SealKey> => {
+        const recipient = getRecipient(index);
+        return recipient ? await importPublicKey(recipient.publicKey) : encryptionKeys[index]!;
+      };
+      // A split or shared message is sealed once, then each carrier hides one shard or share of it.
+      const sealed = isShared
+        ? await sealInWorker(getCarrierContent(0), await sealKey(0), { compress: compressPayload, signer }, {
+            signal: controller.signal,
+            onProgress: (progress) => updateJobProgress(0, progress),
+          })
+        : null;
+      const shards =
+        sealed &&
+        (carrierMode === "split"
+          ? splitContainer(sealed, getShardWeights())
+          : shareContainer(sealed, effectiveThreshold, files.length));
+      // Every carrier runs in its own worker, so they are encoded side by side.
+      const encodedImages = await Promise.all(
+        files.map(async (file, i): Promise<EncodedImage | null> => {
           const hiddenFileIndex = hiddenImageIndices.findIndex(idx => idx === i);
-          if (hiddenFileIndex !== -1) {
-            if (combinedMessage) combinedMessage += DELIMITER;
-            combinedMessage += encryptData(hiddenFiles[hiddenFileIndex], key); // Hidden image as base64
-          }
-          if (combinedMessage) {
-            const encodedImage = await encodeImageMessage(files[i], combinedMessage);
-            encodedImages.push({ 
-              data: encodedImage, 
-              index: i,
-              hiddenFileIndex: hiddenFileIndex !== -1 ? hiddenFileIndex : undefined 
-            });
-          }
-        }
-      }
+          if (!file.startsWith("data:image") || (!shards && !imageTexts[i] && hiddenFileIndex === -1)) return null;
+          const keyIndex = shards ? 0 : i;
+          const seal = { compress: compressPayload, signer };
+          const payload: CarrierPayload = shards
+            ? { container: shards[i] }
+            : hasLayers(i)
+            ? {
+                layers: [
+                  { content: getCarrierContent(i), passphrase: encryptionKeys[i]! },
+                  ...decoys[i].map((decoy) => ({ content: { text: decoy.text, file: null }, passphrase: decoy.passphrase })),
+                ],
+                seal,
+              }
+            : { content: getCarrierContent(i), key: await sealKey(i), seal };
+          const { data, comparison, stats } = await encodeImageMessage(
+            file,
+            payload,
+            {
+              format: outputFormat,
+              robust: isRobust,
+              embed: {
+                bitsPerChannel: effectiveBitsPerChannel,
+                useAlpha,
+                errorCorrection: effectiveErrorCorrection,
+                matrixEmbedding,
+                scatterKey: isScattered(i) ? encryptionKeys[keyIndex]! : undefined,
+              },
+            },
+            { signal: controller.signal, onProgress: (progress) => updateJobProgress(i, progress) }
+          );
+          return {
+            data,
+            comparison,
+            stats,
+            index: i,
+            hiddenFileIndex: hiddenFileIndex !== -1 ? hiddenFileIndex : undefined,
+          };
+        })
+      );
   
-      files.forEach((file, index) => {
-        const encodedVersion = encodedImages.find(img => img.index === index);
-        const a = document.createElement("a");
-        if (encodedVersion) {
-          a.href = encodedVersion.data;
-          a.download = encodedVersion.hiddenFileIndex !== undefined 
-            ? `encoded_hidden_${encodedVersion.hiddenFileIndex + 1}.png` 
-            : `encoded_text_${index + 1}.png`;
-        } else {
-          a.href = file;
-          a.download = `image_${index + 1}.png`;
-        }
-        a.click();
+      const downloads = files.map((file, index) => {
+        const encodedVersion = encodedImages.find(img => img?.index === index);
+        if (!encodedVersion) return { href: file, name: `image_${index + 1}.png`, encoded: false };
+        const extension = outputFormat === "jpeg" ? "jpg" : "png";
+        const name = isShared
+          ? `encoded_${carrierMode === "split" ? "part" : "share"}_${index + 1}_of_${files.length}.${extension}`
+          : encodedVersion.hiddenFileIndex !== undefined 
+          ? `encoded_hidden_${encodedVersion.hiddenFileIndex + 1}.${extension}` 
+          : `encoded_text_${index + 1}.${extension}`;
+        return { href: encodedVersion.data, name, encoded: true };
       });
+
+      const a = document.createElement("a");
+      if (downloads.length === 1) {
+        a.href = downloads[0].href;
+        a.download = downloads[0].name;
+        a.click();
+      } else {
+        // Browsers block or scatter a burst of downloads, so several images come back as one ZIP.
+        const contentBytes = ({ text, file }: HiddenContent) => (text ? utf8Length(text) : 0) + (file?.data.length ?? 0);
+        const zip = buildBatchZip(
+          downloads.flatMap(({ href, name, encoded }) => (encoded ? [{ path: name, data: fileFromDataUrl(href, name).data }] : [])),
+          {
+            createdAt: new Date().toISOString(),
+            format: outputFormat,
+            settings: {
+              carrierMode: isShared ? carrierMode : "separate",
+              bitsPerChannel: effectiveBitsPerChannel,
+              matrixEmbedding,
+              errorCorrection: effectiveErrorCorrection,
+              robust: isRobust,
+              scattered: scatterBits,
+              compressed: compressPayload,
+              signed: Boolean(signer),
+            },
+            entries: downloads.map(({ name, encoded }, index) => {
+              const stats = encodedImages.find((image) => image?.index === index)?.stats;
+              return {
+                carrier: `Image ${index + 1}`,
+                output: encoded ? name : null,
+                status: encoded ? "encoded" : "failed",
+                error: encoded ? undefined : "Nothing was hidden in this image",
+                messageBytes: contentBytes(getCarrierContent(isShared ? 0 : index)),
+                embeddedBits: stats?.bits,
+                changes: stats?.changes,
+              };
+            }),
+          }
+        );
+        const url = URL.createObjectURL(new Blob([zip], { type: "application/zip" }));
+        a.href = url;
+        a.download = "encoded_images.zip";
+        a.click();
+        URL.revokeObjectURL(url);
+      }
   
-      setSuccess("✅ Successfully downloaded all files!");
+      setPreviews(
+        encodedImages.flatMap((image) =>
+          image ? [{ index: image.index, comparison: image.comparison, stats: image.stats }] : []
+        )
+      );
+      setSuccess(downloads.length === 1 ? "✅ Successfully downloaded all files!" : "✅ Successfully downloaded encoded_images.zip!");
       setTimeout(() => {
         setFiles([]);
         setHiddenFiles([]);
         setImageTexts([]);
         setEncryptionKeys([]);
+        setRecipients([]);
+        setDecoys([]);
         setError("");
         setSuccess("");
         setHiddenImageIndices([]);
@@ -372,9 +794,16 @@ const EncodeImages = () => {
         }
       }, 2000);
     } catch (error) {
-      setError("❌ Error processing one of the files: " + error);
+      // One failed carrier fails the batch, so stop the others too.
+      controller.abort();
+      setError(isAbortError(error) ? "⚠️ Encoding cancelled." : "❌ Error processing one of the files: " + error);
+    } finally {
+      abortControllerRef.current = null;
+      setIsEncoding(false);
+      setJobProgress([]);
     }
   };
+  const handleCancel = () => abortControllerRef.current?.abort();
   const getAvailableTextImages = () => {
     return files
       .map((file, index) => ({ file, index }))
@@ -479,47 +908,145 @@ const EncodeImages = () => {
             <div className="w-full mb-4">
               {files.map((_, index) => (
                 <div key={index} className="relative mb-4">
-                  <Input
-                    fullWidth
-                    size="lg"
-                    label={`Encryption Key for Image ${index + 1}`}
-                    placeholder={`Enter ${KEY_LENGTH}-character key`}
-                    value={encryptionKeys[index] || ""}
-                    onChange={(e) => handleEncryptionChange(index, e.target.value)}
-                    type={keyVisibility[index] ? "text" : "password"}
-                    className="text-black"
-                    variant="bordered"
-                    color={encryptionKeys[index] && encryptionKeys[index].length !== KEY_LENGTH ? "danger" : "primary"}
-                    classNames={{
-                      input: "text-black dark:text-white",
-                      label: "text-gray-500 dark:text-gray-400",
-                      inputWrapper: "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 shadow-sm hover:shadow-md transition-shadow",
-                    }}
-                    endContent={
-                      <Button
-                        isIconOnly
-                        variant="light"
-                        onClick={() => toggleKeyVisibility(index)}
-                        className="focus:outline-none"
-                      >
-                        {keyVisibility[index] ? (
-                          <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
-                          </svg>
-                        ) : (
-                          <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                          </svg>
-                        )}
-                      </Button>
-                    }
-                  />
-                  {encryptionKeys[index] && encryptionKeys[index].length !== KEY_LENGTH && (
-                    <p className="text-red-500 text-sm mt-1">
-                      Key must be exactly {KEY_LENGTH} characters
+                  {keyring.length > 0 && (!isShared || index === 0) && (
+                    <Select
+                      label={isShared ? "Encrypt the message with" : `Encrypt Image ${index + 1} with`}
+                      selectedKeys={[recipients[index] ?? ""]}
+                      onChange={(e) => handleRecipientChange(index, e.target.value)}
+                      className="mb-2"
+                    >
+                      {[
+                        <SelectItem key="" value="">
+                          Passphrase
+                        </SelectItem>,
+                        ...keyring.map((entry) => (
+                          <SelectItem key={entry.id} value={entry.id} description={entry.fingerprint}>
+                            {`Public key: ${entry.name}`}
+                          </SelectItem>
+                        )),
+                      ]}
+                    </Select>
+                  )}
+                  {!getRecipient(index) && (!isShared || index === 0) && (
+                    <>
+                      <Input
+                        fullWidth
+                        size="lg"
+                        label={isShared ? "Encryption Key for all images" : `Encryption Key for Image ${index + 1}`}
+                        placeholder="Enter a passphrase or generate one"
+                        value={encryptionKeys[index] || ""}
+                        onChange={(e) => handleEncryptionChange(index, e.target.value)}
+                        type={keyVisibility[index] ? "text" : "password"}
+                        className="text-black"
+                        variant="bordered"
+                        color={encryptionKeys[index] && keyStrengths[index].error ? "danger" : "primary"}
+                        classNames={{
+                          input: "text-black dark:text-white",
+                          label: "text-gray-500 dark:text-gray-400",
+                          inputWrapper: "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 shadow-sm hover:shadow-md transition-shadow",
+                        }}
+                        endContent={
+                          <div className="flex items-center">
+                            <Button
+                              isIconOnly
+                              variant="light"
+                              onClick={() => handleGeneratePassphrase(index)}
+                              className="focus:outline-none"
+                              aria-label="Generate passphrase"
+                            >
+                              <Dices className="w-5 h-5 text-gray-500" />
+                            </Button>
+                            <Button
+                              isIconOnly
+                              variant="light"
+                              onClick={() => toggleKeyVisibility(index)}
+                              className="focus:outline-none"
+                            >
+                              {keyVisibility[index] ? (
+                                <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21" />
+                                </svg>
+                              ) : (
+                                <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                </svg>
+                              )}
+                            </Button>
+                          </div>
+                        }
+                      />
+                      <PassphraseStrength passphrase={encryptionKeys[index] || ""} strength={keyStrengths[index]} />
+                    </>
+                  )}
+                  {canLayer(index) && (
+                    <div className="mb-2 text-left">
+                      {(decoys[index] ?? []).map((decoy, layer) => (
+                        <div key={layer} className="relative mb-2">
+                          <Textarea
+                            fullWidth
+                            label={`Decoy text ${layer + 1} for Image ${index + 1}`}
+                            placeholder="Harmless text revealed by the decoy passphrase"
+                            value={decoy.text}
+                            onChange={(e) => handleDecoyChange(index, layer, { text: e.target.value })}
+                            className="text-black mb-2"
+                          />
+                          <Input
+                            fullWidth
+                            label={`Decoy passphrase ${layer + 1} for Image ${index + 1}`}
+                            placeholder="Enter a passphrase or generate one"
+                            value={decoy.passphrase}
+                            onChange={(e) => handleDecoyChange(index, layer, { passphrase: e.target.value })}
+                            className="text-black"
+                            variant="bordered"
+                            color={decoy.passphrase && validatePassphrase(decoy.passphrase) ? "danger" : "primary"}
+                            endContent={
+                              <Button
+                                isIconOnly
+                                variant="light"
+                                onClick={() => handleDecoyChange(index, layer, { passphrase: generatePassphrase() })}
+                                className="focus:outline-none"
+                                aria-label="Generate passphrase"
+                              >
+                                <Dices className="w-5 h-5 text-gray-500" />
+                              </Button>
+                            }
+                          />
+                          <Button size="sm" color="danger" variant="light" onClick={() => handleRemoveDecoy(index, layer)}>
+                            Remove decoy layer
+                          </Button>
+                        </div>
+                      ))}
+                      {(decoys[index]?.length ?? 0) > 0 && (
+                        <p className="text-xs text-gray-500 mb-2">
+                          Image {index + 1} is filled with layers that look like random noise. Each passphrase opens only its own
+                          layer, and nothing shows how many there are. The filled image itself is not hidden: steganalysis
+                          reports an embedding rate of 1. Bit depth, scattering, matrix embedding and error correction do
+                          not apply.
+                        </p>
+                      )}
+                      {(decoys[index]?.length ?? 0) < LAYER_SLOTS - 1 && (
+                        <Button size="sm" className="bg-gray-800 text-white" onClick={() => handleAddDecoy(index)}>
+                          Add Decoy Layer
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  {outputFormat === "png" && isTransparent(index) && (
+                    <p className="text-xs text-gray-500 mb-2 text-left">
+                      Image {index + 1} has transparent pixels. Only fully opaque pixels carry hidden data
+                      {useAlpha ? ", plus the alpha of translucent ones" : ""}.
                     </p>
                   )}
+                  {carrierUsages[index] && (
+                    <CapacityMeter
+                      label={`Capacity of Image ${index + 1}`}
+                      needed={carrierUsages[index]!.needed}
+                      available={carrierUsages[index]!.available}
+                      uncompressed={carrierUsages[index]!.uncompressed}
+                    />
+                  )}
+                  {isEncoding && <JobProgress label={`Image ${index + 1}`} progress={jobProgress[index] ?? null} />}
                 </div>
               ))}
             </div>
@@ -594,12 +1121,11 @@ const EncodeImages = () => {
           </Modal>
 
           <div className="mb-4">
-            <label className="block text-sm text-gray-500 mb-2">Hide Image Inside Image Max 4 (Optional)</label>
+            <label className="block text-sm text-gray-500 mb-2">Hide Files Inside Image Max 4 (Optional)</label>
             <div className="relative">
               <input
                 type="file"
                 ref={hiddenFileInputRef}
-                accept="image/*"
                 multiple
                 onChange={handleHiddenFileChange}
                 className="hidden"
@@ -616,11 +1142,18 @@ const EncodeImages = () => {
                 {hiddenFiles.map((file, index) => (
                   <div key={index} className="relative group">
                     <div className="relative">
-                      <Image
-                        src={file}
-                        alt={`Hidden Image ${index + 1}`}
-                        className="w-full h-auto rounded-md transition-all duration-300 group-hover:brightness-75"
-                      />
+                      {file.data.startsWith("data:image") ? (
+                        <Image
+                          src={file.data}
+                          alt={`Hidden File ${index + 1}`}
+                          className="w-full h-auto rounded-md transition-all duration-300 group-hover:brightness-75"
+                        />
+                      ) : (
+                        <div className="w-full h-24 bg-gray-200 dark:bg-gray-700 rounded-md flex flex-col items-center justify-center text-gray-500 text-sm px-2 transition-all duration-300 group-hover:brightness-75">
+                          <span className="truncate w-full">{file.name}</span>
+                          <span>{formatBytes(attachments[index].data.length)}</span>
+                        </div>
+                      )}
                       <button
                         className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-red-500 text-white rounded-md w-20 h-8 flex items-center justify-center hover:bg-red-700 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-10 text-sm shadow-md"
                         onClick={() => handleRemoveHiddenFile(index)}
@@ -628,11 +1161,11 @@ const EncodeImages = () => {
                         Remove
                       </button>
                     </div>
-                    <span className="block mt-1 text-sm text-gray-300">
-                      Image {index + 1}
+                    <span className="block mt-1 text-sm text-gray-300 truncate">
+                      {file.name}
                     </span>
                     <Select
-                      label={`Select image for Image ${index + 1}`}
+                      label={`Select image for File ${index + 1}`}
                       placeholder={hiddenImageIndices[index] !== null ? `Image ${hiddenImageIndices[index]! + 1}` : "Choose an image"}
                       onChange={(e) => handleImageSelection(index, e.target.value)}
                       className="mt-2"
@@ -649,14 +1182,165 @@ const EncodeImages = () => {
             )}
           </div>
 
-          {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+          <Select
+            label="Output format"
+            selectedKeys={[outputFormat]}
+            onChange={(e) => e.target.value && setOutputFormat(e.target.value as OutputFormat)}
+            className="mb-4"
+            description={
+              outputFormat === "jpeg"
+                ? isRobust
+                  ? "Hides data in the JPEG's DCT coefficients. Survives recompression to a lower quality, but not resizing."
+                  : "Hides data in the JPEG's DCT coefficients. Survives sharing as-is, but not recompression."
+                : "Hides data in the pixels' low bits. The image must stay a PNG."
+            }
+          >
+            <SelectItem key="png" value="png">
+              PNG (pixel LSBs)
+            </SelectItem>
+            <SelectItem key="jpeg" value="jpeg">
+              JPEG (DCT coefficients)
+            </SelectItem>
+          </Select>
 
-          <Button
-            className="mt-4 w-full bg-gradient-to-r from-green-400 to-blue-500 hover:bg-gradient-to-l cursor-pointer"
-            onClick={handleSubmit}
+          {outputFormat === "jpeg" && (
+            <Switch isSelected={robustJpeg} onValueChange={setRobustJpeg} size="sm" className="mb-4">
+              <span className="text-sm text-gray-500">
+                Survive recompression by chat apps (holds less and changes the image more; always uses error correction)
+              </span>
+            </Switch>
+          )}
+
+          {outputFormat === "png" && !matrixEmbedding && (
+            <Select
+              label="Bits per colour channel"
+              selectedKeys={[bitsPerChannel.toString()]}
+              onChange={(e) => e.target.value && setBitsPerChannel(parseInt(e.target.value))}
+              className="mb-4"
+              description="More bits hold more data but change the image more visibly."
+            >
+              {Array.from({ length: MAX_BITS_PER_CHANNEL - MIN_BITS_PER_CHANNEL + 1 }, (_, i) => i + MIN_BITS_PER_CHANNEL).map((bits) => (
+                <SelectItem key={bits.toString()} value={bits.toString()}>
+                  {bits === 1 ? "1 bit (least visible)" : bits === MAX_BITS_PER_CHANNEL ? `${bits} bits (most capacity)` : `${bits} bits`}
+                </SelectItem>
+              ))}
+            </Select>
+          )}
+
+          <Select
+            label="Error correction"
+            selectedKeys={[effectiveErrorCorrection.toString()]}
+            disabledKeys={isRobust ? [ErrorCorrection.None.toString()] : []}
+            onChange={(e) => e.target.value && setErrorCorrection(parseInt(e.target.value) as ErrorCorrection)}
+            className="mb-4"
+            description="Extra redundancy lets small edits, a cropped-off bottom or stray bit flips be repaired."
           >
-            Submit
-          </Button>
+            <SelectItem key={ErrorCorrection.None.toString()} value={ErrorCorrection.None.toString()}>
+              None
+            </SelectItem>
+            <SelectItem key={ErrorCorrection.Low.toString()} value={ErrorCorrection.Low.toString()}>
+              Low (+7%, repairs ~3% damage)
+            </SelectItem>
+            <SelectItem key={ErrorCorrection.Medium.toString()} value={ErrorCorrection.Medium.toString()}>
+              Medium (+14%, repairs ~6% damage)
+            </SelectItem>
+            <SelectItem key={ErrorCorrection.High.toString()} value={ErrorCorrection.High.toString()}>
+              High (+34%, repairs ~12% damage)
+            </SelectItem>
+          </Select>
+
+          <SignerSelect keyring={keyring} value={signerEntry?.id ?? null} onChange={setSignerId} />
+
+          <Switch isSelected={compressPayload} onValueChange={setCompressPayload} size="sm" className="mb-4">
+            <span className="text-sm text-gray-500">Compress hidden data before encrypting</span>
+          </Switch>
+
+          {outputFormat === "png" && files.some((_, index) => isTransparent(index)) && (
+            <Switch isSelected={useAlpha} onValueChange={setUseAlpha} size="sm" className="mb-4">
+              <span className="text-sm text-gray-500">Also hide data in the alpha channel of transparent pixels</span>
+            </Switch>
+          )}
+
+          {outputFormat === "png" && (
+            <Switch isSelected={matrixEmbedding} onValueChange={setMatrixEmbedding} size="sm" className="mb-4">
+              <span className="text-sm text-gray-500">Matrix embedding: change fewer pixels (1 bit per channel, less capacity)</span>
+            </Switch>
+          )}
+
+          {files.length > 1 && (
+            <Select
+              label="Multiple images"
+              selectedKeys={[carrierMode]}
+              onChange={(e) => e.target.value && setCarrierMode(e.target.value as CarrierMode)}
+              className="mb-4"
+              description={
+                carrierMode === "split"
+                  ? "Image 1's message is cut into parts. Every image is needed to decode it."
+                  : carrierMode === "threshold"
+                  ? "Every image holds a share as large as the message. Fewer shares than needed reveal nothing."
+                  : "Each image hides its own text and files."
+              }
+            >
+              <SelectItem key="separate" value="separate">
+                A message per image
+              </SelectItem>
+              <SelectItem key="split" value="split">
+                Split Image 1&apos;s message across all images
+              </SelectItem>
+              <SelectItem key="threshold" value="threshold">
+                Share Image 1&apos;s message (any k of n images reveal it)
+              </SelectItem>
+            </Select>
+          )}
+
+          {isShared && carrierMode === "threshold" && (
+            <Select
+              label="Images needed to decode"
+              selectedKeys={[effectiveThreshold.toString()]}
+              onChange={(e) => e.target.value && setThreshold(parseInt(e.target.value))}
+              className="mb-4"
+            >
+              {Array.from({ length: files.length - MIN_THRESHOLD + 1 }, (_, i) => i + MIN_THRESHOLD).map((k) => (
+                <SelectItem key={k.toString()} value={k.toString()}>
+                  {`${k} of ${files.length}`}
+                </SelectItem>
+              ))}
+            </Select>
+          )}
+
+          {outputFormat === "png" && (
+            <Switch isSelected={scatterBits} onValueChange={setScatterBits} size="sm" className="mb-4">
+              <span className="text-sm text-gray-500">Scatter hidden bits across the image using the passphrase</span>
+            </Switch>
+          )}
+
+          {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
+
+          {isEncoding ? (
+            <Button className="mt-4 w-full bg-red-500 text-white hover:bg-red-700" onClick={handleCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              className="mt-4 w-full bg-gradient-to-r from-green-400 to-blue-500 hover:bg-gradient-to-l cursor-pointer"
+              onClick={handleSubmit}
+              isDisabled={hasOverflow}
+            >
+              Submit
+            </Button>
+          )}
+
+          {previews.length > 0 && (
+            <>
+              <Divider className="my-4" />
+              {previews.map(({ index, comparison, stats }) => (
+                <CarrierPreview key={index} title={`Image ${index + 1}`} comparison={comparison} stats={stats} />
+              ))}
+              <Button className="w-full bg-gray-800 text-white" onClick={() => setPreviews([])}>
+                Hide Preview
+              </Button>
+            </>
+          )}
         </Card>
       </div>
     </div>
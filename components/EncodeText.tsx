@@ -1,6 +1,11 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { Card, Input, Textarea, Button, Image } from "@nextui-org/react";
-import CryptoJS from "crypto-js";
+import { Dices } from "lucide-react";
+import { importSigningKeyPair, loadKeyring, type KeyringEntry } from "@/lib/keyring";
+import { generatePassphrase, passphraseStrength } from "@/lib/passphrase";
+import { hideInText, sealMessage } from "@/lib/stego";
+import PassphraseStrength from "./PassphraseStrength";
+import SignerSelect from "./SignerSelect";
 
 const EncodeText = () => {
   const [text, setText] = useState("");
@@ -10,20 +15,14 @@ const EncodeText = () => {
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const [keyVisibility, setKeyVisibility] = useState(false);
+  const [keyring, setKeyring] = useState<KeyringEntry[]>([]);
+  const [signerId, setSignerId] = useState<string | null>(null);
   const hiddenFileInputRef = useRef<HTMLInputElement>(null);
-
-  const KEY_LENGTH = 6;
-  const DELIMITER = "||";
+  const keyStrength = useMemo(() => passphraseStrength(encryptionKey), [encryptionKey]);
 
   // Ensure code runs only on client-side to avoid SSR issues on Vercel
   const isClient = typeof window !== "undefined";
 
-  const encryptData = (data: string, key: string) => {
-    if (!key) throw new Error("Encryption key is required.");
-    if (key.length !== KEY_LENGTH) throw new Error(`Key must be exactly ${KEY_LENGTH} characters.`);
-    return CryptoJS.AES.encrypt(data, key).toString();
-  };
-
   const handleHiddenFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -40,6 +39,11 @@ const EncodeText = () => {
     reader.readAsDataURL(file);
   };
 
+  const handleGeneratePassphrase = () => {
+    setEncryptionKey(generatePassphrase());
+    setKeyVisibility(true);
+  };
+
   const handleRemoveHiddenImage = () => {
     setHiddenImage(null);
     if (hiddenFileInputRef.current) hiddenFileInputRef.current.value = "";
@@ -51,8 +55,9 @@ const EncodeText = () => {
       setError("⚠️ Please provide text or an image to encode.");
       return;
     }
-    if (!encryptionKey || encryptionKey.length !== KEY_LENGTH) {
-      setError(`⚠️ Encryption key must be exactly ${KEY_LENGTH} characters.`);
+    const keyError = keyStrength.error;
+    if (keyError) {
+      setError(`⚠️ ${keyError}`);
       return;
     }
     if (!coverText) {
@@ -61,16 +66,10 @@ const EncodeText = () => {
     }
 
     try {
-      let combinedMessage = "";
-      if (text) {
-        combinedMessage += encryptData(text, encryptionKey);
-      }
-      if (hiddenImage) {
-        if (combinedMessage) combinedMessage += DELIMITER;
-        combinedMessage += encryptData(hiddenImage, encryptionKey);
-      }
-
-      const finalMessage = `${coverText}${DELIMITER}${btoa(combinedMessage)}`;
+      const signerEntry = keyring.find((entry) => entry.id === signerId);
+      const signer = signerEntry ? await importSigningKeyPair(signerEntry) : undefined;
+      const combinedMessage = await sealMessage({ text, image: hiddenImage }, encryptionKey, { signer });
+      const finalMessage = hideInText(coverText, combinedMessage);
       const blob = new Blob([finalMessage], { type: "text/plain" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -97,7 +96,7 @@ const EncodeText = () => {
   // Ensure refs are initialized on client-side
   useEffect(() => {
     if (!isClient) return;
-    // Any additional client-side initialization if needed
+    setKeyring(loadKeyring());
   }, [isClient]);
 
   return (
@@ -135,51 +134,60 @@ const EncodeText = () => {
             fullWidth
             size="lg"
             label="Encryption Key"
-            placeholder={`Enter ${KEY_LENGTH}-character key`}
+            placeholder="Enter a passphrase or generate one"
             value={encryptionKey}
-            onChange={(e) => setEncryptionKey(e.target.value.slice(0, KEY_LENGTH))}
+            onChange={(e) => setEncryptionKey(e.target.value)}
             type={keyVisibility ? "text" : "password"}
             className="text-black mb-4"
             variant="bordered"
-            color={encryptionKey && encryptionKey.length !== KEY_LENGTH ? "danger" : "primary"}
+            color={encryptionKey && keyStrength.error ? "danger" : "primary"}
             classNames={{
               input: "text-black dark:text-white",
               label: "text-gray-500 dark:text-gray-400",
               inputWrapper: "bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 shadow-sm hover:shadow-md transition-shadow",
             }}
             endContent={
-              <Button
-                isIconOnly
-                variant="light"
-                onClick={() => setKeyVisibility(!keyVisibility)}
-                className="focus:outline-none"
-              >
-                {keyVisibility ? (
-                  <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c-4.478 0-8.268-2.943-9.543-7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
-                    />
-                  </svg>
-                ) : (
-                  <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M2.458 12C3.732 7.943 7.523 5 12 5c-4.478 0-8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
-                    />
-                  </svg>
-                )}
-              </Button>
+              <div className="flex items-center">
+                <Button
+                  isIconOnly
+                  variant="light"
+                  onClick={handleGeneratePassphrase}
+                  className="focus:outline-none"
+                  aria-label="Generate passphrase"
+                >
+                  <Dices className="w-5 h-5 text-gray-500" />
+                </Button>
+                <Button
+                  isIconOnly
+                  variant="light"
+                  onClick={() => setKeyVisibility(!keyVisibility)}
+                  className="focus:outline-none"
+                >
+                  {keyVisibility ? (
+                    <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c-4.478 0-8.268-2.943-9.543-7a10.025 10.025 0 01-4.132 5.411m0 0L21 21"
+                      />
+                    </svg>
+                  ) : (
+                    <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M2.458 12C3.732 7.943 7.523 5 12 5c-4.478 0-8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
+                      />
+                    </svg>
+                  )}
+                </Button>
+              </div>
             }
           />
-          {encryptionKey && encryptionKey.length !== KEY_LENGTH && (
-            <p className="text-red-500 text-sm mt-1">Key must be exactly {KEY_LENGTH} characters</p>
-          )}
+          <PassphraseStrength passphrase={encryptionKey} strength={keyStrength} />
 
           <Textarea
             fullWidth
@@ -225,6 +233,8 @@ const EncodeText = () => {
             )}
           </div>
 
+          <SignerSelect keyring={keyring} value={signerId} onChange={setSignerId} />
+
           {error && <p className="text-red-500 text-sm mb-2">{error}</p>}
 
           <Button
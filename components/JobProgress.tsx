@@ -0,0 +1,39 @@
+import { Progress } from "@nextui-org/react";
+import type { JobProgress as Progression, JobStage } from "@/lib/stego/jobs";
+
+interface JobProgressProps {
+  label: string;
+  /** `null` while the job is queued or reading its input on the main thread. */
+  progress: Progression | null;
+}
+
+const STAGE_LABELS: Record<JobStage, string> = {
+  encrypting: "Encrypting",
+  embedding: "Embedding",
+  extracting: "Extracting",
+  decrypting: "Decrypting",
+  analyzing: "Analyzing",
+  comparing: "Comparing",
+  compressing: "Compressing",
+};
+
+const JobProgress = ({ label, progress }: JobProgressProps) => {
+  const fraction = progress?.fraction ?? null;
+
+  return (
+    <div className="mt-2 text-left">
+      <Progress
+        size="sm"
+        label={`${label}: ${progress ? STAGE_LABELS[progress.stage] : "Preparing"}`}
+        aria-label={label}
+        isIndeterminate={fraction === null}
+        value={fraction === null ? undefined : Math.round(fraction * 100)}
+        showValueLabel={fraction !== null}
+        color="primary"
+        classNames={{ label: "text-sm text-gray-500", value: "text-sm text-gray-500" }}
+      />
+    </div>
+  );
+};
+
+export default JobProgress;
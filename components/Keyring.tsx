@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Card, Input, Button, Divider, Chip } from "@nextui-org/react";
+import { exportKeyFile, generateKeyPair, importKeyFile, loadKeyring, saveKeyring, type KeyringEntry } from "@/lib/keyring";
+
+const Keyring = () => {
+  const [entries, setEntries] = useState<KeyringEntry[]>([]);
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setEntries(loadKeyring());
+  }, []);
+
+  const updateEntries = (next: KeyringEntry[]) => {
+    setEntries(next);
+    saveKeyring(next);
+  };
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(""), 3000);
+  };
+
+  const handleGenerate = async () => {
+    const keyName = name.trim();
+    if (!keyName) {
+      showMessage("⚠️ Please name the key pair.");
+      return;
+    }
+    try {
+      const entry = await generateKeyPair(keyName);
+      updateEntries([...entries, entry]);
+      setName("");
+      showMessage(`✅ Generated key pair "${keyName}".`);
+    } catch (error: any) {
+      showMessage("❌ Error generating key pair: " + error.message);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const entry = await importKeyFile(await file.text(), file.name.replace(/\.[^.]+$/, ""));
+      const isKnown = (existing: KeyringEntry) =>
+        existing.fingerprint === entry.fingerprint &&
+        (existing.privateKey || !entry.privateKey) &&
+        (existing.signingPublicKey || !entry.signingPublicKey);
+      if (entries.some(isKnown)) {
+        showMessage(`⚠️ "${entry.name}" is already in your keyring.`);
+        return;
+      }
+      // Importing the key pair behind a contact's public key, or a newer file with a signing key, replaces the entry.
+      updateEntries([...entries.filter((existing) => existing.fingerprint !== entry.fingerprint), entry]);
+      showMessage(`✅ Imported ${entry.privateKey ? "key pair" : "public key"} "${entry.name}".`);
+    } catch (error: any) {
+      showMessage("❌ " + error.message);
+    }
+  };
+
+  const handleExport = (entry: KeyringEntry, includePrivateKey: boolean) => {
+    const blob = new Blob([exportKeyFile(entry, includePrivateKey)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${entry.name}${includePrivateKey ? ".keypair" : ".pub"}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = (entry: KeyringEntry) => {
+    const warning = entry.privateKey
+      ? `Delete the key pair "${entry.name}"? Messages sealed to it can no longer be opened unless you exported a backup.`
+      : `Delete the public key "${entry.name}"?`;
+    if (!window.confirm(warning)) return;
+    updateEntries(entries.filter((existing) => existing.id !== entry.id));
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen relative text-neutral-200 overflow-hidden">
+      <div className="absolute inset-0 bg-gradient-to-b from-[#111] via-[#181818] to-[#111]"></div>
+      <div className="relative z-10 text-center">
+        <p className="text-2xl sm:text-5xl font-bold bg-clip-text text-transparent bg-gradient-to-b from-neutral-200 to-neutral-500 py-8">
+          Manage your <strong className="text-red-400">keys</strong> for{" "}
+          <strong className="bg-gradient-to-r from-stone-500 to-stone-700 bg-clip-text text-transparent">
+            public-key encryption
+          </strong>
+        </p>
+
+        <Card
+          isBlurred
+          className="max-w-lg w-full mx-auto p-6 my-12 border-2 border-dotted border-gray-400 rounded-lg shadow-xl bg-gray-50 dark:bg-gray-900"
+        >
+          <p className="text-sm text-gray-500 mb-4 text-left">
+            Share your public key so others can hide messages only you can open. Keys are stored in this browser;
+            export a backup of your key pairs before clearing site data.
+          </p>
+
+          <div className="flex gap-2 mb-4">
+            <Input
+              size="sm"
+              label="Key pair name"
+              placeholder="e.g. Personal"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="text-black"
+              variant="bordered"
+            />
+            <Button className="bg-gray-800 text-white h-auto" onClick={handleGenerate}>
+              Generate
+            </Button>
+          </div>
+
+          <input type="file" ref={importInputRef} accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <Button onClick={() => importInputRef.current?.click()} className="bg-gray-800 text-white w-full">
+            Import Key File
+          </Button>
+
+          {message && (
+            <p className={`text-sm mt-2 ${message.startsWith("✅") ? "text-green-400" : "text-red-500"}`}>{message}</p>
+          )}
+
+          <Divider className="my-4" />
+
+          {entries.length === 0 ? (
+            <p className="text-gray-500">Your keyring is empty.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="mb-4 rounded-md bg-gray-200 dark:bg-gray-800 p-3 text-left">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-gray-500 truncate">{entry.name}</span>
+                  <Chip size="sm" color={entry.privateKey ? "success" : "default"} variant="flat">
+                    {entry.privateKey ? "Key pair" : "Public key"}
+                  </Chip>
+                </div>
+                <p className="text-xs text-gray-500 font-mono mt-1 break-all">{entry.fingerprint}</p>
+                {entry.signingFingerprint && (
+                  <p className="text-xs text-gray-500 font-mono break-all" title="Fingerprint shown on messages this key signs">
+                    Signing: {entry.signingFingerprint}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <Button size="sm" className="bg-gray-700 text-white" onClick={() => handleExport(entry, false)}>
+                    Export Public Key
+                  </Button>
+                  {entry.privateKey && (
+                    <Button size="sm" className="bg-gray-700 text-white" onClick={() => handleExport(entry, true)}>
+                      Back Up Key Pair
+                    </Button>
+                  )}
+                  <Button size="sm" color="danger" variant="flat" onClick={() => handleDelete(entry)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Keyring;
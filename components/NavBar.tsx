@@ -51,6 +51,26 @@ export default function NavBar({ activePage }: NavBarProps) {
             Decode
           </Link>
         </NavbarItem>
+        <NavbarItem isActive={activePage === "/analyze"}>
+          <Link
+            color={activePage === "/analyze" ? "secondary" : "foreground"}
+            href="/analyze"
+            aria-current="page"
+            className="text-sm sm:text-base md:text-lg text-white hover:text-[#1ABC9C] transition-colors duration-200 relative after:content-[''] after:absolute after:w-full after:h-[2px] after:bg-[#1ABC9C] after:left-0 after:bottom-[-4px] after:scale-x-0 after:origin-left after:transition-transform after:duration-300 hover:after:scale-x-100"
+          >
+            Analyze
+          </Link>
+        </NavbarItem>
+        <NavbarItem isActive={activePage === "/keyring"}>
+          <Link
+            color={activePage === "/keyring" ? "secondary" : "foreground"}
+            href="/keyring"
+            aria-current="page"
+            className="text-sm sm:text-base md:text-lg text-white hover:text-[#1ABC9C] transition-colors duration-200 relative after:content-[''] after:absolute after:w-full after:h-[2px] after:bg-[#1ABC9C] after:left-0 after:bottom-[-4px] after:scale-x-0 after:origin-left after:transition-transform after:duration-300 hover:after:scale-x-100"
+          >
+            Keyring
+          </Link>
+        </NavbarItem>
       </NavbarContent>
     </Navbar>
   );
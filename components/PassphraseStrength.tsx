@@ -0,0 +1,33 @@
+import { Progress } from "@nextui-org/react";
+import { MIN_PASSPHRASE_ENTROPY, type PassphraseStrength as Strength } from "@/lib/passphrase";
+
+interface PassphraseStrengthProps {
+  passphrase: string;
+  /** `passphraseStrength(passphrase)`, computed once by the form that also colours its input with it. */
+  strength: Strength;
+}
+
+const SCORE_COLORS = ["danger", "danger", "warning", "success", "success"] as const;
+
+const PassphraseStrength = ({ passphrase, strength }: PassphraseStrengthProps) => {
+  if (!passphrase) return null;
+  const { entropy, score, label, error } = strength;
+
+  return (
+    <div className="mt-2 text-left">
+      <Progress
+        size="sm"
+        aria-label="Passphrase strength"
+        value={Math.min(entropy, MIN_PASSPHRASE_ENTROPY * 2)}
+        maxValue={MIN_PASSPHRASE_ENTROPY * 2}
+        color={SCORE_COLORS[score]}
+      />
+      <p className="text-xs text-gray-500 mt-1">
+        {label} · ~{entropy} bits
+      </p>
+      {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default PassphraseStrength;
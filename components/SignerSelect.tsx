@@ -0,0 +1,37 @@
+import { Select, SelectItem } from "@nextui-org/react";
+import type { KeyringEntry } from "@/lib/keyring";
+
+interface SignerSelectProps {
+  keyring: KeyringEntry[];
+  /** Id of the signing entry, or `null` to leave the payload unsigned. */
+  value: string | null;
+  onChange: (id: string | null) => void;
+}
+
+const SignerSelect = ({ keyring, value, onChange }: SignerSelectProps) => {
+  const keyPairs = keyring.filter((entry) => entry.privateKey);
+  if (keyPairs.length === 0) return null;
+
+  return (
+    <Select
+      label="Sign as"
+      selectedKeys={[value ?? ""]}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="mb-4"
+      description="Lets the receiver verify who created the hidden data."
+    >
+      {[
+        <SelectItem key="" value="">
+          Don&apos;t sign
+        </SelectItem>,
+        ...keyPairs.map((entry) => (
+          <SelectItem key={entry.id} value={entry.id} description={entry.signingFingerprint ?? entry.fingerprint}>
+            {entry.name}
+          </SelectItem>
+        )),
+      ]}
+    </Select>
+  );
+};
+
+export default SignerSelect;
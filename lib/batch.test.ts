@@ -0,0 +1,33 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { MAX_ZIP_DEPTH, readZip } from "./batch";
+
+const nested = (depth: number): Uint8Array =>
+  zipSync({ [`note${depth}.txt`]: strToU8(`level ${depth}`), ...(depth > 0 ? { "inner.zip": nested(depth - 1) } : {}) });
+
+describe("readZip", () => {
+  it("reads decodable files, skipping folders, dotfiles and other types", async () => {
+    const archive = zipSync({
+      "b.png": new Uint8Array(8),
+      "photos/a.jpg": new Uint8Array(8),
+      "__MACOSX/photos/._a.jpg": new Uint8Array(8),
+      ".hidden.txt": strToU8("x"),
+      "notes.pdf": new Uint8Array(8),
+    });
+    const files = await readZip(archive);
+    expect(files.map((file) => [file.path, file.type])).toEqual([
+      ["b.png", "image/png"],
+      ["photos/a.jpg", "image/jpeg"],
+    ]);
+  });
+
+  it("unpacks archives inside the archive down to the depth limit", async () => {
+    const files = await readZip(nested(MAX_ZIP_DEPTH + 1));
+    expect(files.map((file) => file.path)).toEqual([
+      "inner.zip/inner.zip/inner.zip/note1.txt",
+      "inner.zip/inner.zip/note2.txt",
+      "inner.zip/note3.txt",
+      "note4.txt",
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { strToU8, unzip, zipSync, type UnzipFileInfo, type Unzipped } from "fflate";
+
+/** One row of a batch CSV: the carrier it is for and the message to hide in it. */
+export interface BatchRow {
+  /** File name of the carrier, matched exactly. */
+  file: string;
+  message: string;
+  /** Overrides the batch passphrase for this carrier when set. */
+  passphrase?: string;
+}
+
+/** What became of one carrier of a batch, as listed in the ZIP's `manifest.json`. */
+export interface ManifestEntry {
+  carrier: string;
+  /** Path of the encoded image inside the ZIP, or `null` if it failed. */
+  output: string | null;
+  status: "encoded" | "failed";
+  error?: string;
+  /** Bytes of the hidden message before sealing. */
+  messageBytes: number;
+  /** Bits written into the carrier and how many channels or coefficients that changed. */
+  embeddedBits?: number;
+  changes?: number;
+}
+
+export interface Manifest {
+  createdAt: string;
+  format: "png" | "jpeg";
+  /** Embedding settings shared by the whole batch; passphrases are never recorded. */
+  settings: Record<string, string | number | boolean>;
+  entries: ManifestEntry[];
+}
+
+/** Parses RFC 4180 CSV: comma-separated, fields optionally double-quoted with `""` for a quote. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no row.
+  return rows.filter((cells) => cells.some((cell) => cell !== ""));
+}
+
+/**
+ * Reads the rows of a batch CSV. The header row names the columns: `file` and
+ * `message` are required, `passphrase` is optional, and the order is free.
+ */
+export function readBatchCsv(text: string): BatchRow[] {
+  const [header, ...rows] = parseCsv(text.replace(/^﻿/, ""));
+  if (!header) throw new Error("The CSV file is empty.");
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const fileColumn = columns.indexOf("file");
+  const messageColumn = columns.indexOf("message");
+  const passphraseColumn = columns.indexOf("passphrase");
+  if (fileColumn === -1 || messageColumn === -1) {
+    throw new Error('The CSV header must name a "file" and a "message" column.');
+  }
+  return rows.map((cells) => ({
+    file: (cells[fileColumn] ?? "").trim(),
+    message: cells[messageColumn] ?? "",
+    passphrase: passphraseColumn !== -1 && cells[passphraseColumn] ? cells[passphraseColumn] : undefined,
+  }));
+}
+
+/** Replaces each `{key}` in `template` with its value; unknown placeholders are left as they are. */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder
+  );
+}
+
+/** `name` with a numeric suffix before its extension if `taken` already holds it; the result is added to `taken`. */
+export function uniqueName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf(".");
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : "";
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${base}_${n}${extension}`;
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Packs encoded images and their manifest into one ZIP file. Images are
+ * stored as they are, since PNG and JPEG data does not compress further.
+ */
+export function buildBatchZip(files: { path: string; data: Uint8Array }[], manifest: Manifest): Uint8Array {
+  const entries: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {
+    "manifest.json": strToU8(JSON.stringify(manifest, null, 2)),
+  };
+  for (const { path, data } of files) entries[path] = [data, { level: 0 }];
+  return zipSync(entries);
+}
+
+/** A file taken from a ZIP archive or a dropped folder, with its path inside it. */
+export interface BatchFile {
+  path: string;
+  type: string;
+  data: Uint8Array;
+}
+
+const DECODABLE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  bmp: "image/bmp",
+  gif: "image/gif",
+  webp: "image/webp",
+  txt: "text/plain",
+};
+
+/** The MIME type of a carrier or text file the decoder can read, judged by its extension, or `null`. */
+export function decodableType(path: string): string | null {
+  const extension = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return path.includes(".") ? DECODABLE_TYPES[extension] ?? null : null;
+}
+
+/** Whether `bytes` start with a ZIP local file header. */
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+const isHiddenPath = (path: string) => path.split("/").some((part) => part.startsWith(".") || part === "__MACOSX");
+
+/** How many levels of archives inside archives are unpacked. */
+export const MAX_ZIP_DEPTH = 3;
+
+/**
+ * Most bytes unpacked from one archive, nested archives included. Entries are
+ * inflated into buffers of their declared size, so this also bounds memory.
+ */
+export const MAX_UNZIPPED_SIZE = 512 * 1024 * 1024;
+
+const isZipPath = (path: string) => /\.zip$/i.test(path);
+
+const unzipAsync = (bytes: Uint8Array, filter: (file: UnzipFileInfo) => boolean) =>
+  new Promise<Unzipped>((resolve, reject) => {
+    unzip(bytes, { filter }, (error, entries) => (error ? reject(error) : resolve(entries)));
+  });
+
+async function unpackZip(bytes: Uint8Array, depth: number, budget: { remaining: number }): Promise<BatchFile[]> {
+  const entries = await unzipAsync(bytes, ({ name, originalSize }) => {
+    if (name.endsWith("/") || isHiddenPath(name)) return false;
+    if (decodableType(name) === null && !(isZipPath(name) && depth < MAX_ZIP_DEPTH)) return false;
+    budget.remaining -= originalSize;
+    if (budget.remaining < 0) throw new Error(`ZIP archive unpacks to more than ${MAX_UNZIPPED_SIZE} bytes`);
+    return true;
+  });
+  const files: BatchFile[] = [];
+  for (const [path, data] of Object.entries(entries)) {
+    const type = decodableType(path);
+    if (type) files.push({ path, type, data });
+    else if (isZip(data)) {
+      const inner = await unpackZip(data, depth + 1, budget);
+      files.push(...inner.map((file) => ({ ...file, path: `${path}/${file.path}` })));
+    }
+  }
+  return files;
+}
+
+/**
+ * The images and text files in a ZIP archive, sorted by path, including those
+ * in archives inside it down to {@link MAX_ZIP_DEPTH} levels. Folders, other
+ * file types and the metadata macOS and dotfiles add are skipped. Rejects if
+ * the archive unpacks to more than {@link MAX_UNZIPPED_SIZE} bytes.
+ */
+export async function readZip(bytes: Uint8Array): Promise<BatchFile[]> {
+  const files = await unpackZip(bytes, 0, { remaining: MAX_UNZIPPED_SIZE });
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+/** Every file below `entry` with its path, descending into subfolders. */
+async function walkEntry(entry: FileSystemEntry): Promise<{ path: string; file: File }[]> {
+  const path = entry.fullPath.replace(/^\//, "");
+  if (entry.isFile) return [{ path, file: await entryFile(entry as FileSystemFileEntry) }];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const found: { path: string; file: File }[] = [];
+  // readEntries hands out a directory's entries in chunks until it returns none.
+  for (let chunk = await readEntries(reader); chunk.length > 0; chunk = await readEntries(reader)) {
+    for (const child of chunk) found.push(...(await walkEntry(child)));
+  }
+  return found;
+}
+
+/**
+ * The decodable files in a drop of files, folders and ZIP archives, sorted by
+ * path. Folders are walked recursively and archives unpacked in place.
+ */
+export async function readDroppedFiles(items: DataTransferItemList): Promise<BatchFile[]> {
+  // Entries must be taken before the first await, while the drop event is still current.
+  const entries = Array.from(items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  const found: { path: string; file: File }[] = [];
+  for (const entry of entries) found.push(...(await walkEntry(entry)));
+  return readBatchFiles(found);
+}
+
+/** The decodable files among `files`, with every ZIP archive replaced by its contents. */
+export async function readBatchFiles(files: { path: string; file: File }[]): Promise<BatchFile[]> {
+  const out: BatchFile[] = [];
+  for (const { path, file } of files) {
+    if (isHiddenPath(path)) continue;
+    const type = decodableType(path);
+    if (!type && !isZipPath(path)) continue;
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (isZip(data)) out.push(...(await readZip(data)).map((inner) => ({ ...inner, path: `${path}/${inner.path}` })));
+    else if (type) out.push({ path, type, data });
+  }
+  return out.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** The keys in a key list, one per line; blank lines and repeats are dropped. */
+export function parseKeyList(text: string): string[] {
+  const keys = text.split(/\r?\n/).filter((key) => key.trim() !== "");
+  return keys.filter((key, index) => keys.indexOf(key) === index);
+}
@@ -0,0 +1,168 @@
+// Local keyring for public-key mode. Key pairs and contacts' public keys are
+// kept as JWKs in localStorage, so private keys never leave this browser
+// unless the user exports them.
+
+import { ECDH_ALGORITHM, ECDSA_ALGORITHM, keyFingerprint } from "./stego";
+
+const STORAGE_KEY = "stagno-keyring";
+const PUBLIC_KEY_FILE = "stagno-public-key";
+const KEY_PAIR_FILE = "stagno-key-pair";
+
+export interface KeyringEntry {
+  id: string;
+  name: string;
+  /** `keyFingerprint` of the raw public key. */
+  fingerprint: string;
+  publicKey: JsonWebKey;
+  /** Present only for the user's own key pairs. */
+  privateKey?: JsonWebKey;
+  /**
+   * ECDSA key pair the entry signs with, separate from the ECDH key pair that
+   * receives. Missing for contacts whose key file predates signing keys.
+   */
+  signingPublicKey?: JsonWebKey;
+  signingPrivateKey?: JsonWebKey;
+  /** `keyFingerprint` of the raw signing public key, which is what a signature names. */
+  signingFingerprint?: string;
+  createdAt: number;
+}
+
+interface KeyFile {
+  type: typeof PUBLIC_KEY_FILE | typeof KEY_PAIR_FILE;
+  name: string;
+  publicKey: JsonWebKey;
+  privateKey?: JsonWebKey;
+  signingPublicKey?: JsonWebKey;
+  signingPrivateKey?: JsonWebKey;
+}
+
+type SigningKeys = Pick<KeyringEntry, "signingPublicKey" | "signingPrivateKey" | "signingFingerprint">;
+
+export function loadKeyring(): KeyringEntry[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveKeyring(entries: KeyringEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function importPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey("jwk", jwk, ECDH_ALGORITHM, true, []);
+}
+
+export function importPrivateKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey("jwk", jwk, ECDH_ALGORITHM, false, ["deriveBits"]);
+}
+
+/** Private keys of every key pair in `entries`, ready for `openMessage`. */
+export function importPrivateKeys(entries: KeyringEntry[]): Promise<CryptoKey[]> {
+  return Promise.all(entries.filter((entry) => entry.privateKey).map((entry) => importPrivateKey(entry.privateKey!)));
+}
+
+const fingerprintOf = async (publicKey: CryptoKey) =>
+  keyFingerprint(new Uint8Array(await crypto.subtle.exportKey("raw", publicKey)));
+
+const createSigningKeys = async (): Promise<SigningKeys> => {
+  const pair = await crypto.subtle.generateKey(ECDSA_ALGORITHM, true, ["sign", "verify"]);
+  return {
+    signingPublicKey: await crypto.subtle.exportKey("jwk", pair.publicKey),
+    signingPrivateKey: await crypto.subtle.exportKey("jwk", pair.privateKey),
+    signingFingerprint: await fingerprintOf(pair.publicKey),
+  };
+};
+
+const importSigningPublicKey = (jwk: JsonWebKey) => crypto.subtle.importKey("jwk", jwk, ECDSA_ALGORITHM, true, ["verify"]);
+
+// Key pairs made before entries had signing keys get one the first time they sign.
+const addSigningKeys = async (entry: KeyringEntry): Promise<KeyringEntry> => {
+  // The caller's copy of the keyring may predate an earlier upgrade.
+  const stored = loadKeyring().find((existing) => existing.id === entry.id);
+  if (stored?.signingPrivateKey) return stored;
+  const upgraded = { ...entry, ...(await createSigningKeys()) };
+  saveKeyring(loadKeyring().map((existing) => (existing.id === entry.id ? upgraded : existing)));
+  return upgraded;
+};
+
+/** Key pair for signing with one of the user's own entries. */
+export async function importSigningKeyPair(entry: KeyringEntry): Promise<CryptoKeyPair> {
+  if (!entry.privateKey) throw new Error(`"${entry.name}" has no private key to sign with`);
+  const { signingPublicKey, signingPrivateKey } = entry.signingPrivateKey ? entry : await addSigningKeys(entry);
+  return {
+    privateKey: await crypto.subtle.importKey("jwk", signingPrivateKey!, ECDSA_ALGORITHM, false, ["sign"]),
+    publicKey: await importSigningPublicKey(signingPublicKey!),
+  };
+}
+
+const createEntry = async (
+  name: string,
+  publicKey: CryptoKey,
+  privateKey?: JsonWebKey,
+  signingKeys: SigningKeys = {}
+): Promise<KeyringEntry> => ({
+  id: crypto.randomUUID(),
+  name,
+  fingerprint: await fingerprintOf(publicKey),
+  publicKey: await crypto.subtle.exportKey("jwk", publicKey),
+  privateKey,
+  ...signingKeys,
+  createdAt: Date.now(),
+});
+
+export async function generateKeyPair(name: string): Promise<KeyringEntry> {
+  const pair = await crypto.subtle.generateKey(ECDH_ALGORITHM, true, ["deriveBits"]);
+  return createEntry(name, pair.publicKey, await crypto.subtle.exportKey("jwk", pair.privateKey), await createSigningKeys());
+}
+
+/**
+ * Parses a file written by `exportKeyFile`. Throws if it is not one, or if the
+ * key is not a P-256 ECDH key.
+ */
+export async function importKeyFile(json: string, fallbackName: string): Promise<KeyringEntry> {
+  let file: KeyFile;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("Not a key file");
+  }
+  if (!file || (file.type !== PUBLIC_KEY_FILE && file.type !== KEY_PAIR_FILE) || !file.publicKey) {
+    throw new Error("Not a key file");
+  }
+
+  let publicKey: CryptoKey;
+  let signingKeys: SigningKeys = {};
+  try {
+    publicKey = await importPublicKey(file.publicKey);
+    if (file.type === KEY_PAIR_FILE) {
+      if (!file.privateKey) throw new Error("missing private key");
+      await importPrivateKey(file.privateKey);
+    }
+    if (file.signingPublicKey) {
+      const signingPublicKey = await importSigningPublicKey(file.signingPublicKey);
+      signingKeys = { signingPublicKey: file.signingPublicKey, signingFingerprint: await fingerprintOf(signingPublicKey) };
+      if (file.type === KEY_PAIR_FILE && file.signingPrivateKey) {
+        await crypto.subtle.importKey("jwk", file.signingPrivateKey, ECDSA_ALGORITHM, false, ["sign"]);
+        signingKeys.signingPrivateKey = file.signingPrivateKey;
+      }
+    }
+  } catch {
+    throw new Error("Key file does not contain a valid P-256 key");
+  }
+  const privateKey = file.type === KEY_PAIR_FILE ? file.privateKey : undefined;
+  return createEntry(file.name || fallbackName, publicKey, privateKey, signingKeys);
+}
+
+/** Serialises an entry for sharing (public key only) or backup (with the private key). */
+export function exportKeyFile(entry: KeyringEntry, includePrivateKey: boolean): string {
+  const { name, publicKey, privateKey, signingPublicKey, signingPrivateKey } = entry;
+  const file: KeyFile =
+    includePrivateKey && privateKey
+      ? { type: KEY_PAIR_FILE, name, publicKey, privateKey, signingPublicKey, signingPrivateKey }
+      : { type: PUBLIC_KEY_FILE, name, publicKey, signingPublicKey };
+  return JSON.stringify(file, null, 2);
+}
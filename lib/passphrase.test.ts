@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { MAX_ANALYSED_LENGTH, MIN_PASSPHRASE_ENTROPY, estimateEntropy, generatePassphrase, passphraseStrength, validatePassphrase } from "./passphrase";
+
+describe("passphrase policy", () => {
+  it.each([
+    ["a common password with a digit and symbol", "Password1!"],
+    ["a common password with a sequence", "Password123!"],
+    ["a common phrase with a year", "iloveyou2024"],
+    ["a keyboard walk", "qwertyuiop1!"],
+    ["leetspeak", "P@ssw0rd2024"],
+    ["a reversed common password", "drowssaP2024"],
+    ["a repeated character", "a".repeat(52)],
+    ["a repeated block", "abc1".repeat(6)],
+  ])("rejects %s", (_, passphrase) => {
+    expect(estimateEntropy(passphrase)).toBeLessThan(MIN_PASSPHRASE_ENTROPY);
+    expect(validatePassphrase(passphrase)).not.toBeNull();
+    expect(passphraseStrength(passphrase).score).toBeLessThan(2);
+  });
+
+  it("accepts long or random passphrases", () => {
+    for (const passphrase of ["correct horse battery staple", "Tr0ub4dor&3xK", generatePassphrase()]) {
+      expect(validatePassphrase(passphrase)).toBeNull();
+    }
+  });
+
+  it("requires a minimum length", () => {
+    expect(validatePassphrase("")).not.toBeNull();
+    expect(validatePassphrase("x7$Kq")).toMatch(/at least/);
+  });
+
+  it("stays fast on long passphrases and ignores what is past the analysed length", () => {
+    const passphrase = generatePassphrase().repeat(25);
+    const started = performance.now();
+    const strength = passphraseStrength(passphrase);
+    expect(performance.now() - started).toBeLessThan(100);
+    expect(strength.entropy).toBe(estimateEntropy(passphrase.slice(0, MAX_ANALYSED_LENGTH)));
+    expect(strength.error).toBeNull();
+  });
+});
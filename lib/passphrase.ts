@@ -0,0 +1,214 @@
+// Passphrase policy shared by every key input. Encoders enforce it; the
+// decoder only requires a non-empty key so older carriers still open.
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+export const MIN_PASSPHRASE_ENTROPY = 60;
+/** Characters past this are not analysed, which keeps the estimate fast on every keystroke. */
+export const MAX_ANALYSED_LENGTH = 100;
+
+const GENERATED_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ";
+const GENERATED_GROUPS = 4;
+const GENERATED_GROUP_LENGTH = 5;
+
+export interface PassphraseStrength {
+  /** Estimated entropy in bits. */
+  entropy: number;
+  /** 0 (very weak) to 4 (very strong). */
+  score: number;
+  label: string;
+  /** Why the passphrase fails the encoding policy, or `null`. */
+  error: string | null;
+}
+
+const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Strong", "Very strong"];
+
+// Most common passwords and words found in them, roughly by frequency; a match costs log2 of its rank.
+const COMMON_PASSWORDS = (
+  "password 123456 qwerty abc123 letmein monkey iloveyou admin welcome dragon football baseball master " +
+  "sunshine princess shadow login passw0rd starwars trustno1 whatever freedom superman batman hello " +
+  "secret access flower michael jordan charlie donald mustang computer internet summer winter spring " +
+  "autumn soccer hockey killer pepper ginger cheese cookie coffee chocolate butterfly tigger buster " +
+  "daniel thomas jessica ashley jennifer robert matthew andrew joshua hunter ranger harley thunder " +
+  "silver golden orange purple yellow banana apple cherry lovely loveme iloveu forever family friend " +
+  "friends angel angels blessed jesus christ heaven lucky happy smile money power love test guest " +
+  "default changeme root user pass secure private mypass mypassword letmeinnow qazwsx zaq1 asdf " +
+  "pokemon naruto minecraft google facebook twitter samsung apple123 monday friday august october " +
+  "december january summer2024 london paris berlin america canada"
+).split(" ");
+
+const COMMON_RANKS = new Map(COMMON_PASSWORDS.map((word, rank) => [word, rank + 1]));
+const LONGEST_COMMON = Math.max(...COMMON_PASSWORDS.map((word) => word.length));
+
+// Leetspeak substitutions, e.g. "p@ssw0rd" for "password".
+const LEET_FROM = "01345789@!$+|";
+const LEET_TO = "oieastbgaisti";
+
+const KEYBOARD_ROWS = ["`1234567890-=", "qwertyuiop[]\\", "asdfghjkl;'", "zxcvbnm,./"];
+const KEYBOARD_KEYS = KEYBOARD_ROWS.join("").length;
+const MIN_PATTERN_LENGTH = 3;
+
+const characterPool = (passphrase: string) => {
+  let pool = 0;
+  if (/[a-z]/.test(passphrase)) pool += 26;
+  if (/[A-Z]/.test(passphrase)) pool += 26;
+  if (/[0-9]/.test(passphrase)) pool += 10;
+  if (/[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(passphrase)) pool += 33;
+  if (/[^\x00-\x7f]/.test(passphrase)) pool += 100;
+  return pool;
+};
+
+// Bits for guessing how a lowercase word was capitalised.
+const capitalisationBits = (word: string) => {
+  if (word === word.toLowerCase()) return 0;
+  const rest = word.slice(1);
+  if (word === word.toUpperCase() || rest === rest.toLowerCase()) return 1;
+  return Math.log2(word.length);
+};
+
+const dictionaryBits = (chars: string[], start: number, end: number) => {
+  const word = chars.slice(start, end).join("");
+  const lower = word.toLowerCase();
+  const unleet = Array.from(lower, (char) => {
+    const index = LEET_FROM.indexOf(char);
+    return index === -1 ? char : LEET_TO[index];
+  }).join("");
+  const reversed = Array.from(lower).reverse().join("");
+  const candidates: [string, number][] = [[lower, 0], [unleet, 1], [reversed, 1]];
+  let best = Infinity;
+  for (const [candidate, extra] of candidates) {
+    const rank = COMMON_RANKS.get(candidate);
+    if (rank) best = Math.min(best, Math.log2(rank) + 1 + extra + capitalisationBits(word));
+  }
+  return best;
+};
+
+const keyboardPosition = (char: string) => {
+  const lower = char.toLowerCase();
+  for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+    const column = KEYBOARD_ROWS[row].indexOf(lower);
+    if (column !== -1) return { row, column };
+  }
+  return null;
+};
+
+// Runs along one keyboard row, such as "qwerty" or "poiuy".
+const keyboardWalkBits = (chars: string[], start: number, end: number) => {
+  let previous = keyboardPosition(chars[start]);
+  for (let i = start + 1; i < end; i++) {
+    const position = keyboardPosition(chars[i]);
+    if (!previous || !position || position.row !== previous.row || Math.abs(position.column - previous.column) !== 1) {
+      return Infinity;
+    }
+    previous = position;
+  }
+  return Math.log2(KEYBOARD_KEYS) + Math.log2(end - start) + 1 + capitalisationBits(chars.slice(start, end).join(""));
+};
+
+// Runs of consecutive code points, such as "abcd", "4321" or "xyz".
+const sequenceBits = (chars: string[], start: number, end: number) => {
+  const delta = chars[start + 1].codePointAt(0)! - chars[start].codePointAt(0)!;
+  if (Math.abs(delta) !== 1) return Infinity;
+  for (let i = start + 2; i < end; i++) {
+    if (chars[i].codePointAt(0)! - chars[i - 1].codePointAt(0)! !== delta) return Infinity;
+  }
+  return Math.log2(/[0-9]/.test(chars[start]) ? 10 : 26) + Math.log2(end - start) + (delta < 0 ? 1 : 0);
+};
+
+const yearBits = (chars: string[], start: number, end: number) =>
+  end - start === 4 && /^(19|20)\d\d$/.test(chars.slice(start, end).join("")) ? Math.log2(120) : Infinity;
+
+// A block repeated back to back, such as "aaaa" or "abcabcabc", costs the block plus the count.
+// Blocks recur across many segments, so their cost is kept in `blocks`.
+const repetitionBits = (chars: string[], start: number, end: number, pool: number, blocks: Map<string, number>) => {
+  const length = end - start;
+  for (let block = 1; block <= length / 2; block++) {
+    if (length % block !== 0) continue;
+    let repeats = true;
+    for (let i = start + block; i < end && repeats; i++) repeats = chars[i] === chars[i - block];
+    if (!repeats) continue;
+    const key = chars.slice(start, start + block).join("");
+    let bits = blocks.get(key);
+    if (bits === undefined) {
+      bits = guessBits(chars.slice(start, start + block), pool, blocks);
+      blocks.set(key, bits);
+    }
+    return bits + Math.log2(length / block);
+  }
+  return Infinity;
+};
+
+/*
+ * Cheapest way to guess `chars`: split them into common passwords, keyboard
+ * walks, sequences, years and repeats, each costing what an attacker trying
+ * that pattern first would spend, with everything else brute-forced from the
+ * character pool.
+ */
+const guessBits = (chars: string[], pool: number, blocks = new Map<string, number>()): number => {
+  const perChar = Math.log2(pool);
+  const best = [0];
+  for (let end = 1; end <= chars.length; end++) {
+    best[end] = best[end - 1] + perChar;
+    for (let start = end - MIN_PATTERN_LENGTH; start >= 0; start--) {
+      let bits = Math.min(keyboardWalkBits(chars, start, end), sequenceBits(chars, start, end), yearBits(chars, start, end));
+      if (end - start <= LONGEST_COMMON) bits = Math.min(bits, dictionaryBits(chars, start, end));
+      bits = Math.min(bits, repetitionBits(chars, start, end, pool, blocks));
+      best[end] = Math.min(best[end], best[start] + bits);
+    }
+  }
+  return best[chars.length];
+};
+
+/**
+ * Deliberately conservative entropy estimate in the spirit of zxcvbn: common
+ * passwords (also reversed or in leetspeak), keyboard walks, sequences, years
+ * and repeats cost only the guesses it takes to try them. Like zxcvbn, only
+ * the first {@link MAX_ANALYSED_LENGTH} characters count.
+ */
+export function estimateEntropy(passphrase: string): number {
+  const chars = Array.from(passphrase).slice(0, MAX_ANALYSED_LENGTH);
+  if (chars.length === 0) return 0;
+  return Math.round(guessBits(chars, characterPool(chars.join(""))));
+}
+
+// Shared by `passphraseStrength` and `validatePassphrase` so the strength meter needs one estimate.
+const policyError = (passphrase: string, entropy: number) => {
+  if (!passphrase) return "A passphrase is required.";
+  if (Array.from(passphrase).length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  }
+  if (entropy < MIN_PASSPHRASE_ENTROPY) {
+    return "Passphrase is too easy to guess. Add length or mix in other kinds of characters.";
+  }
+  return null;
+};
+
+export function passphraseStrength(passphrase: string): PassphraseStrength {
+  const entropy = estimateEntropy(passphrase);
+  const score = entropy < 28 ? 0 : entropy < 36 ? 1 : entropy < MIN_PASSPHRASE_ENTROPY ? 2 : entropy < 80 ? 3 : 4;
+  return { entropy, score, label: STRENGTH_LABELS[score], error: policyError(passphrase, entropy) };
+}
+
+/** Returns why `passphrase` may not be used for encoding, or `null` if it meets the policy. */
+export function validatePassphrase(passphrase: string | null): string | null {
+  return passphraseStrength(passphrase ?? "").error;
+}
+
+/** Returns why `key` cannot be used for decoding, or `null`. */
+export function validateDecryptionKey(key: string | null): string | null {
+  return key ? null : "A passphrase is required.";
+}
+
+/** Random passphrase such as `k7Qm2-xR9vT-...`, about 116 bits of entropy. */
+export function generatePassphrase(): string {
+  const groups: string[] = [];
+  const limit = 256 - (256 % GENERATED_ALPHABET.length);
+  for (let g = 0; g < GENERATED_GROUPS; g++) {
+    let group = "";
+    while (group.length < GENERATED_GROUP_LENGTH) {
+      const byte = crypto.getRandomValues(new Uint8Array(1))[0];
+      if (byte < limit) group += GENERATED_ALPHABET[byte % GENERATED_ALPHABET.length];
+    }
+    groups.push(group);
+  }
+  return groups.join("-");
+}
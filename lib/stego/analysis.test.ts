@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DETECTION_THRESHOLD, analyzeImage, isLsbPlaneSaturated } from "./analysis";
+import { embedRaw, rawCapacity } from "./lsb";
+
+const WIDTH = 400;
+const HEIGHT = 300;
+
+/** Smooth shading with slight noise, seeded so every run sees the same clean image. */
+const photo = () => {
+  let seed = 1;
+  const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const offset = (y * WIDTH + x) * 4;
+      const shade = 120 + 90 * Math.sin(x / 37 + y / 53) * Math.cos(y / 29);
+      for (let c = 0; c < 3; c++) {
+        pixels[offset + c] = Math.round(shade * (0.7 + 0.15 * c) + (random() + random() + random() - 1.5) * 0.6);
+      }
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+};
+
+/** `photo()` with random bits in the first `share` of its LSB stream. */
+const embedded = (share: number) => {
+  const pixels = photo();
+  const bytes = new Uint8Array(Math.floor(rawCapacity(pixels) * share));
+  for (let offset = 0; offset < bytes.length; offset += 65536) crypto.getRandomValues(bytes.subarray(offset, offset + 65536));
+  embedRaw(pixels, bytes);
+  return pixels;
+};
+
+describe("analyzeImage", () => {
+  it("finds nothing in a clean image", () => {
+    const report = analyzeImage(photo(), WIDTH, HEIGHT);
+    expect(report.embeddingRate).toBeLessThan(DETECTION_THRESHOLD);
+    expect(report.chiSquare.sequentialLength).toBe(0);
+  });
+
+  it("estimates a half-full sequential payload without the chi-square overriding it", () => {
+    const report = analyzeImage(embedded(0.5), WIDTH, HEIGHT);
+    expect(report.embeddingRate).toBeGreaterThan(0.4);
+    expect(report.embeddingRate).toBeLessThan(0.6);
+    expect(report.chiSquare.sequentialLength).toBeGreaterThanOrEqual(0.5 - 1 / 32);
+    expect(report.chiSquare.sequentialLength).toBeLessThan(1);
+  });
+
+  it("reports a full payload as a rate of 1", () => {
+    const report = analyzeImage(embedded(1), WIDTH, HEIGHT);
+    expect(report.chiSquare.sequentialLength).toBe(1);
+    expect(report.embeddingRate).toBe(1);
+  });
+});
+
+describe("isLsbPlaneSaturated", () => {
+  it("tells a fully embedded carrier from a clean one", () => {
+    expect(isLsbPlaneSaturated(photo())).toBe(false);
+    expect(isLsbPlaneSaturated(embedded(1))).toBe(true);
+  });
+
+  it("cannot rule out a carrier of a single colour", () => {
+    expect(isLsbPlaneSaturated(new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(255))).toBe(true);
+  });
+});
@@ -0,0 +1,350 @@
+import { readContainerSize } from "./container";
+import { extract, type ProgressCallback } from "./lsb";
+
+const BYTES_PER_PIXEL = 4;
+const CHI_SQUARE_SEGMENTS = 32;
+// Pairs of values seen fewer times than this are left out of the chi-square sum.
+const MIN_EXPECTED_COUNT = 5;
+const RS_GROUP_SIZE = 4;
+const RS_MASK = [0, 1, 1, 0];
+// Windows whose p-value is above this look randomised.
+const RANDOMISED_P_VALUE = 0.5;
+// A plane of random LSBs scores below this about once in a million carriers; clean photos far below it.
+const SATURATED_P_VALUE = 1e-6;
+
+/** Estimated rates below this are within the noise of a clean photo. */
+export const DETECTION_THRESHOLD = 0.05;
+
+/*
+ * Statistical detectors for LSB replacement, all working on RGBA buffers:
+ *
+ * - Chi-square attack (Westfeld & Pfitzmann): embedding random bits evens out
+ *   the counts of each pair of values 2k and 2k+1. Measured over consecutive
+ *   windows of the channel stream it also shows how far a sequential
+ *   payload reaches.
+ * - RS analysis (Fridrich, Goljan & Du): flipping LSBs changes how smooth
+ *   small pixel groups are in a way that reveals the share already flipped.
+ * - Sample pair analysis (Dumitrescu, Wu & Wang): the same idea from the
+ *   statistics of horizontally adjacent pairs.
+ *
+ * RS and SPA estimate the fraction of LSBs that carry data. All three assume
+ * one bit per channel; deeper embedding shows up as a rate close to 1.
+ */
+
+export interface ChiSquareResult {
+  /** p-value of each 1/32 of the channel stream on its own. Near 1 means the LSBs look random. */
+  curve: number[];
+  /** p-value over the whole image. */
+  pValue: number;
+  /**
+   * Fraction of the stream, from the start, whose windows look randomised.
+   * `analyzeImage` only reports it when RS and SPA detect embedding too.
+   */
+  sequentialLength: number;
+}
+
+/** Estimated fraction of LSBs that carry data, per colour channel, each 0–1. */
+export interface ChannelEstimates {
+  red: number;
+  green: number;
+  blue: number;
+  average: number;
+}
+
+export interface AnalysisReport {
+  chiSquare: ChiSquareResult;
+  rs: ChannelEstimates;
+  spa: ChannelEstimates;
+  /**
+   * Combined RS and SPA estimate of the fraction of LSBs carrying data, 0–1.
+   * Both fall well short of 1 when nearly every LSB is used, so a stream that
+   * looks randomised from end to end sets it to 1.
+   */
+  embeddingRate: number;
+  /** Declared size of a Stagno container stored without scattering, or `null` if there is none. */
+  stagnoContainerSize: number | null;
+}
+
+const clampRate = (rate: number) => (Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 0);
+
+const toEstimates = (red: number, green: number, blue: number): ChannelEstimates => {
+  const rates = [red, green, blue].map(clampRate);
+  return { red: rates[0], green: rates[1], blue: rates[2], average: (rates[0] + rates[1] + rates[2]) / 3 };
+};
+
+// Lanczos approximation, accurate to about 15 digits for x > 0.
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  x -= 1;
+  let sum = 0.99999999999980993;
+  for (let i = 0; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i + 1);
+  const t = x + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+/** Regularised upper incomplete gamma function Q(a, x), by series or continued fraction. */
+const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000 && Math.abs(term) > Math.abs(sum) * 1e-15; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * Math.exp(logPrefix);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < 1000; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(logPrefix) * h;
+};
+
+const chiSquarePValue = (histogram: Uint32Array): number => {
+  let statistic = 0;
+  let categories = 0;
+  for (let k = 0; k < 256; k += 2) {
+    const expected = (histogram[k] + histogram[k + 1]) / 2;
+    if (expected < MIN_EXPECTED_COUNT) continue;
+    statistic += ((histogram[k] - expected) ** 2) / expected;
+    categories++;
+  }
+  if (categories < 2) return 0;
+  return upperGamma((categories - 1) / 2, statistic / 2);
+};
+
+/**
+ * Runs the chi-square attack over the R/G/B channel stream in pixel order.
+ * Each window is tested on its own: over growing prefixes, a randomised start
+ * keeps the p-value high long after the payload ends.
+ */
+export function chiSquareAttack(pixels: Uint8ClampedArray, onProgress?: ProgressCallback): ChiSquareResult {
+  const total = new Uint32Array(256);
+  const counts = new Uint32Array(256);
+  const pixelCount = Math.floor(pixels.length / BYTES_PER_PIXEL);
+  const curve: number[] = [];
+  let pixel = 0;
+  for (let segment = 1; segment <= CHI_SQUARE_SEGMENTS; segment++) {
+    const end = Math.round((pixelCount * segment) / CHI_SQUARE_SEGMENTS);
+    counts.fill(0);
+    for (; pixel < end; pixel++) {
+      const offset = pixel * BYTES_PER_PIXEL;
+      counts[pixels[offset]]++;
+      counts[pixels[offset + 1]]++;
+      counts[pixels[offset + 2]]++;
+    }
+    for (let value = 0; value < 256; value++) total[value] += counts[value];
+    curve.push(chiSquarePValue(counts));
+    onProgress?.(segment / CHI_SQUARE_SEGMENTS);
+  }
+
+  let randomised = 0;
+  while (randomised < curve.length && curve[randomised] > RANDOMISED_P_VALUE) randomised++;
+  return { curve, pValue: chiSquarePValue(total), sequentialLength: randomised / CHI_SQUARE_SEGMENTS };
+}
+
+/**
+ * Whether the LSB of every colour channel of the opaque pixels could be random
+ * data, as in a carrier filled with deniable layers. Cheap enough to run
+ * before a key derivation it saves; carriers with too few distinct colours to
+ * tell count as saturated.
+ */
+export function isLsbPlaneSaturated(pixels: Uint8ClampedArray): boolean {
+  const histogram = new Uint32Array(256);
+  for (let offset = 0; offset + BYTES_PER_PIXEL <= pixels.length; offset += BYTES_PER_PIXEL) {
+    if (pixels[offset + 3] !== 255) continue;
+    histogram[pixels[offset]]++;
+    histogram[pixels[offset + 1]]++;
+    histogram[pixels[offset + 2]]++;
+  }
+  let pairs = 0;
+  for (let k = 0; k < 256; k += 2) if (histogram[k] + histogram[k + 1] >= 2 * MIN_EXPECTED_COUNT) pairs++;
+  return pairs < 2 || chiSquarePValue(histogram) >= SATURATED_P_VALUE;
+}
+
+// Smoothness of a group: the sum of absolute differences of neighbours.
+const variation = (group: Int16Array) => {
+  let sum = 0;
+  for (let i = 1; i < group.length; i++) sum += Math.abs(group[i] - group[i - 1]);
+  return sum;
+};
+
+const flipPositive = (value: number) => value ^ 1;
+const flipNegative = (value: number) => ((value + 1) ^ 1) - 1;
+
+/** Fractions of regular and singular groups under the mask M and its negation -M. */
+interface RsCounts {
+  regular: number;
+  singular: number;
+  negativeRegular: number;
+  negativeSingular: number;
+}
+
+const rsCounts = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  channel: number,
+  flipAll: boolean
+): RsCounts => {
+  const group = new Int16Array(RS_GROUP_SIZE);
+  const flipped = new Int16Array(RS_GROUP_SIZE);
+  let groups = 0;
+  let regular = 0;
+  let singular = 0;
+  let negativeRegular = 0;
+  let negativeSingular = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x + RS_GROUP_SIZE <= width; x += RS_GROUP_SIZE) {
+      for (let i = 0; i < RS_GROUP_SIZE; i++) {
+        const value = pixels[(y * width + x + i) * BYTES_PER_PIXEL + channel];
+        group[i] = flipAll ? value ^ 1 : value;
+      }
+      const original = variation(group);
+
+      for (let i = 0; i < RS_GROUP_SIZE; i++) flipped[i] = RS_MASK[i] ? flipPositive(group[i]) : group[i];
+      const positive = variation(flipped);
+      for (let i = 0; i < RS_GROUP_SIZE; i++) flipped[i] = RS_MASK[i] ? flipNegative(group[i]) : group[i];
+      const negative = variation(flipped);
+
+      groups++;
+      if (positive > original) regular++;
+      else if (positive < original) singular++;
+      if (negative > original) negativeRegular++;
+      else if (negative < original) negativeSingular++;
+    }
+  }
+  const total = Math.max(1, groups);
+  return {
+    regular: regular / total,
+    singular: singular / total,
+    negativeRegular: negativeRegular / total,
+    negativeSingular: negativeSingular / total,
+  };
+};
+
+/** Smaller-magnitude root of a·x² + b·x + c, or `NaN` if there is none. */
+const smallerRoot = (a: number, b: number, c: number): number => {
+  if (Math.abs(a) < 1e-12) return Math.abs(b) < 1e-12 ? NaN : -c / b;
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return NaN;
+  const root = Math.sqrt(discriminant);
+  const x1 = (-b + root) / (2 * a);
+  const x2 = (-b - root) / (2 * a);
+  return Math.abs(x1) < Math.abs(x2) ? x1 : x2;
+};
+
+const rsRate = (pixels: Uint8ClampedArray, width: number, height: number, channel: number): number => {
+  const cover = rsCounts(pixels, width, height, channel, false);
+  const flipped = rsCounts(pixels, width, height, channel, true);
+  const d0 = cover.regular - cover.singular;
+  const d1 = flipped.regular - flipped.singular;
+  const negativeD0 = cover.negativeRegular - cover.negativeSingular;
+  const negativeD1 = flipped.negativeRegular - flipped.negativeSingular;
+  const x = smallerRoot(2 * (d1 + d0), negativeD0 - negativeD1 - d1 - 3 * d0, d0 - negativeD0);
+  return x / (x - 0.5);
+};
+
+/** RS analysis on horizontal groups of four pixels, per channel. */
+export function rsAnalysis(pixels: Uint8ClampedArray, width: number, height: number): ChannelEstimates {
+  return toEstimates(rsRate(pixels, width, height, 0), rsRate(pixels, width, height, 1), rsRate(pixels, width, height, 2));
+}
+
+const spaRate = (pixels: Uint8ClampedArray, width: number, height: number, channel: number): number => {
+  // X: pairs whose LSB-free values differ in the "expected" direction, Y: the opposite,
+  // Z: equal pairs, W: pairs of Y that differ only in the LSB.
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  let w = 0;
+  let pairs = 0;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col + 1 < width; col++) {
+      const offset = (row * width + col) * BYTES_PER_PIXEL + channel;
+      const u = pixels[offset];
+      const v = pixels[offset + BYTES_PER_PIXEL];
+      pairs++;
+      if (u === v) {
+        z++;
+      } else if ((v & 1) === 0 ? u < v : u > v) {
+        x++;
+      } else {
+        y++;
+        if (u >> 1 === v >> 1) w++;
+      }
+    }
+  }
+  return smallerRoot((w + z) / 2, 2 * x - pairs, y - x);
+};
+
+/** Sample pair analysis on horizontally adjacent pixels, per channel. */
+export function samplePairAnalysis(pixels: Uint8ClampedArray, width: number, height: number): ChannelEstimates {
+  return toEstimates(spaRate(pixels, width, height, 0), spaRate(pixels, width, height, 1), spaRate(pixels, width, height, 2));
+}
+
+/**
+ * One bit of one channel as a black-and-white RGBA image of the same size:
+ * white where the bit is set. `channel` is 0, 1 or 2 for R, G or B.
+ */
+export function bitPlane(pixels: Uint8ClampedArray, channel: number, bit: number): Uint8ClampedArray {
+  const plane = new Uint8ClampedArray(pixels.length);
+  for (let offset = 0; offset < pixels.length; offset += BYTES_PER_PIXEL) {
+    const value = (pixels[offset + channel] >> bit) & 1 ? 255 : 0;
+    plane[offset] = value;
+    plane[offset + 1] = value;
+    plane[offset + 2] = value;
+    plane[offset + 3] = 255;
+  }
+  return plane;
+}
+
+const findStagnoContainer = (pixels: Uint8ClampedArray): number | null => {
+  const container = extract(pixels);
+  return container && readContainerSize(container);
+};
+
+/** Runs every detector. Progress covers the chi-square, RS and SPA passes in turn. */
+export function analyzeImage(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  onProgress?: ProgressCallback
+): AnalysisReport {
+  const attack = chiSquareAttack(pixels, (fraction) => onProgress?.(fraction / 3));
+  const rs = rsAnalysis(pixels, width, height);
+  onProgress?.(2 / 3);
+  const spa = samplePairAnalysis(pixels, width, height);
+  onProgress?.(1);
+
+  // Noisy regions of a clean image can look randomised to the chi-square test alone.
+  const rate = (rs.average + spa.average) / 2;
+  const sequentialLength = rate >= DETECTION_THRESHOLD ? attack.sequentialLength : 0;
+  return {
+    chiSquare: { ...attack, sequentialLength },
+    rs,
+    spa,
+    embeddingRate: sequentialLength === 1 ? 1 : rate,
+    stagnoContainerSize: findStagnoContainer(pixels),
+  };
+}
@@ -0,0 +1,38 @@
+/** Maps each char code (0–255) of `value` to one byte. */
+export function latin1ToBytes(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+export function bytesToLatin1(bytes: Uint8Array): string {
+  let value = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value += String.fromCharCode(bytes[i]);
+  }
+  return value;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(bytesToLatin1(bytes));
+}
+
+export function base64ToBytes(value: string): Uint8Array {
+  return latin1ToBytes(atob(value));
+}
+
+/** Number of bytes `value` occupies when encoded as UTF-8. */
+export function utf8Length(value: string): number {
+  return utf8Encode(value).length;
+}
+
+export function utf8Encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+/** Decodes UTF-8 strictly; throws on malformed input instead of inserting U+FFFD. */
+export function utf8Decode(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
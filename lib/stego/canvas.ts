@@ -0,0 +1,31 @@
+// Browser-only helpers that move images between data URLs and raw pixels.
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject("Failed to load image.");
+    img.src = src;
+  });
+}
+
+export async function loadImageData(src: string): Promise<ImageData> {
+  const img = await loadImage(src);
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw "Failed to get canvas context.";
+  canvas.width = img.width;
+  canvas.height = img.height;
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+}
+
+export function imageDataToDataUrl(imageData: ImageData): string {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw "Failed to get canvas context.";
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL();
+}
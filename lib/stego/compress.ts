@@ -0,0 +1,42 @@
+import { Inflate, deflateSync } from "fflate";
+
+/**
+ * Most bytes `decompress` will produce. A few kilobytes of DEFLATE can expand
+ * to gigabytes, so a crafted carrier could otherwise exhaust the decoder's
+ * memory; anything this large would not be shown in a browser anyway.
+ */
+export const MAX_INFLATED_SIZE = 64 * 1024 * 1024;
+
+// Input is fed in slices so a runaway stream is stopped after at most ~1 MB of extra output.
+const INFLATE_CHUNK_SIZE = 1024;
+
+/** Raw DEFLATE at the highest level; payloads are small enough that speed does not matter. */
+export function compress(bytes: Uint8Array): Uint8Array {
+  return deflateSync(bytes, { level: 9 });
+}
+
+/** Reverses `compress`. Throws on malformed input or if the output would exceed `maxLength` bytes. */
+export function decompress(bytes: Uint8Array, maxLength = MAX_INFLATED_SIZE): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let finished = false;
+  const inflater = new Inflate((chunk, final) => {
+    length += chunk.length;
+    if (length > maxLength) throw new Error(`Decompressed data exceeds ${maxLength} bytes`);
+    chunks.push(chunk);
+    finished = final;
+  });
+  for (let offset = 0; offset < bytes.length; offset += INFLATE_CHUNK_SIZE) {
+    const end = Math.min(offset + INFLATE_CHUNK_SIZE, bytes.length);
+    inflater.push(bytes.subarray(offset, end), end === bytes.length);
+  }
+  if (!finished) throw new Error("Truncated DEFLATE stream");
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
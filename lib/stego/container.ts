@@ -0,0 +1,171 @@
+import { crc32 } from "./crc32";
+import type { ErrorCorrection } from "./ecc";
+
+/*
+ * Container layout (all integers big-endian):
+ *
+ *   magic "STGO" (4) | version (1) | flags (1) | body length (4) | CRC-32 of body (4)
+ *   body: section count (1) | count × [type (1) | length (4)] | section data...
+ *
+ * Flags, low bit first: bits 0–1 hold the LSB depth of the body minus one,
+ * bit 2 is set when the bits are scattered in a key-dependent order,
+ * bit 3 when every content section (text, image, file) was DEFLATE-compressed
+ * before encryption, bit 4 when the alpha channel of translucent pixels
+ * carries bits too, bits 5–6 hold the error-correction level (see `ecc.ts`),
+ * and bit 7 is set when the body is matrix-coded at one bit per channel, in
+ * which case bits 0–1 hold the number of Hamming parity bits minus two.
+ */
+
+export const MAGIC = Uint8Array.of(0x53, 0x54, 0x47, 0x4f);
+export const FORMAT_VERSION = 3;
+/**
+ * Oldest version still accepted. Versions 1 and 2 used CryptoJS passphrase
+ * AES, version 1 additionally storing section data as base64 text.
+ */
+export const MIN_FORMAT_VERSION = 1;
+export const HEADER_SIZE = 14;
+
+const SECTION_ENTRY_SIZE = 5;
+const MAX_SECTIONS = 255;
+
+const DEPTH_MASK = 0b11;
+const SCATTERED_FLAG = 0b100;
+export const COMPRESSED_FLAG = 0b1000;
+const ALPHA_FLAG = 0b10000;
+const ERROR_CORRECTION_SHIFT = 5;
+const ERROR_CORRECTION_MASK = 0b11 << ERROR_CORRECTION_SHIFT;
+const MATRIX_FLAG = 0b10000000;
+const EMBEDDING_MASK = DEPTH_MASK | SCATTERED_FLAG | ALPHA_FLAG | ERROR_CORRECTION_MASK | MATRIX_FLAG;
+export const MIN_HAMMING_BITS = 2;
+export const MAX_HAMMING_BITS = 5;
+
+export interface EmbeddingFlags {
+  bitsPerChannel: number;
+  scattered: boolean;
+  alpha: boolean;
+  errorCorrection: ErrorCorrection;
+  /** Parity bits of the Hamming code the body is matrix-coded with, 0 when it is not. */
+  hammingBits: number;
+}
+
+export const SectionType = {
+  Text: 1,
+  Image: 2,
+  File: 3,
+  /** Unencrypted parameters needed to derive the key: a PBKDF2 salt or an ephemeral ECDH public key. */
+  KeyDerivation: 4,
+  /** Encrypted ECDSA signature over the content sections, with the signer's public key. */
+  Signature: 5,
+  /** One piece of a sealed container split across several carriers; see `shard.ts`. */
+  Shard: 6,
+  /** One Shamir share of a sealed container, any `threshold` of which rebuild it; see `shamir.ts`. */
+  Share: 7,
+} as const;
+export type SectionType = (typeof SectionType)[keyof typeof SectionType];
+
+export interface Section {
+  type: SectionType;
+  data: Uint8Array;
+}
+
+export interface Container {
+  version: number;
+  flags: number;
+  sections: Section[];
+}
+
+/** Total container size in bytes for sections of the given data lengths. */
+export function containerSize(sectionLengths: number[]): number {
+  return HEADER_SIZE + 1 + sectionLengths.length * SECTION_ENTRY_SIZE + sectionLengths.reduce((a, b) => a + b, 0);
+}
+
+export function encodeContainer(sections: Section[], flags = 0): Uint8Array {
+  if (sections.length > MAX_SECTIONS) throw new Error(`A container holds at most ${MAX_SECTIONS} sections.`);
+
+  const bytes = new Uint8Array(containerSize(sections.map((section) => section.data.length)));
+  const view = new DataView(bytes.buffer);
+
+  let offset = HEADER_SIZE;
+  bytes[offset++] = sections.length;
+  for (const section of sections) {
+    bytes[offset] = section.type;
+    view.setUint32(offset + 1, section.data.length);
+    offset += SECTION_ENTRY_SIZE;
+  }
+  for (const section of sections) {
+    bytes.set(section.data, offset);
+    offset += section.data.length;
+  }
+
+  const body = bytes.subarray(HEADER_SIZE);
+  bytes.set(MAGIC, 0);
+  bytes[4] = FORMAT_VERSION;
+  bytes[5] = flags;
+  view.setUint32(6, body.length);
+  view.setUint32(10, crc32(body));
+  return bytes;
+}
+
+/** Whether `header` starts with the container magic bytes. */
+export function hasMagic(header: Uint8Array): boolean {
+  return header.length >= MAGIC.length && MAGIC.every((byte, i) => header[i] === byte);
+}
+
+/** Reads the total container size (header included) from its first `HEADER_SIZE` bytes. */
+export function readContainerSize(header: Uint8Array): number {
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  return HEADER_SIZE + view.getUint32(6);
+}
+
+/** How the container was laid out in its carrier. */
+export function readEmbeddingFlags(header: Uint8Array): EmbeddingFlags {
+  const matrix = (header[5] & MATRIX_FLAG) !== 0;
+  return {
+    bitsPerChannel: matrix ? 1 : (header[5] & DEPTH_MASK) + 1,
+    scattered: (header[5] & SCATTERED_FLAG) !== 0,
+    alpha: (header[5] & ALPHA_FLAG) !== 0,
+    errorCorrection: ((header[5] & ERROR_CORRECTION_MASK) >> ERROR_CORRECTION_SHIFT) as ErrorCorrection,
+    hammingBits: matrix ? (header[5] & DEPTH_MASK) + MIN_HAMMING_BITS : 0,
+  };
+}
+
+/** Returns a copy of `container` whose flags record `embedding`. The checksum only covers the body. */
+export function withEmbeddingFlags(container: Uint8Array, embedding: EmbeddingFlags): Uint8Array {
+  const copy = container.slice();
+  copy[5] &= ~EMBEDDING_MASK;
+  if (embedding.hammingBits > 0) copy[5] |= MATRIX_FLAG | ((embedding.hammingBits - MIN_HAMMING_BITS) & DEPTH_MASK);
+  else copy[5] |= (embedding.bitsPerChannel - 1) & DEPTH_MASK;
+  if (embedding.scattered) copy[5] |= SCATTERED_FLAG;
+  if (embedding.alpha) copy[5] |= ALPHA_FLAG;
+  copy[5] |= (embedding.errorCorrection << ERROR_CORRECTION_SHIFT) & ERROR_CORRECTION_MASK;
+  return copy;
+}
+
+/** Parses and validates a container. Throws if it is truncated, unknown or corrupted. */
+export function decodeContainer(bytes: Uint8Array): Container {
+  if (bytes.length < HEADER_SIZE || !hasMagic(bytes)) throw new Error("No hidden data found");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[4];
+  const flags = bytes[5];
+  if (version < MIN_FORMAT_VERSION || version > FORMAT_VERSION) throw new Error(`Unsupported format version ${version}`);
+
+  const size = readContainerSize(bytes);
+  if (bytes.length < size) throw new Error("Hidden data is truncated");
+  const body = bytes.subarray(HEADER_SIZE, size);
+  if (crc32(body) !== view.getUint32(10)) throw new Error("Hidden data is corrupted (checksum mismatch)");
+
+  const count = body[0];
+  let entryOffset = 1;
+  let dataOffset = 1 + count * SECTION_ENTRY_SIZE;
+  const sections: Section[] = [];
+  for (let i = 0; i < count; i++) {
+    const type = body[entryOffset] as SectionType;
+    const length = view.getUint32(HEADER_SIZE + entryOffset + 1);
+    if (dataOffset + length > body.length) throw new Error("Hidden data is corrupted (section out of bounds)");
+    sections.push({ type, data: body.slice(dataOffset, dataOffset + length) });
+    entryOffset += SECTION_ENTRY_SIZE;
+    dataOffset += length;
+  }
+  return { version, flags, sections };
+}
@@ -0,0 +1,152 @@
+import { utf8Encode } from "./bytes";
+
+/** PBKDF2-SHA256 work factor for new containers; stored alongside the salt so it can be raised later. */
+export const DEFAULT_KDF_ITERATIONS = 600_000;
+/** Most PBKDF2 iterations a container may ask for, so a crafted one cannot stall the decoder. */
+export const MAX_KDF_ITERATIONS = 10 * DEFAULT_KDF_ITERATIONS;
+
+/** Curve used for recipient (public-key) encryption. */
+export const ECDH_ALGORITHM = { name: "ECDH", namedCurve: "P-256" } as const;
+
+const KDF_PBKDF2_SHA256_AES_GCM = 1;
+const KDF_ECDH_P256_HKDF_SHA256_AES_GCM = 2;
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+// Uncompressed SEC1 point: 0x04 | x (32) | y (32).
+const EC_PUBLIC_KEY_SIZE = 65;
+export const KDF_PARAMS_SIZE = 1 + 4 + SALT_SIZE;
+export const RECIPIENT_PARAMS_SIZE = 1 + EC_PUBLIC_KEY_SIZE;
+
+const HKDF_INFO = utf8Encode("stagno:recipient");
+
+/*
+ * Key-derivation section layout, by algorithm byte:
+ *   1: algorithm (1) | iterations (4, big-endian) | salt (16)  - passphrase
+ *   2: algorithm (1) | ephemeral ECDH public key (65)          - recipient public key
+ * Each encrypted section is: IV (12) | AES-256-GCM ciphertext with its 16-byte tag.
+ */
+
+export type KdfParams =
+  | { kind: "passphrase"; iterations: number; salt: Uint8Array }
+  | { kind: "recipient"; ephemeralPublicKey: Uint8Array };
+
+const assertKey = (key: string) => {
+  if (!key) throw new Error("Encryption key is required.");
+};
+
+/** Length of the section `encryptSection` produces for `byteLength` bytes of plaintext. */
+export function encryptedSize(byteLength: number): number {
+  return IV_SIZE + byteLength + TAG_SIZE;
+}
+
+const assertIterations = (iterations: number) => {
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_KDF_ITERATIONS) {
+    throw new Error(`Key derivation must use between 1 and ${MAX_KDF_ITERATIONS} iterations.`);
+  }
+};
+
+export function createKdfParams(iterations = DEFAULT_KDF_ITERATIONS): KdfParams {
+  assertIterations(iterations);
+  return { kind: "passphrase", iterations, salt: crypto.getRandomValues(new Uint8Array(SALT_SIZE)) };
+}
+
+export function encodeKdfParams(params: KdfParams): Uint8Array {
+  if (params.kind === "recipient") {
+    const bytes = new Uint8Array(RECIPIENT_PARAMS_SIZE);
+    bytes[0] = KDF_ECDH_P256_HKDF_SHA256_AES_GCM;
+    bytes.set(params.ephemeralPublicKey, 1);
+    return bytes;
+  }
+  const bytes = new Uint8Array(KDF_PARAMS_SIZE);
+  bytes[0] = KDF_PBKDF2_SHA256_AES_GCM;
+  new DataView(bytes.buffer).setUint32(1, params.iterations);
+  bytes.set(params.salt, 5);
+  return bytes;
+}
+
+export function decodeKdfParams(bytes: Uint8Array): KdfParams {
+  if (bytes.length === RECIPIENT_PARAMS_SIZE && bytes[0] === KDF_ECDH_P256_HKDF_SHA256_AES_GCM) {
+    return { kind: "recipient", ephemeralPublicKey: bytes.slice(1) };
+  }
+  if (bytes.length !== KDF_PARAMS_SIZE || bytes[0] !== KDF_PBKDF2_SHA256_AES_GCM) {
+    throw new Error("Unsupported key derivation");
+  }
+  const iterations = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(1);
+  assertIterations(iterations);
+  return { kind: "passphrase", iterations, salt: bytes.slice(5) };
+}
+
+/** Derives an AES-256-GCM key from a passphrase with PBKDF2-SHA256. */
+export async function deriveKey(passphrase: string, params: KdfParams): Promise<CryptoKey> {
+  assertKey(passphrase);
+  if (params.kind !== "passphrase") throw new Error("Hidden data is not passphrase-protected");
+  const material = await crypto.subtle.importKey("raw", utf8Encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt: params.salt, iterations: params.iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// HKDF turns the raw ECDH output into a uniform key; the ephemeral key doubles as the salt.
+const expandSharedSecret = async (sharedSecret: ArrayBuffer, ephemeralPublicKey: Uint8Array) => {
+  const material = await crypto.subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: ephemeralPublicKey, info: HKDF_INFO },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/**
+ * Agrees a one-off AES-256-GCM key with the holder of `recipientPublicKey`
+ * using a fresh ephemeral ECDH key pair. Only the ephemeral public key is
+ * stored, so nothing in the container identifies the recipient.
+ */
+export async function deriveRecipientKey(recipientPublicKey: CryptoKey): Promise<{ key: CryptoKey; params: KdfParams }> {
+  const ephemeral = await crypto.subtle.generateKey(ECDH_ALGORITHM, true, ["deriveBits"]);
+  const ephemeralPublicKey = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey));
+  const sharedSecret = await crypto.subtle.deriveBits({ name: "ECDH", public: recipientPublicKey }, ephemeral.privateKey, 256);
+  return {
+    key: await expandSharedSecret(sharedSecret, ephemeralPublicKey),
+    params: { kind: "recipient", ephemeralPublicKey },
+  };
+}
+
+/** Recomputes the key `deriveRecipientKey` agreed, from the recipient's side. */
+export async function deriveKeyFromPrivateKey(privateKey: CryptoKey, params: KdfParams): Promise<CryptoKey> {
+  if (params.kind !== "recipient") throw new Error("Hidden data is not encrypted to a public key");
+  const ephemeral = await crypto.subtle.importKey("raw", params.ephemeralPublicKey, ECDH_ALGORITHM, false, []);
+  const sharedSecret = await crypto.subtle.deriveBits({ name: "ECDH", public: ephemeral }, privateKey, 256);
+  return expandSharedSecret(sharedSecret, params.ephemeralPublicKey);
+}
+
+/** Encrypts `data` under a fresh random IV. `associatedData` is authenticated but not stored. */
+export async function encryptSection(key: CryptoKey, data: Uint8Array, associatedData: Uint8Array): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: associatedData }, key, data);
+  const out = new Uint8Array(IV_SIZE + ciphertext.byteLength);
+  out.set(iv);
+  out.set(new Uint8Array(ciphertext), IV_SIZE);
+  return out;
+}
+
+/** Reverses `encryptSection`. Returns `null` when authentication fails, i.e. the key is wrong or the data was altered. */
+export async function decryptSection(key: CryptoKey, data: Uint8Array, associatedData: Uint8Array): Promise<Uint8Array | null> {
+  if (data.length < IV_SIZE + TAG_SIZE) return null;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: data.subarray(0, IV_SIZE), additionalData: associatedData },
+      key,
+      data.subarray(IV_SIZE)
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { HEADER_SIZE, SectionType, encodeContainer } from "./container";
+import { dctCapacity, embedDct, extractDct } from "./dct";
+import { ErrorCorrection } from "./ecc";
+import { compressToDct, decompressToPixels, isJpeg, readJpeg, writeJpeg } from "./jpeg";
+
+/** A smooth gradient with noise, so the coefficients look like a photograph's. */
+const photo = (width: number, height: number) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const noise = crypto.getRandomValues(new Uint8Array(3));
+      pixels[offset] = 32 + Math.floor((x * 160) / width) + (noise[0] & 31);
+      pixels[offset + 1] = 32 + Math.floor((y * 160) / height) + (noise[1] & 31);
+      pixels[offset + 2] = 128 + (noise[2] & 63);
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+};
+
+const container = (length: number) =>
+  encodeContainer([{ type: SectionType.Text, data: crypto.getRandomValues(new Uint8Array(length - HEADER_SIZE - 6)) }]);
+
+describe("DCT embedding", () => {
+  it("round-trips a container through a written and re-read JPEG", () => {
+    const image = compressToDct(photo(96, 64), 96, 64);
+    const data = container(Math.min(200, dctCapacity(image)));
+    const jpeg = writeJpeg(embedDct(image, data));
+    expect(isJpeg(jpeg)).toBe(true);
+    const decoded = readJpeg(jpeg);
+    expect(decoded).not.toBeNull();
+    expect(extractDct(decoded!)).toEqual(data);
+  });
+
+  it("never changes which coefficients can carry bits", () => {
+    const image = compressToDct(photo(64, 64), 64, 64);
+    const before = dctCapacity(image);
+    embedDct(image, container(before));
+    expect(dctCapacity(image)).toBe(before);
+  });
+
+  it("rejects a container larger than the carrier", () => {
+    const image = compressToDct(photo(32, 32), 32, 32);
+    expect(() => embedDct(image, container(dctCapacity(image) + 1))).toThrow(/exceeds the JPEG carrier capacity/);
+  });
+
+  it("finds nothing in a clean JPEG", () => {
+    const jpeg = writeJpeg(compressToDct(photo(64, 64), 64, 64));
+    expect(extractDct(readJpeg(jpeg)!)).toBeNull();
+  });
+});
+
+describe("robust DCT embedding", () => {
+  /** Decodes a JPEG file to pixels and compresses them again, as a chat app would. */
+  const recompress = (jpeg: Uint8Array, width: number, height: number, quality: number) =>
+    writeJpeg(compressToDct(decompressToPixels(readJpeg(jpeg)!), width, height, quality));
+
+  it("survives recompression to a lower quality", () => {
+    const [width, height] = [250, 190];
+    const image = compressToDct(photo(width, height), width, height);
+    const data = container(200);
+    const jpeg = writeJpeg(embedDct(image, data, { robust: true, errorCorrection: ErrorCorrection.High }));
+    for (const quality of [85, 50]) {
+      const extracted = extractDct(readJpeg(recompress(jpeg, width, height, quality))!);
+      expect(extracted?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+    }
+  });
+
+  it("is lost in recompression without robust mode", () => {
+    const image = compressToDct(photo(250, 190), 250, 190);
+    const data = container(200);
+    const jpeg = writeJpeg(embedDct(image, data, { errorCorrection: ErrorCorrection.High }));
+    expect(extractDct(readJpeg(recompress(jpeg, 250, 190, 50))!)?.subarray(HEADER_SIZE)).not.toEqual(data.subarray(HEADER_SIZE));
+  });
+
+  it("needs error correction and a finely quantised carrier", () => {
+    const data = container(40);
+    expect(() => embedDct(compressToDct(photo(128, 128), 128, 128), data, { robust: true })).toThrow(/needs error correction/);
+    expect(() =>
+      embedDct(compressToDct(photo(128, 128), 128, 128, 30), data, { robust: true, errorCorrection: ErrorCorrection.Low })
+    ).toThrow(/too coarsely/);
+  });
+});
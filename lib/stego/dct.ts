@@ -0,0 +1,217 @@
+import { HEADER_SIZE, hasMagic, readContainerSize, readEmbeddingFlags, withEmbeddingFlags } from "./container";
+import { ErrorCorrection, HEADER_PARITY_SIZE, protect, protectedSize, recoverContainer, recoverHeader } from "./ecc";
+import type { DctImage } from "./jpeg";
+import type { EmbedOptions, ExtractOptions, ProgressCallback } from "./lsb";
+
+const BLOCK_SIZE = 64;
+const HEADER_BITS = HEADER_SIZE * 8;
+
+// Robust mode: the lowest AC coefficients of each luminance block, in zigzag order, carry one bit each.
+const ROBUST_COEFFICIENTS = 5;
+// Distance between dequantised values that encode the same bit.
+const ROBUST_STEP = 48;
+
+// Coefficients between progress reports.
+const PROGRESS_INTERVAL = 1 << 16;
+
+/*
+ * Two ways of hiding bits in the quantised coefficients of a JPEG.
+ *
+ * The default is JSteg-style. Only AC coefficients with a magnitude of at
+ * least 2 carry a bit, in the lowest bit of that magnitude: 2 ↔ 3, 4 ↔ 5, …
+ * Embedding never turns a coefficient into 0 or ±1 or back, so the decoder
+ * finds exactly the same usable coefficients. Bits run through the components
+ * in frame order, their blocks row by row and each block in zigzag order. It
+ * changes as little as possible but does not survive recompression.
+ *
+ * Robust mode uses quantisation index modulation on the lowest AC
+ * coefficients of the luminance blocks that cover the image: each is moved to
+ * the nearest dequantised value that is an even (0) or odd (1) multiple of
+ * half of `ROBUST_STEP`. A recompression that requantises those coefficients
+ * with steps well below that leaves most bits readable, chroma subsampling
+ * does not touch them, and the Reed-Solomon code it always uses repairs the
+ * rest. It holds less and changes the image more.
+ */
+
+const isUsable = (value: number) => value >= 2 || value <= -2;
+
+/**
+ * Calls `visit` with the array, index and quantisation step of each usable
+ * coefficient, starting at usable coefficient `start`, until it returns `false`.
+ */
+const walkCoefficients = (
+  image: DctImage,
+  robust: boolean,
+  start: number,
+  visit: (coefficients: Int16Array, index: number, step: number) => boolean
+) => {
+  let skipped = 0;
+  if (robust) {
+    // Padding blocks past the image edge depend on the encoder's subsampling, so only covering blocks count.
+    const { coefficients, blocksPerLine, quantizationTableId } = image.components[0];
+    const table = image.quantizationTables[quantizationTableId]!;
+    const columns = Math.floor(image.width / 8);
+    const rows = Math.floor(image.height / 8);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const block = (row * blocksPerLine + column) * BLOCK_SIZE;
+        for (let k = 1; k <= ROBUST_COEFFICIENTS; k++) {
+          if (skipped < start) {
+            skipped++;
+            continue;
+          }
+          if (!visit(coefficients, block + k, table[k])) return;
+        }
+      }
+    }
+    return;
+  }
+  for (const { coefficients, quantizationTableId } of image.components) {
+    const table = image.quantizationTables[quantizationTableId]!;
+    for (let block = 0; block < coefficients.length; block += BLOCK_SIZE) {
+      for (let index = block + 1; index < block + BLOCK_SIZE; index++) {
+        if (!isUsable(coefficients[index])) continue;
+        if (skipped < start) {
+          skipped++;
+          continue;
+        }
+        if (!visit(coefficients, index, table[index - block])) return;
+      }
+    }
+  }
+};
+
+/** Number of container bytes that fit in the coefficients of `image`, in robust mode if `robust`. */
+export function dctCapacity(image: DctImage, robust = false): number {
+  if (robust) return Math.floor((Math.floor(image.width / 8) * Math.floor(image.height / 8) * ROBUST_COEFFICIENTS) / 8);
+  let usable = 0;
+  walkCoefficients(image, false, 0, () => {
+    usable++;
+    return true;
+  });
+  return Math.floor(usable / 8);
+}
+
+// The bit a robust coefficient carries: the parity of the nearest multiple of half a step.
+const robustBit = (value: number, step: number) => Math.round((value * step) / (ROBUST_STEP / 2)) & 1;
+
+/** The quantised value nearest to `value` that carries `bit` in robust mode. */
+const robustValue = (value: number, step: number, bit: number) => {
+  const offset = (bit * ROBUST_STEP) / 2;
+  const target = Math.round((value * step - offset) / ROBUST_STEP) * ROBUST_STEP + offset;
+  return Math.round(target / step);
+};
+
+const writeBits = (image: DctImage, robust: boolean, bytes: Uint8Array, start: number, onProgress?: ProgressCallback) => {
+  const bits = bytes.length * 8;
+  let bit = 0;
+  let changes = 0;
+  walkCoefficients(image, robust, start, (coefficients, index, step) => {
+    if (onProgress && (bit & (PROGRESS_INTERVAL - 1)) === 0) onProgress(bit / bits);
+    const value = (bytes[bit >> 3] >> (7 - (bit & 7))) & 1;
+    if (robust) {
+      const updated = robustValue(coefficients[index], step, value);
+      if (updated !== coefficients[index]) {
+        coefficients[index] = updated;
+        changes++;
+      }
+      return ++bit < bits;
+    }
+    const magnitude = Math.abs(coefficients[index]);
+    if ((magnitude & 1) !== value) {
+      coefficients[index] = Math.sign(coefficients[index]) * (magnitude ^ 1);
+      changes++;
+    }
+    return ++bit < bits;
+  });
+  return changes;
+};
+
+const readBits = (image: DctImage, robust: boolean, count: number, start: number, onProgress?: ProgressCallback) => {
+  const bytes = new Uint8Array(count);
+  const bits = count * 8;
+  let bit = 0;
+  if (bits === 0) return bytes;
+  walkCoefficients(image, robust, start, (coefficients, index, step) => {
+    if (onProgress && (bit & (PROGRESS_INTERVAL - 1)) === 0) onProgress(bit / bits);
+    const value = robust ? robustBit(coefficients[index], step) : Math.abs(coefficients[index]) & 1;
+    bytes[bit >> 3] |= value << (7 - (bit & 7));
+    return ++bit < bits;
+  });
+  return bytes;
+};
+
+export interface DctEmbedOptions extends Pick<EmbedOptions, "errorCorrection" | "onProgress" | "onEmbedded"> {
+  /** Embed so that the data survives recompression; needs error correction. */
+  robust?: boolean;
+}
+
+/**
+ * Hides an encoded container in the coefficients of `image`, which is modified
+ * in place and returned. Robust mode needs quantisation steps of at most a
+ * quarter of its own on the coefficients it uses, as in a freshly compressed image.
+ */
+export function embedDct(image: DctImage, container: Uint8Array, options: DctEmbedOptions = {}): DctImage {
+  const { robust = false, errorCorrection = ErrorCorrection.None } = options;
+  if (robust && errorCorrection === ErrorCorrection.None) {
+    throw new Error("Robust JPEG embedding needs error correction.");
+  }
+  const luminance = image.quantizationTables[image.components[0].quantizationTableId]!;
+  if (robust && luminance.subarray(1, ROBUST_COEFFICIENTS + 1).some((step) => step > ROBUST_STEP / 4)) {
+    throw new Error("The JPEG is quantised too coarsely for robust embedding.");
+  }
+  const bytes = protect(
+    withEmbeddingFlags(container, { bitsPerChannel: 1, scattered: false, alpha: false, errorCorrection, hammingBits: 0 }),
+    errorCorrection
+  );
+  const available = dctCapacity(image, robust);
+  if (bytes.length > available) {
+    throw new Error(`Payload of ${bytes.length} bytes exceeds the JPEG carrier capacity of ${available} bytes.`);
+  }
+  const changes = writeBits(image, robust, bytes, 0, options.onProgress);
+  options.onProgress?.(1);
+  options.onEmbedded?.({ bits: bytes.length * 8, changes });
+  return image;
+}
+
+const extractFrom = (image: DctImage, robust: boolean, options: Omit<ExtractOptions, "scatter">): Uint8Array | null => {
+  // A header without the magic, or flagged as protected, is checked against the parity that follows it.
+  let header: Uint8Array = readBits(image, robust, HEADER_SIZE, 0);
+  let corrected = 0;
+  if (!hasMagic(header) || readEmbeddingFlags(header).errorCorrection !== ErrorCorrection.None) {
+    const recovered = recoverHeader(header, readBits(image, robust, HEADER_PARITY_SIZE, HEADER_BITS));
+    if (
+      recovered &&
+      hasMagic(recovered.header) &&
+      readEmbeddingFlags(recovered.header).errorCorrection !== ErrorCorrection.None
+    ) {
+      ({ header, corrected } = recovered);
+    } else if (!hasMagic(header)) {
+      return null;
+    }
+  }
+
+  const { errorCorrection } = readEmbeddingFlags(header);
+  const available = dctCapacity(image, robust);
+  const bodySize = Math.max(0, Math.min(protectedSize(readContainerSize(header), errorCorrection), available) - HEADER_SIZE);
+  const body = readBits(image, robust, bodySize, HEADER_BITS, options.onProgress);
+  options.onProgress?.(1);
+
+  if (errorCorrection !== ErrorCorrection.None) {
+    const recovered = recoverContainer(header, body);
+    options.onCorrected?.(corrected + recovered.corrected);
+    return recovered.container;
+  }
+  const container = new Uint8Array(HEADER_SIZE + bodySize);
+  container.set(header);
+  container.set(body, HEADER_SIZE);
+  return container;
+};
+
+/**
+ * Reads a container back out of the coefficients of `image`, or `null` if none
+ * is hidden there. The exact layout is tried first, then the robust one.
+ */
+export function extractDct(image: DctImage, options: Omit<ExtractOptions, "scatter"> = {}): Uint8Array | null {
+  return extractFrom(image, false, options) ?? extractFrom(image, true, options);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { HEADER_SIZE, SectionType, encodeContainer, readEmbeddingFlags } from "./container";
+import { ErrorCorrection, protectedSize } from "./ecc";
+import { embed, extract } from "./lsb";
+import { rsDecode, rsEncode } from "./reedsolomon";
+
+const carrier = (pixelCount: number) => {
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  crypto.getRandomValues(pixels);
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  return pixels;
+};
+
+const container = (length: number) =>
+  encodeContainer([{ type: SectionType.Text, data: crypto.getRandomValues(new Uint8Array(length - HEADER_SIZE - 6)) }]);
+
+/** Flips the lowest bit of the colour channels of `count` pixels starting at `start`. */
+const damage = (pixels: Uint8ClampedArray, start: number, count: number) => {
+  for (let pixel = start; pixel < start + count; pixel++) {
+    for (let channel = 0; channel < 3; channel++) pixels[pixel * 4 + channel] ^= 1;
+  }
+};
+
+/** `data` followed by its parity bytes. */
+const codewordFor = (data: Uint8Array, parity: number) => {
+  const codeword = new Uint8Array(data.length + parity);
+  codeword.set(data);
+  codeword.set(rsEncode(data, parity), data.length);
+  return codeword;
+};
+
+// Fixed data keeps the beyond-capacity case deterministic; a random codeword could, very rarely, miscorrect.
+const data = Uint8Array.from({ length: 100 }, (_, i) => (i * 37 + 11) & 0xff);
+
+describe("Reed-Solomon codewords", () => {
+  it("corrects up to half as many errors as parity bytes", () => {
+    const codeword = codewordFor(data, 16);
+    for (let i = 0; i < 8; i++) codeword[i * 13] ^= 0x5a;
+    expect(rsDecode(codeword, 16)).toBe(8);
+    expect(codeword.subarray(0, data.length)).toEqual(data);
+  });
+
+  it("gives up on too many errors", () => {
+    const codeword = codewordFor(data, 16);
+    for (let i = 0; i < 12; i++) codeword[i * 9] ^= 0xff;
+    expect(rsDecode(codeword, 16)).toBeNull();
+  });
+});
+
+describe("protected containers", () => {
+  it("repair damaged pixels and report how many bytes were fixed", () => {
+    const data = container(400);
+    const pixels = embed(carrier(4000), data, { errorCorrection: ErrorCorrection.Medium });
+    // About 2% of the protected stream, in one run, well past the header.
+    damage(pixels, 600, 30);
+    let corrected = 0;
+    const extracted = extract(pixels, { onCorrected: (bytes) => (corrected = bytes) });
+    expect(extracted?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+    expect(readEmbeddingFlags(extracted!).errorCorrection).toBe(ErrorCorrection.Medium);
+    expect(corrected).toBeGreaterThan(0);
+  });
+
+  it("repair a damaged header", () => {
+    const data = container(200);
+    const pixels = embed(carrier(2000), data, { errorCorrection: ErrorCorrection.Low });
+    damage(pixels, 0, 4);
+    expect(extract(pixels)?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+  });
+
+  it("grow by the header parity and one parity block per codeword", () => {
+    expect(protectedSize(200, ErrorCorrection.None)).toBe(200);
+    expect(protectedSize(200, ErrorCorrection.Low)).toBe(200 + 16 + 16);
+    expect(protectedSize(200, ErrorCorrection.High)).toBe(200 + 16 + 64);
+  });
+});
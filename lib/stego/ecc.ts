@@ -0,0 +1,113 @@
+import { HEADER_SIZE, readContainerSize, readEmbeddingFlags } from "./container";
+import { MAX_CODEWORD_SIZE, rsDecode, rsEncode } from "./reedsolomon";
+
+/*
+ * Optional Reed-Solomon protection of an embedded container. A protected
+ * stream is laid out as
+ *
+ *   header (14) | header parity (16) | body codewords, interleaved
+ *
+ * The header stays in front and unchanged, so decoders find it as before; its
+ * parity lets them repair it when the magic or flags are damaged. The body is
+ * split into as few codewords as the level allows, with the data spread evenly
+ * over them, and the codewords are interleaved byte by byte: a damaged region
+ * or a cut-off tail of the stream costs every codeword about the same number
+ * of bytes instead of destroying a few outright. Bytes past the end of what
+ * the carrier still holds are decoded as erasures, which cost half as much
+ * parity as errors.
+ */
+
+export const ErrorCorrection = {
+  None: 0,
+  /** 16 parity bytes per codeword: repairs about 3% damaged bytes. */
+  Low: 1,
+  /** 32 parity bytes per codeword: repairs about 6% damaged bytes. */
+  Medium: 2,
+  /** 64 parity bytes per codeword: repairs about 12% damaged bytes. */
+  High: 3,
+} as const;
+export type ErrorCorrection = (typeof ErrorCorrection)[keyof typeof ErrorCorrection];
+
+const PARITY_BYTES: Record<ErrorCorrection, number> = { 0: 0, 1: 16, 2: 32, 3: 64 };
+export const HEADER_PARITY_SIZE = 16;
+
+const codewordLayout = (bodyLength: number, level: ErrorCorrection) => {
+  const parity = PARITY_BYTES[level];
+  const count = Math.max(1, Math.ceil(bodyLength / (MAX_CODEWORD_SIZE - parity)));
+  // The first `longer` codewords hold one data byte more than the rest.
+  return { parity, count, shortLength: Math.floor(bodyLength / count), longer: bodyLength % count };
+};
+
+/** Bytes embedded for a container of `containerLength` bytes at the given level. */
+export function protectedSize(containerLength: number, level: ErrorCorrection): number {
+  if (level === ErrorCorrection.None) return containerLength;
+  const bodyLength = containerLength - HEADER_SIZE;
+  const { parity, count } = codewordLayout(bodyLength, level);
+  return HEADER_SIZE + HEADER_PARITY_SIZE + bodyLength + count * parity;
+}
+
+/** Adds parity to a container whose flags already record `level`. Unprotected containers are returned as they are. */
+export function protect(container: Uint8Array, level: ErrorCorrection): Uint8Array {
+  if (level === ErrorCorrection.None) return container;
+  const header = container.subarray(0, HEADER_SIZE);
+  const body = container.subarray(HEADER_SIZE);
+  const bytes = new Uint8Array(protectedSize(container.length, level));
+  bytes.set(header);
+  bytes.set(rsEncode(header, HEADER_PARITY_SIZE), HEADER_SIZE);
+
+  const stream = bytes.subarray(HEADER_SIZE + HEADER_PARITY_SIZE);
+  const { parity, count, shortLength, longer } = codewordLayout(body.length, level);
+  for (let i = 0, offset = 0; i < count; i++) {
+    const data = body.subarray(offset, offset + shortLength + (i < longer ? 1 : 0));
+    offset += data.length;
+    const check = rsEncode(data, parity);
+    for (let j = 0; j < data.length; j++) stream[j * count + i] = data[j];
+    for (let j = 0; j < parity; j++) stream[(data.length + j) * count + i] = check[j];
+  }
+  return bytes;
+}
+
+/**
+ * Repairs a header with the parity that follows it. Returns the header and
+ * the number of bytes corrected, or `null` if it is beyond repair.
+ */
+export function recoverHeader(header: Uint8Array, parity: Uint8Array): { header: Uint8Array; corrected: number } | null {
+  const codeword = new Uint8Array(HEADER_SIZE + HEADER_PARITY_SIZE);
+  codeword.set(header.subarray(0, HEADER_SIZE));
+  codeword.set(parity.subarray(0, HEADER_PARITY_SIZE), HEADER_SIZE);
+  const corrected = rsDecode(codeword, HEADER_PARITY_SIZE);
+  return corrected === null ? null : { header: codeword.subarray(0, HEADER_SIZE), corrected };
+}
+
+/**
+ * Rebuilds a container from its (repaired) header and the bytes that followed
+ * it in the carrier, starting with the header parity. `stream` may fall short
+ * of the full protected size; the missing bytes are treated as erased.
+ * Codewords beyond repair are passed through as read, leaving the checksum to
+ * report the damage.
+ */
+export function recoverContainer(header: Uint8Array, stream: Uint8Array): { container: Uint8Array; corrected: number } {
+  const bodyLength = readContainerSize(header) - HEADER_SIZE;
+  const codewords = stream.subarray(HEADER_PARITY_SIZE);
+  // Not even the bare body is left: the header is damaged or too much is lost to repair.
+  if (bodyLength > codewords.length) return { container: header.slice(), corrected: 0 };
+
+  const container = new Uint8Array(HEADER_SIZE + bodyLength);
+  container.set(header);
+  const { parity, count, shortLength, longer } = codewordLayout(bodyLength, readEmbeddingFlags(header).errorCorrection);
+  let corrected = 0;
+  for (let i = 0, offset = HEADER_SIZE; i < count; i++) {
+    const dataLength = shortLength + (i < longer ? 1 : 0);
+    const codeword = new Uint8Array(dataLength + parity);
+    const erasures: number[] = [];
+    for (let j = 0; j < codeword.length; j++) {
+      const position = j * count + i;
+      if (position < codewords.length) codeword[j] = codewords[position];
+      else erasures.push(j);
+    }
+    corrected += rsDecode(codeword, parity, erasures) ?? 0;
+    container.set(codeword.subarray(0, dataLength), offset);
+    offset += dataLength;
+  }
+  return { container, corrected };
+}
@@ -0,0 +1,55 @@
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from "./bytes";
+import type { HiddenFile } from "./types";
+
+/*
+ * A file section's plaintext is the file's metadata followed by its bytes:
+ *
+ *   metadata length (2, big-endian) | metadata JSON { name, type, size } | file bytes
+ */
+
+const METADATA_LENGTH_SIZE = 2;
+const MAX_METADATA_LENGTH = 0xffff;
+
+const encodeMetadata = (file: HiddenFile) =>
+  utf8Encode(JSON.stringify({ name: file.name, type: file.type, size: file.data.length }));
+
+/** Size in bytes of the plaintext `packFile` produces for `file`. */
+export function packedFileSize(file: HiddenFile): number {
+  return METADATA_LENGTH_SIZE + encodeMetadata(file).length + file.data.length;
+}
+
+export function packFile(file: HiddenFile): Uint8Array {
+  const metadata = encodeMetadata(file);
+  if (metadata.length > MAX_METADATA_LENGTH) throw new Error("File name is too long.");
+  const out = new Uint8Array(METADATA_LENGTH_SIZE + metadata.length + file.data.length);
+  out[0] = metadata.length >> 8;
+  out[1] = metadata.length & 0xff;
+  out.set(metadata, METADATA_LENGTH_SIZE);
+  out.set(file.data, METADATA_LENGTH_SIZE + metadata.length);
+  return out;
+}
+
+/** Reverses `packFile`. Throws if the metadata is malformed or the size does not match. */
+export function unpackFile(bytes: Uint8Array): HiddenFile {
+  const metadataLength = (bytes[0] << 8) | bytes[1];
+  const dataOffset = METADATA_LENGTH_SIZE + metadataLength;
+  if (dataOffset > bytes.length) throw new Error("File metadata is truncated.");
+
+  const metadata = JSON.parse(utf8Decode(bytes.subarray(METADATA_LENGTH_SIZE, dataOffset)));
+  const data = bytes.slice(dataOffset);
+  if (typeof metadata.name !== "string" || typeof metadata.type !== "string" || metadata.size !== data.length) {
+    throw new Error("File metadata is invalid.");
+  }
+  return { name: metadata.name, type: metadata.type, data };
+}
+
+/** Builds a `HiddenFile` from a base64 data URL as produced by `FileReader.readAsDataURL`. */
+export function fileFromDataUrl(dataUrl: string, name: string): HiddenFile {
+  const match = /^data:([^;,]*)(?:;[^,]*)?;base64,(.*)$/.exec(dataUrl);
+  if (!match) throw new Error(`${name} is not a base64 data URL.`);
+  return { name, type: match[1] || "application/octet-stream", data: base64ToBytes(match[2]) };
+}
+
+export function fileToDataUrl(file: HiddenFile): string {
+  return `data:${file.type || "application/octet-stream"};base64,${bytesToBase64(file.data)}`;
+}
@@ -0,0 +1,30 @@
+/*
+ * Arithmetic in GF(2^8) with the primitive polynomial 0x11d, shared by the
+ * Reed-Solomon code and Shamir's secret sharing. Addition and subtraction are
+ * both XOR; multiplication goes through log and antilog tables.
+ */
+
+const FIELD_SIZE = 256;
+const PRIMITIVE = 0x11d;
+/** Number of non-zero elements, i.e. the order of the multiplicative group. */
+export const FIELD_ORDER = FIELD_SIZE - 1;
+
+const EXP = new Uint8Array(FIELD_ORDER * 2);
+const LOG = new Uint8Array(FIELD_SIZE);
+(() => {
+  let x = 1;
+  for (let i = 0; i < FIELD_ORDER; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & FIELD_SIZE) x ^= PRIMITIVE;
+  }
+  // Doubling the table saves a modulo in every multiplication.
+  for (let i = FIELD_ORDER; i < EXP.length; i++) EXP[i] = EXP[i - FIELD_ORDER];
+})();
+
+export const mul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+export const div = (a: number, b: number) => (a === 0 ? 0 : EXP[LOG[a] + FIELD_ORDER - LOG[b]]);
+export const inverse = (a: number) => EXP[FIELD_ORDER - LOG[a]];
+/** α raised to `power`, which may be negative. */
+export const alpha = (power: number) => EXP[((power % FIELD_ORDER) + FIELD_ORDER) % FIELD_ORDER];
@@ -0,0 +1,115 @@
+export {
+  MIN_BITS_PER_CHANNEL,
+  MAX_BITS_PER_CHANNEL,
+  SCATTER_SALT_SIZE,
+  capacity,
+  capacityForPixels,
+  capacityForProfile,
+  profileCarrier,
+  minimumCarrierSize,
+  rawCapacity,
+  rawCapacityForProfile,
+  embed,
+  extract,
+  embedRaw,
+  extractRaw,
+  extractTerminated,
+  scatterSalts,
+  type CarrierProfile,
+  type EmbedOptions,
+  type EmbeddingStats,
+  type ExtractOptions,
+  type Scatter,
+} from "./lsb";
+export { deriveSeed } from "./prng";
+export {
+  DEFAULT_KDF_ITERATIONS,
+  MAX_KDF_ITERATIONS,
+  ECDH_ALGORITHM,
+  createKdfParams,
+  deriveKey,
+  deriveRecipientKey,
+  deriveKeyFromPrivateKey,
+  encryptSection,
+  decryptSection,
+  encryptedSize,
+  type KdfParams,
+} from "./crypto";
+export { BASELINE_MAGIC, decryptLegacy, openBaselineMessage, parseBaselineMessage, revealBaselineFromText } from "./legacy";
+export {
+  COMPRESSED_FLAG,
+  FORMAT_VERSION,
+  MIN_FORMAT_VERSION,
+  SectionType,
+  containerSize,
+  decodeContainer,
+  encodeContainer,
+  type Container,
+  type Section,
+} from "./container";
+export {
+  sealMessage,
+  sealedSize,
+  openMessage,
+  type OpenKey,
+  type SealKey,
+  type SealOptions,
+  type SizeOptions,
+} from "./message";
+export { ECDSA_ALGORITHM, keyFingerprint, signSections, verifySections } from "./signature";
+export {
+  DETECTION_THRESHOLD,
+  analyzeImage,
+  bitPlane,
+  chiSquareAttack,
+  rsAnalysis,
+  samplePairAnalysis,
+  type AnalysisReport,
+  type ChannelEstimates,
+  type ChiSquareResult,
+} from "./analysis";
+export {
+  compareCarriers,
+  compareImages,
+  differenceHeatmap,
+  lsbPreview,
+  type CarrierComparison,
+  type PreviewImage,
+  type QualityMetrics,
+} from "./quality";
+export {
+  DEFAULT_JPEG_QUALITY,
+  compressToDct,
+  decompressToPixels,
+  isJpeg,
+  readJpeg,
+  writeJpeg,
+  type DctComponent,
+  type DctImage,
+} from "./jpeg";
+export { dctCapacity, embedDct, extractDct, type DctEmbedOptions } from "./dct";
+export { ErrorCorrection, protectedSize } from "./ecc";
+export { LAYER_SLOTS, buildLayers, layerCapacity, openLayers, type Layer } from "./layers";
+export {
+  MAX_SHARES,
+  MIN_THRESHOLD,
+  combineShares,
+  readShare,
+  shareContainer,
+  shareContainerSize,
+  type Share,
+} from "./shamir";
+export { MAX_SHARDS, joinShards, readShard, shardContainerSize, shardSizes, splitContainer, type Shard } from "./shard";
+export { compress, decompress } from "./compress";
+export { DELIMITER, hideInText, revealFromText } from "./text";
+export {
+  latin1ToBytes,
+  bytesToLatin1,
+  bytesToBase64,
+  base64ToBytes,
+  utf8Encode,
+  utf8Decode,
+  utf8Length,
+} from "./bytes";
+export { packFile, unpackFile, packedFileSize, fileFromDataUrl, fileToDataUrl } from "./files";
+export type { HiddenContent, HiddenFile, RevealedContent, SignatureInfo } from "./types";
@@ -0,0 +1,211 @@
+// Browser-only client for `worker.ts`. Each job gets its own worker, so
+// cancelling is as simple as terminating it, even mid-way through a pixel loop.
+
+import type { AnalysisReport } from "./analysis";
+import type { EmbeddingStats } from "./lsb";
+import type { OpenKey, SealKey, SealOptions } from "./message";
+import type { CarrierComparison } from "./quality";
+import type { HiddenContent } from "./types";
+import type {
+  DecodeResult,
+  JobStage,
+  JpegCarrier,
+  JpegEmbedOptions,
+  LayerContent,
+  Payload,
+  PixelEmbedOptions,
+  WorkerRequest,
+  WorkerResponse,
+} from "./worker";
+
+export type { DecodeResult, JobStage, JpegCarrier, JpegEmbedOptions, LayerContent, Payload, PixelEmbedOptions } from "./worker";
+
+export interface JobProgress {
+  stage: JobStage;
+  /** Completed fraction of the stage, or `null` when it cannot be measured. */
+  fraction: number | null;
+}
+
+export interface JobOptions {
+  /** Aborting terminates the worker and rejects with an `AbortError`. */
+  signal?: AbortSignal;
+  onProgress?: (progress: JobProgress) => void;
+}
+
+/** Whether `error` is the rejection of a cancelled job. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+const runJob = (request: WorkerRequest, transfer: Transferable[], { signal, onProgress }: JobOptions) =>
+  new Promise<WorkerResponse>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Cancelled", "AbortError"));
+      return;
+    }
+    const worker = new Worker(new URL("./worker.ts", import.meta.url));
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new DOMException("Cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", cancel);
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === "progress") {
+        onProgress?.({ stage: response.stage, fraction: response.fraction });
+        return;
+      }
+      finish();
+      if (response.type === "error") reject(new Error(response.message));
+      else resolve(response);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Worker failed"));
+    };
+    worker.postMessage(request, transfer);
+  });
+
+/** Seals `content` in a worker without embedding it, e.g. to split it across several carriers. */
+export async function sealInWorker(
+  content: HiddenContent,
+  key: SealKey,
+  seal: SealOptions = {},
+  job: JobOptions = {}
+): Promise<Uint8Array> {
+  const response = await runJob({ type: "seal", content, key, seal }, [], job);
+  if (response.type !== "sealed") throw new Error("Unexpected worker response");
+  return response.container;
+}
+
+const payloadTransfer = (payload: Payload): Transferable[] => ("container" in payload ? [payload.container.buffer] : []);
+
+/**
+ * Embeds `payload` into `pixels` in a worker, sealing it first unless it is
+ * already a container. `pixels` and a container payload are transferred and
+ * unusable afterwards; the modified buffer is returned with what the
+ * embedding changed.
+ */
+export async function encodeInWorker(
+  pixels: Uint8ClampedArray,
+  payload: Payload,
+  embed: PixelEmbedOptions = {},
+  job: JobOptions = {}
+): Promise<{ pixels: Uint8ClampedArray; stats: EmbeddingStats }> {
+  const request: WorkerRequest = { type: "encode", pixels, payload, embed };
+  const response = await runJob(request, [pixels.buffer, ...payloadTransfer(payload)], job);
+  if (response.type !== "encoded") throw new Error("Unexpected worker response");
+  return { pixels: response.pixels, stats: response.stats };
+}
+
+/**
+ * Hides `payload` in the DCT coefficients of `carrier`, returning the JPEG
+ * file and what the embedding changed. The carrier's buffers and a container
+ * payload are transferred and unusable afterwards.
+ */
+export async function encodeJpegInWorker(
+  carrier: JpegCarrier,
+  payload: Payload,
+  embed: JpegEmbedOptions = {},
+  job: JobOptions = {}
+): Promise<{ jpeg: Uint8Array; stats: EmbeddingStats }> {
+  const transfer: Transferable[] = [carrier.pixels.buffer, ...payloadTransfer(payload)];
+  if (carrier.jpeg) transfer.push(carrier.jpeg.buffer);
+  const request: WorkerRequest = { type: "encodeJpeg", carrier, payload, embed };
+  const response = await runJob(request, transfer, job);
+  if (response.type !== "encodedJpeg") throw new Error("Unexpected worker response");
+  return { jpeg: response.jpeg, stats: response.stats };
+}
+
+/**
+ * Number of container bytes the coefficients of `carrier` hold as JPEG output,
+ * i.e. after compression unless it already is a JPEG, in robust mode if
+ * `robust`. Its buffers are transferred.
+ */
+export async function measureJpegInWorker(carrier: JpegCarrier, robust = false, job: JobOptions = {}): Promise<number> {
+  const transfer: Transferable[] = [carrier.pixels.buffer];
+  if (carrier.jpeg) transfer.push(carrier.jpeg.buffer);
+  const response = await runJob({ type: "measureJpeg", carrier, robust }, transfer, job);
+  if (response.type !== "measured") throw new Error("Unexpected worker response");
+  return response.capacity;
+}
+
+/**
+ * Seals each layer under its passphrase and fills the raw stream of `pixels`
+ * with them and random filler, so no layer can be told apart from unused
+ * space. `pixels` is transferred; the modified buffer is returned.
+ */
+export async function encodeLayersInWorker(
+  pixels: Uint8ClampedArray,
+  layers: LayerContent[],
+  seal: SealOptions = {},
+  job: JobOptions = {}
+): Promise<{ pixels: Uint8ClampedArray; stats: EmbeddingStats }> {
+  const response = await runJob({ type: "encodeLayers", pixels, layers, seal }, [pixels.buffer], job);
+  if (response.type !== "encoded") throw new Error("Unexpected worker response");
+  return { pixels: response.pixels, stats: response.stats };
+}
+
+/** Extracts and opens whatever is hidden in `pixels`, which is transferred to the worker. */
+export async function decodeInWorker(
+  pixels: Uint8ClampedArray,
+  key: OpenKey,
+  scatterKey?: string,
+  job: JobOptions = {}
+): Promise<DecodeResult> {
+  const response = await runJob({ type: "decode", pixels, key, scatterKey }, [pixels.buffer], job);
+  if (response.type !== "decoded") throw new Error("Unexpected worker response");
+  return response.result;
+}
+
+/** Extracts and opens whatever is hidden in the coefficients of a JPEG file, which is transferred to the worker. */
+export async function decodeJpegInWorker(jpeg: Uint8Array, key: OpenKey, job: JobOptions = {}): Promise<DecodeResult> {
+  const response = await runJob({ type: "decodeJpeg", jpeg, key }, [jpeg.buffer], job);
+  if (response.type !== "decoded") throw new Error("Unexpected worker response");
+  return response.result;
+}
+
+/** Opens an already extracted container, e.g. one recovered from a text file. */
+export async function openInWorker(container: Uint8Array | null, key: OpenKey, job: JobOptions = {}): Promise<DecodeResult> {
+  if (container === null) return { revealed: null };
+  const response = await runJob({ type: "open", container, key }, [], job);
+  if (response.type !== "decoded") throw new Error("Unexpected worker response");
+  return response.result;
+}
+
+/** Opens whatever a text file carries after its last delimiter. */
+export async function openTextInWorker(content: string, key: OpenKey, job: JobOptions = {}): Promise<DecodeResult> {
+  const response = await runJob({ type: "openText", content, key }, [], job);
+  if (response.type !== "decoded") throw new Error("Unexpected worker response");
+  return response.result;
+}
+
+/** Runs every steganalysis detector on `pixels`, which is transferred to the worker. */
+export async function analyzeInWorker(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  job: JobOptions = {}
+): Promise<AnalysisReport> {
+  const response = await runJob({ type: "analyze", pixels, width, height }, [pixels.buffer], job);
+  if (response.type !== "analyzed") throw new Error("Unexpected worker response");
+  return response.report;
+}
+
+/** Compares an encoded carrier with its cover. Both buffers are transferred to the worker. */
+export async function compareInWorker(
+  cover: Uint8ClampedArray,
+  encoded: Uint8ClampedArray,
+  width: number,
+  height: number,
+  job: JobOptions = {}
+): Promise<CarrierComparison> {
+  const response = await runJob({ type: "compare", cover, encoded, width, height }, [cover.buffer, encoded.buffer], job);
+  if (response.type !== "compared") throw new Error("Unexpected worker response");
+  return response.comparison;
+}
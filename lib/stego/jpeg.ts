@@ -0,0 +1,752 @@
+import type { ProgressCallback } from "./lsb";
+
+/*
+ * Baseline JPEG codec that stops at the quantised DCT coefficients. Reading a
+ * file and writing it back without touching the coefficients is lossless, so a
+ * payload can be hidden in an existing JPEG without recompressing it; images
+ * from any other source are compressed here first.
+ *
+ * Only baseline and extended sequential Huffman files with 8-bit samples are
+ * read; progressive, arithmetic-coded and lossless files are not. Files are
+ * always written back as baseline with the standard Huffman tables.
+ */
+
+export const DEFAULT_JPEG_QUALITY = 90;
+
+const BLOCK_SIZE = 64;
+
+/** Position in the 8×8 block, row by row, of each coefficient in zigzag order. */
+const ZIGZAG = Uint8Array.of(
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21,
+  28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61,
+  54, 47, 55, 62, 63
+);
+
+export interface DctComponent {
+  id: number;
+  horizontalSampling: number;
+  verticalSampling: number;
+  quantizationTableId: number;
+  /** Size of the block grid, padded to whole MCUs. */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** 64 quantised coefficients per block in zigzag order, blocks row by row. */
+  coefficients: Int16Array;
+}
+
+export interface DctImage {
+  width: number;
+  height: number;
+  /** Quantisation tables in zigzag order, indexed by table id. */
+  quantizationTables: (Uint16Array | undefined)[];
+  components: DctComponent[];
+  /** APPn and COM segments, marker included, written back unchanged after SOI. */
+  metadata: Uint8Array[];
+}
+
+// Standard tables from Annex K of the JPEG specification, in block order.
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51,
+  87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+const CHROMINANCE_QUANTIZATION = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99,
+];
+
+interface HuffmanSpec {
+  /** Number of codes of each length from 1 to 16. */
+  counts: number[];
+  symbols: number[];
+}
+
+const DC_SYMBOLS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const LUMINANCE_DC: HuffmanSpec = { counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0], symbols: DC_SYMBOLS };
+const CHROMINANCE_DC: HuffmanSpec = { counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0], symbols: DC_SYMBOLS };
+const LUMINANCE_AC: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14,
+    0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09,
+    0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a,
+    0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65,
+    0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88,
+    0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9,
+    0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca,
+    0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea,
+    0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+const CHROMINANCE_AC: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32,
+    0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16,
+    0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39,
+    0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64,
+    0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86,
+    0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8,
+    0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9,
+    0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+const Marker = {
+  SOF0: 0xc0,
+  SOF1: 0xc1,
+  DHT: 0xc4,
+  SOI: 0xd8,
+  EOI: 0xd9,
+  SOS: 0xda,
+  DQT: 0xdb,
+  DRI: 0xdd,
+  APP0: 0xe0,
+  APP15: 0xef,
+  COM: 0xfe,
+} as const;
+
+const isRestartMarker = (marker: number) => marker >= 0xd0 && marker <= 0xd7;
+// SOF2–SOF15 other than DHT, JPG and DAC: progressive, lossless or arithmetic coding.
+const isUnsupportedFrame = (marker: number) =>
+  marker >= 0xc2 && marker <= 0xcf && marker !== Marker.DHT && marker !== 0xc8 && marker !== 0xcc;
+
+/** Whether `bytes` starts like a JPEG file. */
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === Marker.SOI && bytes[2] === 0xff;
+}
+
+const corrupted = () => new Error("Corrupted JPEG");
+
+// ---------------------------------------------------------------------------
+// Block layout shared by the reader and the writer.
+
+interface ScanComponent {
+  component: DctComponent;
+  dcTable: number;
+  acTable: number;
+}
+
+/**
+ * Calls `visit` for every block of a scan in coding order. A scan with one
+ * component walks that component's own blocks; an interleaved scan walks MCUs
+ * of `horizontalSampling × verticalSampling` blocks per component.
+ * `onRestart` runs before every `restartInterval`-th MCU but the first.
+ */
+const visitScan = (
+  image: DctImage,
+  scan: ScanComponent[],
+  restartInterval: number,
+  onRestart: () => void,
+  visit: (scanIndex: number, offset: number) => void
+) => {
+  const maxH = Math.max(...image.components.map((c) => c.horizontalSampling));
+  const maxV = Math.max(...image.components.map((c) => c.verticalSampling));
+
+  if (scan.length === 1) {
+    const { component } = scan[0];
+    const blocksWide = Math.ceil(Math.ceil((image.width * component.horizontalSampling) / maxH) / 8);
+    const blocksHigh = Math.ceil(Math.ceil((image.height * component.verticalSampling) / maxV) / 8);
+    for (let n = 0; n < blocksWide * blocksHigh; n++) {
+      if (restartInterval && n > 0 && n % restartInterval === 0) onRestart();
+      const row = Math.floor(n / blocksWide);
+      visit(0, (row * component.blocksPerLine + (n % blocksWide)) * BLOCK_SIZE);
+    }
+    return;
+  }
+
+  const mcusPerLine = Math.ceil(image.width / (8 * maxH));
+  const mcuCount = mcusPerLine * Math.ceil(image.height / (8 * maxV));
+  for (let n = 0; n < mcuCount; n++) {
+    if (restartInterval && n > 0 && n % restartInterval === 0) onRestart();
+    const mcuRow = Math.floor(n / mcusPerLine);
+    const mcuCol = n % mcusPerLine;
+    for (let s = 0; s < scan.length; s++) {
+      const { component } = scan[s];
+      for (let y = 0; y < component.verticalSampling; y++) {
+        for (let x = 0; x < component.horizontalSampling; x++) {
+          const row = mcuRow * component.verticalSampling + y;
+          const col = mcuCol * component.horizontalSampling + x;
+          visit(s, (row * component.blocksPerLine + col) * BLOCK_SIZE);
+        }
+      }
+    }
+  }
+};
+
+const allocateComponents = (image: DctImage) => {
+  const maxH = Math.max(...image.components.map((c) => c.horizontalSampling));
+  const maxV = Math.max(...image.components.map((c) => c.verticalSampling));
+  const mcusPerLine = Math.ceil(image.width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(image.height / (8 * maxV));
+  for (const component of image.components) {
+    component.blocksPerLine = mcusPerLine * component.horizontalSampling;
+    component.blocksPerColumn = mcusPerColumn * component.verticalSampling;
+    component.coefficients = new Int16Array(component.blocksPerLine * component.blocksPerColumn * BLOCK_SIZE);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Reading
+
+interface DecodingTable {
+  maxCode: Int32Array;
+  offsets: Int32Array;
+  symbols: Uint8Array;
+}
+
+const buildDecodingTable = (counts: ArrayLike<number>, symbols: Uint8Array): DecodingTable => {
+  const maxCode = new Int32Array(17);
+  const offsets = new Int32Array(17);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    offsets[length] = index - code;
+    code += count;
+    index += count;
+    maxCode[length] = count ? code - 1 : -1;
+    code <<= 1;
+  }
+  return { maxCode, offsets, symbols };
+};
+
+const decodeScan = (
+  bytes: Uint8Array,
+  start: number,
+  image: DctImage,
+  scan: ScanComponent[],
+  dcTables: DecodingTable[],
+  acTables: DecodingTable[],
+  restartInterval: number
+): number => {
+  let position = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const predictions = new Int32Array(scan.length);
+
+  const readBit = () => {
+    if (bitCount === 0) {
+      if (position >= bytes.length) throw corrupted();
+      const byte = bytes[position];
+      if (byte === 0xff && bytes[position + 1] !== 0) {
+        // A marker ends the entropy-coded data; pad with zeros like libjpeg.
+        bitBuffer = 0;
+      } else {
+        bitBuffer = byte;
+        position += byte === 0xff ? 2 : 1;
+      }
+      bitCount = 8;
+    }
+    bitCount--;
+    return (bitBuffer >> bitCount) & 1;
+  };
+
+  const receive = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | readBit();
+    return value;
+  };
+
+  const extend = (value: number, length: number) => (value < 1 << (length - 1) ? value - (1 << length) + 1 : value);
+
+  const decodeSymbol = (table: DecodingTable) => {
+    let code = 0;
+    for (let length = 1; length <= 16; length++) {
+      code = (code << 1) | readBit();
+      if (code <= table.maxCode[length]) return table.symbols[code + table.offsets[length]];
+    }
+    throw corrupted();
+  };
+
+  const restart = () => {
+    bitCount = 0;
+    while (position + 1 < bytes.length && !(bytes[position] === 0xff && isRestartMarker(bytes[position + 1]))) position++;
+    position += 2;
+    predictions.fill(0);
+  };
+
+  visitScan(image, scan, restartInterval, restart, (s, offset) => {
+    const { component, dcTable, acTable } = scan[s];
+    const coefficients = component.coefficients;
+    const dcLength = decodeSymbol(dcTables[dcTable]);
+    predictions[s] += dcLength === 0 ? 0 : extend(receive(dcLength), dcLength);
+    coefficients[offset] = predictions[s];
+    for (let k = 1; k < BLOCK_SIZE; ) {
+      const symbol = decodeSymbol(acTables[acTable]);
+      const run = symbol >> 4;
+      const length = symbol & 15;
+      if (length === 0) {
+        if (run !== 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k >= BLOCK_SIZE) throw corrupted();
+      coefficients[offset + k] = extend(receive(length), length);
+      k++;
+    }
+  });
+
+  // Skip to the next marker that is not a restart.
+  while (position + 1 < bytes.length && !(bytes[position] === 0xff && bytes[position + 1] !== 0 && !isRestartMarker(bytes[position + 1]))) {
+    position++;
+  }
+  return position;
+};
+
+/**
+ * Parses a JPEG down to its quantised coefficients. Returns `null` if `bytes`
+ * is not a JPEG this codec can read, and throws if it is damaged.
+ */
+export function readJpeg(bytes: Uint8Array): DctImage | null {
+  if (!isJpeg(bytes)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const image: DctImage = { width: 0, height: 0, quantizationTables: [], components: [], metadata: [] };
+  const dcTables: DecodingTable[] = [];
+  const acTables: DecodingTable[] = [];
+  let restartInterval = 0;
+  let hasFrame = false;
+  let hasScan = false;
+  let position = 2;
+
+  while (position + 4 <= bytes.length) {
+    if (bytes[position] !== 0xff) throw corrupted();
+    const marker = bytes[position + 1];
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+    if (marker === Marker.EOI) break;
+    const length = view.getUint16(position + 2);
+    const segment = position + 4;
+    const end = position + 2 + length;
+    if (end > bytes.length) throw corrupted();
+
+    if (marker === Marker.SOF0 || marker === Marker.SOF1) {
+      if (bytes[segment] !== 8) return null;
+      image.height = view.getUint16(segment + 1);
+      image.width = view.getUint16(segment + 3);
+      if (image.width === 0 || image.height === 0) return null;
+      for (let i = 0; i < bytes[segment + 5]; i++) {
+        const base = segment + 6 + i * 3;
+        image.components.push({
+          id: bytes[base],
+          horizontalSampling: bytes[base + 1] >> 4,
+          verticalSampling: bytes[base + 1] & 15,
+          quantizationTableId: bytes[base + 2],
+          blocksPerLine: 0,
+          blocksPerColumn: 0,
+          coefficients: new Int16Array(0),
+        });
+      }
+      allocateComponents(image);
+      hasFrame = true;
+    } else if (isUnsupportedFrame(marker)) {
+      return null;
+    } else if (marker === Marker.DHT) {
+      for (let offset = segment; offset < end; ) {
+        const counts = bytes.subarray(offset + 1, offset + 17);
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const table = buildDecodingTable(counts, bytes.slice(offset + 17, offset + 17 + total));
+        if (bytes[offset] >> 4 === 0) dcTables[bytes[offset] & 15] = table;
+        else acTables[bytes[offset] & 15] = table;
+        offset += 17 + total;
+      }
+    } else if (marker === Marker.DQT) {
+      for (let offset = segment; offset < end; ) {
+        const wide = bytes[offset] >> 4 === 1;
+        const table = new Uint16Array(BLOCK_SIZE);
+        for (let k = 0; k < BLOCK_SIZE; k++) {
+          table[k] = wide ? view.getUint16(offset + 1 + k * 2) : bytes[offset + 1 + k];
+        }
+        image.quantizationTables[bytes[offset] & 15] = table;
+        offset += 1 + BLOCK_SIZE * (wide ? 2 : 1);
+      }
+    } else if (marker === Marker.DRI) {
+      restartInterval = view.getUint16(segment);
+    } else if ((marker >= Marker.APP0 && marker <= Marker.APP15) || marker === Marker.COM) {
+      if (!hasScan) image.metadata.push(bytes.slice(position, end));
+    } else if (marker === Marker.SOS) {
+      if (!hasFrame) throw corrupted();
+      const scan: ScanComponent[] = [];
+      for (let i = 0; i < bytes[segment]; i++) {
+        const component = image.components.find((c) => c.id === bytes[segment + 1 + i * 2]);
+        if (!component) throw corrupted();
+        const tables = bytes[segment + 2 + i * 2];
+        if (!dcTables[tables >> 4] || !acTables[tables & 15]) throw corrupted();
+        scan.push({ component, dcTable: tables >> 4, acTable: tables & 15 });
+      }
+      position = decodeScan(bytes, end, image, scan, dcTables, acTables, restartInterval);
+      hasScan = true;
+      continue;
+    }
+    position = end;
+  }
+
+  return hasScan ? image : null;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+
+const createByteWriter = (initialSize: number) => {
+  let buffer = new Uint8Array(Math.max(1024, initialSize));
+  let length = 0;
+  const byte = (value: number) => {
+    if (length === buffer.length) {
+      const grown = new Uint8Array(buffer.length * 2);
+      grown.set(buffer);
+      buffer = grown;
+    }
+    buffer[length++] = value;
+  };
+  return {
+    byte,
+    word: (value: number) => {
+      byte(value >> 8);
+      byte(value & 0xff);
+    },
+    bytes: (values: ArrayLike<number>) => {
+      for (let i = 0; i < values.length; i++) byte(values[i]);
+    },
+    finish: () => buffer.slice(0, length),
+  };
+};
+
+interface EncodingTable {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+const buildEncodingTable = ({ counts, symbols }: HuffmanSpec): EncodingTable => {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let index = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++) {
+      codes[symbols[index]] = code++;
+      lengths[symbols[index]] = length;
+      index++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+};
+
+const HUFFMAN_SPECS = { dc: [LUMINANCE_DC, CHROMINANCE_DC], ac: [LUMINANCE_AC, CHROMINANCE_AC] };
+
+/** Number of bits needed for the magnitude of `value`, its JPEG size category. */
+const category = (value: number) => {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+};
+
+/** Writes `image` as a baseline JPEG, all components in one interleaved scan. */
+export function writeJpeg(image: DctImage, onProgress?: ProgressCallback): Uint8Array {
+  const totalCoefficients = image.components.reduce((sum, c) => sum + c.coefficients.length, 0);
+  const out = createByteWriter(totalCoefficients / 4);
+  // Luma gets table 0 and every other component table 1.
+  const tableFor = (index: number) => (index === 0 ? 0 : 1);
+
+  out.word(0xff00 | Marker.SOI);
+  if (image.metadata.length === 0) {
+    // JFIF 1.01, no density, no thumbnail.
+    out.bytes([0xff, Marker.APP0, 0, 16, 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  }
+  for (const segment of image.metadata) out.bytes(segment);
+
+  image.quantizationTables.forEach((table, id) => {
+    if (!table) return;
+    const wide = table.some((value) => value > 255);
+    out.word(0xff00 | Marker.DQT);
+    out.word(2 + 1 + BLOCK_SIZE * (wide ? 2 : 1));
+    out.byte(((wide ? 1 : 0) << 4) | id);
+    table.forEach((value) => (wide ? out.word(value) : out.byte(value)));
+  });
+
+  out.word(0xff00 | Marker.SOF0);
+  out.word(8 + image.components.length * 3);
+  out.byte(8);
+  out.word(image.height);
+  out.word(image.width);
+  out.byte(image.components.length);
+  for (const component of image.components) {
+    out.byte(component.id);
+    out.byte((component.horizontalSampling << 4) | component.verticalSampling);
+    out.byte(component.quantizationTableId);
+  }
+
+  const tableCount = image.components.length > 1 ? 2 : 1;
+  for (let id = 0; id < tableCount; id++) {
+    for (const [tableClass, spec] of [
+      [0, HUFFMAN_SPECS.dc[id]],
+      [1, HUFFMAN_SPECS.ac[id]],
+    ] as const) {
+      out.word(0xff00 | Marker.DHT);
+      out.word(2 + 1 + 16 + spec.symbols.length);
+      out.byte((tableClass << 4) | id);
+      out.bytes(spec.counts);
+      out.bytes(spec.symbols);
+    }
+  }
+
+  out.word(0xff00 | Marker.SOS);
+  out.word(6 + image.components.length * 2);
+  out.byte(image.components.length);
+  image.components.forEach((component, index) => {
+    out.byte(component.id);
+    out.byte((tableFor(index) << 4) | tableFor(index));
+  });
+  out.bytes([0, 63, 0]);
+
+  const dcTables = HUFFMAN_SPECS.dc.map(buildEncodingTable);
+  const acTables = HUFFMAN_SPECS.ac.map(buildEncodingTable);
+  let acc = 0;
+  let accBits = 0;
+  const writeBits = (value: number, count: number) => {
+    acc = (acc << count) | (value & ((1 << count) - 1));
+    accBits += count;
+    while (accBits >= 8) {
+      accBits -= 8;
+      const byte = (acc >> accBits) & 0xff;
+      out.byte(byte);
+      if (byte === 0xff) out.byte(0);
+    }
+    acc &= (1 << accBits) - 1;
+  };
+  const writeSymbol = (table: EncodingTable, symbol: number) => writeBits(table.codes[symbol], table.lengths[symbol]);
+  const writeValue = (value: number, size: number) => writeBits(value < 0 ? value - 1 : value, size);
+
+  const scan = image.components.map((component, index) => ({
+    component,
+    dcTable: tableFor(index),
+    acTable: tableFor(index),
+  }));
+  const predictions = new Int32Array(scan.length);
+  let blocksWritten = 0;
+  const totalBlocks = totalCoefficients / BLOCK_SIZE;
+
+  visitScan(image, scan, 0, () => {}, (s, offset) => {
+    const { component, dcTable, acTable } = scan[s];
+    const coefficients = component.coefficients;
+    const difference = coefficients[offset] - predictions[s];
+    predictions[s] = coefficients[offset];
+    const dcSize = category(difference);
+    writeSymbol(dcTables[dcTable], dcSize);
+    if (dcSize) writeValue(difference, dcSize);
+
+    let run = 0;
+    for (let k = 1; k < BLOCK_SIZE; k++) {
+      const value = coefficients[offset + k];
+      if (value === 0) {
+        run++;
+        continue;
+      }
+      for (; run > 15; run -= 16) writeSymbol(acTables[acTable], 0xf0);
+      const size = category(value);
+      writeSymbol(acTables[acTable], (run << 4) | size);
+      writeValue(value, size);
+      run = 0;
+    }
+    if (run > 0) writeSymbol(acTables[acTable], 0x00);
+
+    if (onProgress && (++blocksWritten & 0xfff) === 0) onProgress(blocksWritten / totalBlocks);
+  });
+
+  // Pad the last byte with ones.
+  if (accBits > 0) writeBits(0xff, 8 - accBits);
+  out.word(0xff00 | Marker.EOI);
+  onProgress?.(1);
+  return out.finish();
+}
+
+// ---------------------------------------------------------------------------
+// Compressing pixels
+
+/** IJG scaling of a standard table to `quality` (1–100), returned in zigzag order. */
+const scaleQuantization = (base: number[], quality: number) => {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  const table = new Uint16Array(BLOCK_SIZE);
+  for (let k = 0; k < BLOCK_SIZE; k++) {
+    table[k] = Math.min(255, Math.max(1, Math.floor((base[ZIGZAG[k]] * scale + 50) / 100)));
+  }
+  return table;
+};
+
+// DCT_BASIS[u * 8 + x] = C(u) / 2 · cos((2x + 1)uπ / 16)
+const DCT_BASIS = new Float64Array(BLOCK_SIZE);
+for (let u = 0; u < 8; u++) {
+  for (let x = 0; x < 8; x++) {
+    DCT_BASIS[u * 8 + x] = ((u === 0 ? Math.SQRT1_2 : 1) / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+}
+
+/** Separable 8×8 forward DCT of `block` (row by row) into `out`, also row by row. */
+const forwardDct = (block: Float64Array, temp: Float64Array, out: Float64Array) => {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += DCT_BASIS[u * 8 + x] * block[y * 8 + x];
+      temp[y * 8 + u] = sum;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) sum += DCT_BASIS[v * 8 + y] * temp[y * 8 + u];
+      out[v * 8 + u] = sum;
+    }
+  }
+};
+
+/**
+ * Compresses RGBA pixels to YCbCr coefficients without chroma subsampling,
+ * ready for `writeJpeg`. Alpha is dropped and edges are padded by repetition.
+ */
+export function compressToDct(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  quality = DEFAULT_JPEG_QUALITY,
+  onProgress?: ProgressCallback
+): DctImage {
+  const component = (id: number, quantizationTableId: number): DctComponent => ({
+    id,
+    horizontalSampling: 1,
+    verticalSampling: 1,
+    quantizationTableId,
+    blocksPerLine: 0,
+    blocksPerColumn: 0,
+    coefficients: new Int16Array(0),
+  });
+  const image: DctImage = {
+    width,
+    height,
+    quantizationTables: [
+      scaleQuantization(LUMINANCE_QUANTIZATION, quality),
+      scaleQuantization(CHROMINANCE_QUANTIZATION, quality),
+    ],
+    components: [component(1, 0), component(2, 1), component(3, 1)],
+    metadata: [],
+  };
+  allocateComponents(image);
+
+  const planes = [new Float64Array(BLOCK_SIZE), new Float64Array(BLOCK_SIZE), new Float64Array(BLOCK_SIZE)];
+  const temp = new Float64Array(BLOCK_SIZE);
+  const transformed = new Float64Array(BLOCK_SIZE);
+  const { blocksPerLine, blocksPerColumn } = image.components[0];
+
+  for (let blockRow = 0; blockRow < blocksPerColumn; blockRow++) {
+    for (let blockCol = 0; blockCol < blocksPerLine; blockCol++) {
+      for (let y = 0; y < 8; y++) {
+        const row = Math.min(height - 1, blockRow * 8 + y);
+        for (let x = 0; x < 8; x++) {
+          const offset = (row * width + Math.min(width - 1, blockCol * 8 + x)) * 4;
+          const r = pixels[offset];
+          const g = pixels[offset + 1];
+          const b = pixels[offset + 2];
+          planes[0][y * 8 + x] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+          planes[1][y * 8 + x] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+          planes[2][y * 8 + x] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+        }
+      }
+      const blockOffset = (blockRow * blocksPerLine + blockCol) * BLOCK_SIZE;
+      image.components.forEach(({ coefficients, quantizationTableId }, c) => {
+        const table = image.quantizationTables[quantizationTableId]!;
+        forwardDct(planes[c], temp, transformed);
+        for (let k = 0; k < BLOCK_SIZE; k++) {
+          coefficients[blockOffset + k] = Math.round(transformed[ZIGZAG[k]] / table[k]);
+        }
+      });
+    }
+    onProgress?.((blockRow + 1) / blocksPerColumn);
+  }
+  return image;
+}
+
+// ---------------------------------------------------------------------------
+// Decompressing
+
+/** Separable 8×8 inverse DCT of `coefficients` (row by row) into `out`, also row by row. */
+const inverseDct = (coefficients: Float64Array, temp: Float64Array, out: Float64Array) => {
+  for (let v = 0; v < 8; v++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let u = 0; u < 8; u++) sum += DCT_BASIS[u * 8 + x] * coefficients[v * 8 + u];
+      temp[v * 8 + x] = sum;
+    }
+  }
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      let sum = 0;
+      for (let v = 0; v < 8; v++) sum += DCT_BASIS[v * 8 + y] * temp[v * 8 + x];
+      out[y * 8 + x] = sum;
+    }
+  }
+};
+
+/**
+ * Decodes coefficients back to opaque RGBA pixels, the way a viewer shows the
+ * file. Subsampled components are scaled up by repetition.
+ */
+export function decompressToPixels(image: DctImage): Uint8ClampedArray {
+  const { width, height, components } = image;
+  const maxH = Math.max(...components.map((c) => c.horizontalSampling));
+  const maxV = Math.max(...components.map((c) => c.verticalSampling));
+  const block = new Float64Array(BLOCK_SIZE);
+  const temp = new Float64Array(BLOCK_SIZE);
+  const samples = new Float64Array(BLOCK_SIZE);
+
+  const planes = components.map(({ coefficients, quantizationTableId, blocksPerLine, blocksPerColumn }) => {
+    const table = image.quantizationTables[quantizationTableId];
+    if (!table) throw new Error(`Missing JPEG quantisation table ${quantizationTableId}.`);
+    const planeWidth = blocksPerLine * 8;
+    const plane = new Float64Array(planeWidth * blocksPerColumn * 8);
+    for (let blockRow = 0; blockRow < blocksPerColumn; blockRow++) {
+      for (let blockCol = 0; blockCol < blocksPerLine; blockCol++) {
+        const offset = (blockRow * blocksPerLine + blockCol) * BLOCK_SIZE;
+        for (let k = 0; k < BLOCK_SIZE; k++) block[ZIGZAG[k]] = coefficients[offset + k] * table[k];
+        inverseDct(block, temp, samples);
+        for (let y = 0; y < 8; y++) {
+          plane.set(samples.subarray(y * 8, y * 8 + 8), (blockRow * 8 + y) * planeWidth + blockCol * 8);
+        }
+      }
+    }
+    return { plane, planeWidth };
+  });
+
+  const sample = (c: number, x: number, y: number) => {
+    const { horizontalSampling, verticalSampling } = components[c];
+    const { plane, planeWidth } = planes[c];
+    return plane[Math.floor((y * verticalSampling) / maxV) * planeWidth + Math.floor((x * horizontalSampling) / maxH)];
+  };
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const luma = sample(0, x, y) + 128;
+      if (components.length < 3) {
+        pixels.fill(Math.round(luma), offset, offset + 3);
+      } else {
+        const cb = sample(1, x, y);
+        const cr = sample(2, x, y);
+        pixels[offset] = Math.round(luma + 1.402 * cr);
+        pixels[offset + 1] = Math.round(luma - 0.344136 * cb - 0.714136 * cr);
+        pixels[offset + 2] = Math.round(luma + 1.772 * cb);
+      }
+      pixels[offset + 3] = 255;
+    }
+  }
+  return pixels;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { SectionType, encodeContainer } from "./container";
+import { LAYER_SLOTS, buildLayers, layerCapacity, openLayers } from "./layers";
+import { embedRaw, extract, extractRaw, rawCapacity } from "./lsb";
+
+const sealed = (length: number) =>
+  encodeContainer([{ type: SectionType.Text, data: crypto.getRandomValues(new Uint8Array(length)) }]);
+
+/** A carrier whose first rows are transparent, as in a PNG with a cut-out. */
+const carrier = (width: number, height: number) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let offset = 0; offset < pixels.length; offset += 65536) {
+    crypto.getRandomValues(pixels.subarray(offset, offset + 65536));
+  }
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = i < width * 4 * 4 ? 0 : 255;
+  return pixels;
+};
+
+describe("deniable layers", () => {
+  it("open only the layer a passphrase belongs to", async () => {
+    const pixels = carrier(120, 80);
+    const capacity = rawCapacity(pixels);
+    const real = sealed(300);
+    const decoy = sealed(100);
+    const bytes = await buildLayers(
+      [
+        { container: real, passphrase: "real passphrase one" },
+        { container: decoy, passphrase: "decoy passphrase" },
+      ],
+      capacity
+    );
+    expect(bytes.length).toBeLessThanOrEqual(capacity);
+    embedRaw(pixels, bytes);
+
+    // Nothing marks the carrier as holding a container.
+    expect(extract(pixels)).toBeNull();
+    const raw = extractRaw(pixels, capacity);
+    expect(await openLayers(raw, "real passphrase one")).toEqual(real);
+    expect(await openLayers(raw, "decoy passphrase")).toEqual(decoy);
+    expect(await openLayers(raw, "some other passphrase")).toBeNull();
+  });
+
+  it("hold as many layers as there are slots, each with its own passphrase", async () => {
+    const capacity = 4000;
+    const layer = (passphrase: string) => ({ container: sealed(layerCapacity(capacity) - 20), passphrase });
+    await expect(buildLayers([layer("one passphrase"), layer("one passphrase")], capacity)).rejects.toThrow(/own passphrase/);
+    const tooMany = Array.from({ length: LAYER_SLOTS + 1 }, (_, i) => layer(`passphrase ${i}`));
+    await expect(buildLayers(tooMany, capacity)).rejects.toThrow(/layers/);
+  });
+
+  it("reject a layer larger than a slot", async () => {
+    const capacity = 4000;
+    const container = sealed(layerCapacity(capacity));
+    await expect(buildLayers([{ container, passphrase: "real passphrase one" }], capacity)).rejects.toThrow(/layer capacity/);
+  });
+});
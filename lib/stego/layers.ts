@@ -0,0 +1,102 @@
+import { DEFAULT_KDF_ITERATIONS, decryptSection, deriveKey, encryptSection, encryptedSize } from "./crypto";
+
+/*
+ * Deniable layers: several sealed containers in one carrier, each encrypted
+ * again under its own passphrase, with nothing that tells them apart from
+ * random filler. The carrier's raw stream is filled completely:
+ *
+ *   salt (16) | LAYER_SLOTS × slot
+ *
+ * Each slot is either random bytes or, at a random position, one layer:
+ * IV (12) | AES-256-GCM ciphertext of [container length (4) | container |
+ * random padding] | tag (16), with the slot number as associated data. The
+ * key comes from the passphrase and the shared salt with PBKDF2 at the
+ * default work factor, since no parameters can be stored in the clear. A
+ * decoder derives the key once and tries it on every slot; handing over one
+ * passphrase reveals one layer and nothing about how many others there are.
+ */
+
+export const LAYER_SLOTS = 4;
+const SALT_SIZE = 16;
+const LENGTH_SIZE = 4;
+// getRandomValues fills at most this many bytes per call.
+const RANDOM_CHUNK_SIZE = 65536;
+
+export interface Layer {
+  container: Uint8Array;
+  passphrase: string;
+}
+
+const randomBytes = (length: number) => {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += RANDOM_CHUNK_SIZE) {
+    crypto.getRandomValues(bytes.subarray(offset, offset + RANDOM_CHUNK_SIZE));
+  }
+  return bytes;
+};
+
+const slotSize = (capacity: number) => Math.floor((capacity - SALT_SIZE) / LAYER_SLOTS);
+
+const layerKey = (passphrase: string, salt: Uint8Array) =>
+  deriveKey(passphrase, { kind: "passphrase", iterations: DEFAULT_KDF_ITERATIONS, salt });
+
+/** Largest sealed container one layer can hold in a raw stream of `capacity` bytes. */
+export function layerCapacity(capacity: number): number {
+  return Math.max(0, slotSize(capacity) - encryptedSize(LENGTH_SIZE));
+}
+
+/** Fills a raw stream of `capacity` bytes with the given layers and random filler. */
+export async function buildLayers(layers: Layer[], capacity: number): Promise<Uint8Array> {
+  if (layers.length === 0 || layers.length > LAYER_SLOTS) {
+    throw new Error(`A carrier holds 1 to ${LAYER_SLOTS} layers.`);
+  }
+  if (new Set(layers.map((layer) => layer.passphrase)).size !== layers.length) {
+    throw new Error("Every layer needs its own passphrase.");
+  }
+  const size = slotSize(capacity);
+  const room = layerCapacity(capacity);
+  const oversized = layers.find((layer) => layer.container.length > room);
+  if (oversized) {
+    throw new Error(`Layer of ${oversized.container.length} bytes exceeds the layer capacity of ${room} bytes.`);
+  }
+
+  // The filler's first bytes double as the salt.
+  const bytes = randomBytes(SALT_SIZE + LAYER_SLOTS * size);
+  const salt = bytes.slice(0, SALT_SIZE);
+  // Shuffle the slots so a layer's position says nothing about the order the layers were given in.
+  const slots = Array.from({ length: LAYER_SLOTS }, (_, i) => i);
+  for (let i = slots.length - 1; i > 0; i--) {
+    const j = crypto.getRandomValues(new Uint32Array(1))[0] % (i + 1);
+    [slots[i], slots[j]] = [slots[j], slots[i]];
+  }
+
+  for (let i = 0; i < layers.length; i++) {
+    const { container, passphrase } = layers[i];
+    const slot = slots[i];
+    const plaintext = randomBytes(size - encryptedSize(0));
+    new DataView(plaintext.buffer).setUint32(0, container.length);
+    plaintext.set(container, LENGTH_SIZE);
+    const key = await layerKey(passphrase, salt);
+    bytes.set(await encryptSection(key, plaintext, Uint8Array.of(slot)), SALT_SIZE + slot * size);
+  }
+  return bytes;
+}
+
+/**
+ * The sealed container of the layer `passphrase` unlocks in a raw stream, or
+ * `null` if it unlocks none, which is also the answer for random filler.
+ */
+export async function openLayers(bytes: Uint8Array, passphrase: string): Promise<Uint8Array | null> {
+  const size = slotSize(bytes.length);
+  if (size <= encryptedSize(LENGTH_SIZE)) return null;
+  const key = await layerKey(passphrase, bytes.subarray(0, SALT_SIZE));
+  for (let slot = 0; slot < LAYER_SLOTS; slot++) {
+    const start = SALT_SIZE + slot * size;
+    const plaintext = await decryptSection(key, bytes.subarray(start, start + size), Uint8Array.of(slot));
+    if (!plaintext) continue;
+    const length = new DataView(plaintext.buffer, plaintext.byteOffset).getUint32(0);
+    if (length > plaintext.length - LENGTH_SIZE) throw new Error("Hidden data is corrupted (invalid layer length)");
+    return plaintext.slice(LENGTH_SIZE, LENGTH_SIZE + length);
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+import CryptoJS from "crypto-js";
+import { describe, expect, it } from "vitest";
+import { bytesToLatin1 } from "./bytes";
+import { encodeContainer, SectionType } from "./container";
+import { BASELINE_MAGIC, openBaselineMessage, parseBaselineMessage, revealBaselineFromText } from "./legacy";
+import { embed, extractTerminated } from "./lsb";
+
+const KEY = "abc123";
+const IMAGE = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+const carrier = (pixelCount: number) => {
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = i % 4 === 3 ? 255 : (i * 7919) & 0xff;
+  return pixels;
+};
+
+// Mirrors the encoder that predates containers: text, then image, each a CryptoJS ciphertext.
+const baselineMessage = (text: string, image?: string) =>
+  [text, image]
+    .filter(Boolean)
+    .map((part) => CryptoJS.AES.encrypt(part!, KEY).toString())
+    .join("||");
+
+const writeBaseline = (pixels: Uint8ClampedArray, message: string) => {
+  const bits = Array.from(message + "\0", (char) => char.charCodeAt(0).toString(2).padStart(8, "0")).join("");
+  let bit = 0;
+  for (let i = 0; i < pixels.length && bit < bits.length; i += 4) {
+    for (let c = 0; c < 3 && bit < bits.length; c++) {
+      pixels[i + c] = (pixels[i + c] & 0xfe) | Number(bits[bit++]);
+    }
+  }
+};
+
+const readBaseline = (pixels: Uint8ClampedArray) => {
+  const message = extractTerminated(pixels, BASELINE_MAGIC);
+  return message && parseBaselineMessage(bytesToLatin1(message));
+};
+
+describe("messages written before containers", () => {
+  it("opens text and a hidden image from an image carrier", () => {
+    const pixels = carrier(40_000);
+    writeBaseline(pixels, baselineMessage("meet at noon", IMAGE));
+    const ciphertexts = readBaseline(pixels);
+    expect(ciphertexts).toHaveLength(2);
+    expect(openBaselineMessage(ciphertexts!, KEY)).toMatchObject({ text: "meet at noon", embeddedImage: IMAGE, hasError: false });
+  });
+
+  it("reports a wrong key", () => {
+    const pixels = carrier(10_000);
+    writeBaseline(pixels, baselineMessage("meet at noon"));
+    expect(openBaselineMessage(readBaseline(pixels)!, "zzz999")).toMatchObject({ embeddedImage: null, hasError: true });
+  });
+
+  it("opens a text carrier", () => {
+    const content = `Dear diary || nothing to see||${btoa(baselineMessage("meet at noon", IMAGE))}`;
+    const revealed = openBaselineMessage(revealBaselineFromText(content)!, KEY);
+    expect(revealed).toMatchObject({ text: "meet at noon", embeddedImage: IMAGE, hasError: false });
+  });
+
+  it("turns away carriers and text that hold something else", () => {
+    const pixels = carrier(10_000);
+    expect(readBaseline(pixels)).toBeNull();
+    embed(pixels, encodeContainer([{ type: SectionType.Text, data: new Uint8Array(32) }]));
+    expect(readBaseline(pixels)).toBeNull();
+    expect(revealBaselineFromText("plain || text")).toBeNull();
+    expect(revealBaselineFromText(`cover||${btoa("hello")}`)).toBeNull();
+  });
+
+  it("gives up on a prefix that is never terminated", () => {
+    const pixels = carrier(1_000);
+    writeBaseline(pixels, "U2FsdGVkX1" + "A".repeat(400));
+    expect(extractTerminated(pixels, BASELINE_MAGIC)).toBeNull();
+  });
+});
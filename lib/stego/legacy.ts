@@ -0,0 +1,104 @@
+import CryptoJS from "crypto-js";
+import { base64ToBytes, latin1ToBytes, utf8Decode } from "./bytes";
+import { DELIMITER } from "./text";
+import type { RevealedContent } from "./types";
+
+// Decryption for containers up to format version 2, whose sections were
+// encrypted with CryptoJS's passphrase AES (OpenSSL "Salted__" layout,
+// EVP_BytesToKey with MD5), and for messages written before there were
+// containers at all. New messages are never written this way.
+
+const SALT_HEADER_SIZE = 16; // "Salted__" followed by an 8-byte salt
+const AES_BLOCK_SIZE = 16;
+
+const toWordArray = (bytes: Uint8Array) => CryptoJS.lib.WordArray.create(bytes);
+
+const fromWordArray = (wordArray: CryptoJS.lib.WordArray): Uint8Array => {
+  const bytes = new Uint8Array(wordArray.sigBytes);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = (wordArray.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * Returns `null` when the PKCS#7 padding does not check out, which is how a
+ * wrong key usually shows up; callers decoding text should still treat invalid
+ * UTF-8 as a wrong key.
+ */
+export function decryptLegacy(encryptedData: Uint8Array, key: string): Uint8Array | null {
+  try {
+    const cipherParams = CryptoJS.lib.CipherParams.create({
+      ciphertext: toWordArray(encryptedData.subarray(SALT_HEADER_SIZE)),
+      salt: toWordArray(encryptedData.subarray(8, SALT_HEADER_SIZE)),
+    });
+    const padded = fromWordArray(CryptoJS.AES.decrypt(cipherParams, key, { padding: CryptoJS.pad.NoPadding }));
+    const padding = padded[padded.length - 1];
+    if (!padding || padding > AES_BLOCK_SIZE || padding > padded.length) return null;
+    for (let i = padded.length - padding; i < padded.length; i++) {
+      if (padded[i] !== padding) return null;
+    }
+    return padded.slice(0, padded.length - padding);
+  } catch (error) {
+    return null;
+  }
+}
+
+/*
+ * Before containers, a message was its CryptoJS ciphertexts in OpenSSL's
+ * base64 form joined by the delimiter: the text first, then the hidden image
+ * as a data URL. Images carried it NUL-terminated in the LSBs of R, G and B of
+ * every pixel in order; text files carried it base64-encoded once more after
+ * the last delimiter.
+ */
+
+const BASELINE_PART = /^U2FsdGVkX1[A-Za-z0-9+/]+={0,2}$/; // "Salted__" in base64
+const BASELINE_IMAGE = /^data:image\/(png|jpeg|jpg);base64,[\w+/=]+$/;
+
+/** The first bytes of every message written before containers. */
+export const BASELINE_MAGIC = latin1ToBytes("U2FsdGVkX1");
+
+/** Splits a message written before containers into its ciphertexts, or returns `null` if it is not one. */
+export function parseBaselineMessage(message: string): Uint8Array[] | null {
+  const parts = message.split(DELIMITER);
+  if (!parts.every((part) => BASELINE_PART.test(part))) return null;
+  try {
+    return parts.map(base64ToBytes);
+  } catch {
+    return null;
+  }
+}
+
+/** The ciphertexts a text file written before containers carries, or `null` if it carries none. */
+export function revealBaselineFromText(content: string): Uint8Array[] | null {
+  const index = content.lastIndexOf(DELIMITER);
+  if (index === -1) return null;
+  try {
+    return parseBaselineMessage(atob(content.slice(index + DELIMITER.length).trim()));
+  } catch {
+    return null;
+  }
+}
+
+/** Decrypts a message written before containers the way the original decoder did. */
+export function openBaselineMessage(ciphertexts: Uint8Array[], passphrase: string): RevealedContent {
+  let text = "";
+  let embeddedImage: string | null = null;
+  for (const ciphertext of ciphertexts) {
+    const plaintext = decryptLegacy(ciphertext, passphrase);
+    let part: string | null = null;
+    try {
+      part = plaintext && utf8Decode(plaintext);
+    } catch {
+      // Invalid UTF-8 means the key was wrong.
+    }
+    if (!part) continue;
+    if (BASELINE_IMAGE.test(part)) embeddedImage = part;
+    else text += part + " ";
+  }
+
+  if (!text && !embeddedImage) {
+    return { text: "Error: Wrong decryption key", embeddedImage: null, file: null, signature: null, hasError: true };
+  }
+  return { text: text.trim(), embeddedImage, file: null, signature: null, hasError: false };
+}
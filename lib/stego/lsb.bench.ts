@@ -0,0 +1,68 @@
+import { bench, describe } from "vitest";
+import { SectionType, encodeContainer } from "./container";
+import { capacity, embed, extract } from "./lsb";
+
+// Pixel-pass timings behind the README's performance table: `npm run bench`.
+
+const CARRIERS = [
+  { name: "1 MP", width: 1000, height: 1000, previous: true },
+  // The previous decoder's strings outgrow Node's default 2 GB heap from here on.
+  { name: "12 MP", width: 4000, height: 3000, previous: false },
+  { name: "24 MP", width: 6000, height: 4000, previous: false },
+];
+
+// The slowest cases take seconds per run, so they are timed a few times without warm-up.
+const FEW_RUNS = { time: 0, iterations: 5, warmupTime: 0, warmupIterations: 0 };
+
+/** An opaque carrier with random colours. */
+const carrier = (pixelCount: number) => {
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  for (let offset = 0; offset < pixels.length; offset += 65536) {
+    crypto.getRandomValues(pixels.subarray(offset, offset + 65536));
+  }
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  return pixels;
+};
+
+/** A container that fills `bytes` bytes exactly. */
+const filling = (bytes: number) => encodeContainer([{ type: SectionType.Text, data: new Uint8Array(bytes - 20) }]);
+
+/**
+ * The decoder this format replaced: it concatenated the LSB of every channel
+ * into a string and then looked for a NUL-terminated message in it.
+ */
+const previousDecode = (data: Uint8ClampedArray) => {
+  let binaryMessage = "";
+  for (let i = 0; i < data.length; i += 4) {
+    binaryMessage += (data[i] & 1).toString();
+    binaryMessage += (data[i + 1] & 1).toString();
+    binaryMessage += (data[i + 2] & 1).toString();
+  }
+  let message = "";
+  for (let i = 0; i < binaryMessage.length; i += 8) {
+    const byte = binaryMessage.slice(i, i + 8);
+    if (byte.length < 8) break;
+    const charCode = parseInt(byte, 2);
+    if (charCode === 0) break;
+    message += String.fromCharCode(charCode);
+  }
+  return message;
+};
+
+for (const { name, width, height, previous } of CARRIERS) {
+  describe(`${name} (${width}×${height})`, () => {
+    const short = embed(carrier(width * height), encodeContainer([{ type: SectionType.Text, data: new Uint8Array(10) }]));
+    const pixels = carrier(width * height);
+    const full = filling(capacity(pixels));
+    const deep = filling(capacity(pixels, 4));
+    const embedded = embed(pixels.slice(), full);
+    const embeddedDeep = embed(pixels.slice(), deep, { bitsPerChannel: 4 });
+
+    if (previous) bench("previous decoder, 10-byte message", () => void previousDecode(short), FEW_RUNS);
+    bench("extract, 10-byte message", () => void extract(short));
+    bench("embed, full at 1 bit", () => void embed(pixels, full), FEW_RUNS);
+    bench("extract, full at 1 bit", () => void extract(embedded), FEW_RUNS);
+    bench("embed, full at 4 bits", () => void embed(pixels, deep, { bitsPerChannel: 4 }), FEW_RUNS);
+    bench("extract, full at 4 bits", () => void extract(embeddedDeep), FEW_RUNS);
+  });
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { HEADER_SIZE, MAX_HAMMING_BITS, MIN_HAMMING_BITS, SectionType, encodeContainer, readEmbeddingFlags } from "./container";
+import {
+  MAX_BITS_PER_CHANNEL,
+  MIN_BITS_PER_CHANNEL,
+  SCATTER_SALT_SIZE,
+  capacity,
+  capacityForPixels,
+  embed,
+  extract,
+  minimumCarrierSize,
+  scatterSalts,
+  type Scatter,
+} from "./lsb";
+import { scatteredOrder } from "./order";
+import { deriveSeed } from "./prng";
+
+/** An opaque carrier of `pixelCount` pixels with random colours. */
+const carrier = (pixelCount: number) => {
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  crypto.getRandomValues(pixels);
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  return pixels;
+};
+
+/** A container of about `length` bytes with random content. */
+const container = (length: number) =>
+  encodeContainer([{ type: SectionType.Text, data: crypto.getRandomValues(new Uint8Array(Math.max(0, length - HEADER_SIZE - 6))) }]);
+
+describe("embed and extract", () => {
+  it("round-trips a container", () => {
+    const data = container(200);
+    const pixels = embed(carrier(1000), data);
+    expect(extract(pixels)).toEqual(data);
+  });
+
+  it("only changes the lowest bit of the colour channels", () => {
+    const cover = carrier(1000);
+    const pixels = embed(cover.slice(), container(300));
+    for (let i = 0; i < pixels.length; i++) {
+      if (i % 4 === 3) expect(pixels[i]).toBe(cover[i]);
+      else expect(Math.abs(pixels[i] - cover[i])).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("fills the carrier exactly to capacity", () => {
+    const pixels = carrier(500);
+    const data = container(capacity(pixels));
+    expect(data.length).toBe(capacity(pixels));
+    expect(extract(embed(pixels, data))).toEqual(data);
+  });
+
+  it("rejects a container larger than the carrier", () => {
+    const pixels = carrier(500);
+    expect(() => embed(pixels, container(capacity(pixels) + 1))).toThrow(/exceeds the carrier capacity/);
+  });
+
+  it("finds nothing in a carrier without a container", () => {
+    const pixels = carrier(1000);
+    for (let i = 0; i < pixels.length; i += 4) pixels[i] &= 0xfe;
+    expect(extract(pixels)).toBeNull();
+  });
+});
+
+describe("capacity", () => {
+  it("counts one bit per colour channel after the header", () => {
+    expect(capacityForPixels(1000)).toBe(Math.floor((1000 * 3) / 8));
+    expect(capacity(carrier(1000))).toBe(capacityForPixels(1000));
+  });
+
+  it("is zero for carriers too small for the header", () => {
+    expect(capacityForPixels(10)).toBe(0);
+  });
+
+  it("sizes the smallest carrier that fits", () => {
+    const { width, height } = minimumCarrierSize(40, 30, 5000);
+    expect(capacityForPixels(width * height)).toBeGreaterThanOrEqual(5000);
+    expect(capacityForPixels((width - 1) * (height - 1))).toBeLessThan(5000);
+  });
+});
+
+describe("bits per channel", () => {
+  it("round-trips at every depth and records it in the header", () => {
+    for (let bitsPerChannel = MIN_BITS_PER_CHANNEL; bitsPerChannel <= MAX_BITS_PER_CHANNEL; bitsPerChannel++) {
+      const pixels = carrier(1000);
+      const data = container(capacity(pixels, bitsPerChannel));
+      const extracted = extract(embed(pixels, data, { bitsPerChannel }));
+      expect(extracted?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+      expect(readEmbeddingFlags(extracted!).bitsPerChannel).toBe(bitsPerChannel);
+    }
+  });
+
+  it("scales the body's capacity with depth while the header stays at one bit", () => {
+    const headerChannels = HEADER_SIZE * 8;
+    expect(capacityForPixels(1000, 4)).toBe(HEADER_SIZE + Math.floor(((3000 - headerChannels) * 4) / 8));
+  });
+
+  it("rejects depths outside 1–4", () => {
+    expect(() => embed(carrier(1000), container(20), { bitsPerChannel: 5 })).toThrow(/Bits per channel/);
+  });
+});
+
+/** A fresh salt and the seed `key` derives from it, with few iterations to keep tests fast. */
+const createScatter = async (key: string): Promise<Scatter> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SCATTER_SALT_SIZE));
+  return { salt, seed: await deriveSeed(key, salt, "order", 1000) };
+};
+
+/** The seeds `key` derives from every salt in `pixels`. */
+const scatterFor = (pixels: Uint8ClampedArray, key: string) =>
+  Promise.all(scatterSalts(pixels).map(async (salt) => ({ salt, seed: await deriveSeed(key, salt, "order", 1000) })));
+
+describe("scattered embedding", () => {
+  it("round-trips with the same key only", async () => {
+    const data = container(150);
+    const pixels = embed(carrier(1000), data, { scatter: await createScatter("correct horse battery") });
+    expect(extract(pixels)).toBeNull();
+    expect(extract(pixels, { scatter: await scatterFor(pixels, "wrong horse battery") })).toBeNull();
+    const extracted = extract(pixels, { scatter: await scatterFor(pixels, "correct horse battery") });
+    expect(extracted?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+    expect(readEmbeddingFlags(extracted!).scattered).toBe(true);
+  });
+
+  it("keeps the salt in the first channels and out of the capacity", async () => {
+    const cover = carrier(1000);
+    const scatter = await createScatter("correct horse battery");
+    const pixels = embed(cover.slice(), container(40), { scatter });
+    expect(scatterSalts(pixels)).toEqual([scatter.salt]);
+    expect(capacity(cover, 1, false, false, true)).toBe(capacity(cover) - SCATTER_SALT_SIZE);
+  });
+
+  it("derives a different order from the same key under a different salt", async () => {
+    const [first, second] = [await createScatter("correct horse battery"), await createScatter("correct horse battery")];
+    const [a, b] = [scatteredOrder(3001, first.seed), scatteredOrder(3001, second.seed)];
+    expect(Array.from({ length: 50 }, (_, i) => a(i))).not.toEqual(Array.from({ length: 50 }, (_, i) => b(i)));
+  });
+
+  it("spreads a short message over the whole carrier", async () => {
+    const cover = carrier(4000);
+    const pixels = embed(cover.slice(), container(40), { scatter: await createScatter("correct horse battery") });
+    let lastChanged = 0;
+    for (let i = 0; i < pixels.length; i++) if (pixels[i] !== cover[i]) lastChanged = i;
+    expect(lastChanged).toBeGreaterThan(pixels.length / 2);
+  });
+});
+
+describe("transparent carriers", () => {
+  /** Sets the alpha of every `every`-th pixel from `from` on. */
+  const withAlpha = (pixels: Uint8ClampedArray, alpha: number, every: number, from = 0) => {
+    for (let i = from * 4 + 3; i < pixels.length; i += every * 4) pixels[i] = alpha;
+    return pixels;
+  };
+
+  it("round-trips past a transparent pixel beyond the container", () => {
+    const data = container(100);
+    const pixels = embed(withAlpha(carrier(1000), 0, 1000, 900), data);
+    expect(extract(pixels)).toEqual(data);
+  });
+
+  it("leaves transparent pixels inside the container untouched", () => {
+    const cover = withAlpha(carrier(2000), 0, 7);
+    const data = container(300);
+    const pixels = embed(cover.slice(), data);
+    for (let i = 0; i < pixels.length; i += 28) expect(pixels.subarray(i, i + 4)).toEqual(cover.subarray(i, i + 4));
+    expect(extract(pixels)).toEqual(data);
+  });
+
+  it("round-trips scattered over a carrier with transparent rows", async () => {
+    const data = container(150);
+    const pixels = embed(withAlpha(carrier(2000), 0, 1, 1800), data, { scatter: await createScatter("correct horse battery") });
+    const scatter = await scatterFor(pixels, "correct horse battery");
+    expect(extract(pixels, { scatter })?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+  });
+
+  it("round-trips with bits in the alpha of translucent pixels", () => {
+    const cover = withAlpha(carrier(1000), 128, 2);
+    expect(capacity(cover, 1, true)).toBeGreaterThan(capacity(cover));
+    const data = container(capacity(cover, 1, true));
+    const extracted = extract(embed(cover.slice(), data, { useAlpha: true }));
+    expect(extracted?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+    expect(readEmbeddingFlags(extracted!).alpha).toBe(true);
+  });
+});
+
+describe("scatteredOrder", () => {
+  it("is a permutation of the channels", () => {
+    const order = scatteredOrder(3001, Uint32Array.of(1, 2, 3, 4));
+    const seen = new Set(Array.from({ length: 3001 }, (_, i) => order(i)));
+    expect(seen.size).toBe(3001);
+    expect(Math.min(...Array.from(seen))).toBe(0);
+    expect(Math.max(...Array.from(seen))).toBe(3000);
+  });
+});
+
+describe("matrix embedding", () => {
+  it("round-trips with every Hamming code a payload may pick", () => {
+    for (const length of [40, 150, 300]) {
+      const data = container(length);
+      const extracted = extract(embed(carrier(2000), data, { matrixEmbedding: true }));
+      expect(extracted?.subarray(HEADER_SIZE)).toEqual(data.subarray(HEADER_SIZE));
+    }
+  });
+
+  it("picks a larger code for a smaller payload", () => {
+    const small = extract(embed(carrier(2000), container(40), { matrixEmbedding: true }))!;
+    const large = extract(embed(carrier(2000), container(capacity(carrier(2000), 1, false, true)), { matrixEmbedding: true }))!;
+    expect(readEmbeddingFlags(small).hammingBits).toBe(MAX_HAMMING_BITS);
+    expect(readEmbeddingFlags(large).hammingBits).toBe(MIN_HAMMING_BITS);
+  });
+
+  it("changes fewer channels than plain LSB replacement", () => {
+    const data = container(100);
+    let plain = 0;
+    let matrix = 0;
+    embed(carrier(4000), data, { onEmbedded: ({ changes }) => (plain = changes) });
+    embed(carrier(4000), data, { matrixEmbedding: true, onEmbedded: ({ changes }) => (matrix = changes) });
+    // The header is written plainly in both cases; the body alone changes about 2.5 times fewer channels.
+    expect(matrix).toBeLessThan(plain * 0.7);
+  });
+
+  it("needs one bit per channel", () => {
+    expect(() => embed(carrier(2000), container(40), { matrixEmbedding: true, bitsPerChannel: 2 })).toThrow(/one bit per channel/);
+  });
+});
@@ -0,0 +1,764 @@
+import {
+  HEADER_SIZE,
+  MAX_HAMMING_BITS,
+  MIN_HAMMING_BITS,
+  hasMagic,
+  readContainerSize,
+  readEmbeddingFlags,
+  withEmbeddingFlags,
+  type EmbeddingFlags,
+} from "./container";
+import { ErrorCorrection, HEADER_PARITY_SIZE, protect, protectedSize, recoverContainer, recoverHeader } from "./ecc";
+import { scatteredOrder, sequentialOrder, type ChannelOrder } from "./order";
+
+const BYTES_PER_PIXEL = 4;
+const CHANNELS_PER_PIXEL = 3; // R, G and B; alpha only carries bits when asked to
+const ALPHA_OFFSET = 3;
+const HEADER_BITS = HEADER_SIZE * 8;
+/** Bytes of random salt at the start of a scattered stream, from which its order is derived. */
+export const SCATTER_SALT_SIZE = 16;
+const SCATTER_SALT_BITS = SCATTER_SALT_SIZE * 8;
+const OPAQUE = 255;
+// Alpha values up to this one stay in range when their lowest bit is flipped.
+const MAX_TRANSLUCENT_ALPHA = 253;
+
+// Channels between progress reports; small enough for a smooth bar, large enough to cost nothing.
+const PROGRESS_INTERVAL = 1 << 16;
+
+export const MIN_BITS_PER_CHANNEL = 1;
+export const MAX_BITS_PER_CHANNEL = 4;
+
+/** Receives the completed fraction of a long-running pass, from 0 to 1. */
+export type ProgressCallback = (fraction: number) => void;
+
+export interface EmbedOptions {
+  /** LSBs used per R/G/B channel for the container body, 1–4. Defaults to 1. */
+  bitsPerChannel?: number;
+  /**
+   * When set, the salt goes into the first channels of the stream and the
+   * container is scattered over a permutation of the rest seeded with `seed`.
+   */
+  scatter?: Scatter;
+  /** Also hide one bit in the alpha channel of each translucent pixel. */
+  useAlpha?: boolean;
+  /** Reed-Solomon redundancy added around the container. Defaults to none. */
+  errorCorrection?: ErrorCorrection;
+  /** Matrix-code the body at one bit per channel, changing fewer channels for the same payload. */
+  matrixEmbedding?: boolean;
+  onProgress?: ProgressCallback;
+  /** Receives how many bits were written and how many channels that changed. */
+  onEmbedded?: (stats: EmbeddingStats) => void;
+}
+
+/** Payload bits written by an embedding pass and the channels it changed to do so. */
+export interface EmbeddingStats {
+  bits: number;
+  changes: number;
+}
+
+/** The seed of a scattered channel order and the salt it was derived with. */
+export interface Scatter {
+  salt: Uint8Array;
+  seed: Uint32Array;
+}
+
+export interface ExtractOptions {
+  /**
+   * Seeds to regenerate the channel order with if the carrier is not
+   * sequential, one for each salt `scatterSalts` found.
+   */
+  scatter?: Scatter[];
+  onProgress?: ProgressCallback;
+  /** Receives the number of damaged bytes error correction repaired, if the container is protected. */
+  onCorrected?: (bytes: number) => void;
+}
+
+/*
+ * The carrier is treated as a stream of R/G/B channels, either in pixel order
+ * or in a key-dependent permutation. The container header always takes one bit
+ * from each of the first `HEADER_BITS` channels of the stream so the decoder
+ * can read the body's depth before reading the body; the body then continues
+ * at `bitsPerChannel` bits per channel.
+ *
+ * A scattered stream starts with a random salt in one bit of each of its
+ * first `SCATTER_SALT_BITS` channels, in order. The permutation of the
+ * channels after it is seeded by a slow key derivation of the passphrase and
+ * that salt (see `deriveSeed`), so the header's magic cannot be used to test
+ * passphrase guesses faster than the container's own key allows.
+ *
+ * Browsers keep canvas pixels with premultiplied alpha, so the colour of a
+ * pixel that is not fully opaque does not survive being saved and reloaded
+ * exactly. When a carrier has such pixels the stream only holds the R/G/B
+ * channels of opaque pixels, plus, with `useAlpha`, the alpha channel of
+ * pixels with alpha ≤ 253 at one bit each. Alpha values are stored exactly
+ * and embedding never moves a pixel between these groups, so the decoder
+ * rebuilds the same stream from the alpha channel alone. Fully opaque
+ * carriers keep the plain layout.
+ *
+ * With matrix embedding the body uses a Hamming code with k parity bits: each
+ * group of 2^k − 1 one-bit slots carries k bits as the XOR of the 1-based
+ * positions of its slots whose lowest bit is set. Writing k bits then flips at
+ * most one slot, and none in one group out of 2^k, where plain LSB
+ * replacement flips k/2 on average. The largest k (2–5) the payload still
+ * fits at is used.
+ */
+
+const channelOffset = (channel: number) =>
+  Math.floor(channel / CHANNELS_PER_PIXEL) * BYTES_PER_PIXEL + (channel % CHANNELS_PER_PIXEL);
+
+/*
+ * Both loops stream bits through a small accumulator instead of handling them
+ * one at a time, and walk the sequential layout by offset so the common case
+ * does no division or function call per channel.
+ */
+
+const writeBytes = (
+  pixels: Uint8ClampedArray,
+  bytes: Uint8Array,
+  order: ChannelOrder,
+  startChannel: number,
+  depth: number,
+  onProgress?: ProgressCallback
+) => {
+  const channels = Math.ceil((bytes.length * 8) / depth);
+  const mask = (1 << depth) - 1;
+  const sequential = order === sequentialOrder;
+  let offset = channelOffset(startChannel);
+  let lane = startChannel % CHANNELS_PER_PIXEL;
+  let acc = 0;
+  let accBits = 0;
+  let byteIndex = 0;
+  let changes = 0;
+  for (let i = 0; i < channels; i++) {
+    if (onProgress && (i & (PROGRESS_INTERVAL - 1)) === 0) onProgress(i / channels);
+    if (accBits < depth) {
+      // Past the last byte the final channel is padded with zeros.
+      acc = (acc << 8) | (byteIndex < bytes.length ? bytes[byteIndex++] : 0);
+      accBits += 8;
+    }
+    accBits -= depth;
+    const value = (acc >> accBits) & mask;
+    acc &= (1 << accBits) - 1;
+
+    const target = sequential ? offset : channelOffset(order(startChannel + i));
+    if ((pixels[target] & mask) !== value) changes++;
+    pixels[target] = (pixels[target] & ~mask) | value;
+    if (++lane === CHANNELS_PER_PIXEL) {
+      lane = 0;
+      offset += BYTES_PER_PIXEL - CHANNELS_PER_PIXEL + 1;
+    } else {
+      offset++;
+    }
+  }
+  return changes;
+};
+
+const readBytes = (
+  pixels: Uint8ClampedArray,
+  count: number,
+  order: ChannelOrder,
+  startChannel: number,
+  depth: number,
+  onProgress?: ProgressCallback
+): Uint8Array => {
+  const bytes = new Uint8Array(count);
+  const channels = Math.ceil((count * 8) / depth);
+  const mask = (1 << depth) - 1;
+  const sequential = order === sequentialOrder;
+  let offset = channelOffset(startChannel);
+  let lane = startChannel % CHANNELS_PER_PIXEL;
+  let acc = 0;
+  let accBits = 0;
+  let byteIndex = 0;
+  for (let i = 0; i < channels; i++) {
+    if (onProgress && (i & (PROGRESS_INTERVAL - 1)) === 0) onProgress(i / channels);
+    const source = sequential ? offset : channelOffset(order(startChannel + i));
+    acc = (acc << depth) | (pixels[source] & mask);
+    accBits += depth;
+    if (accBits >= 8) {
+      accBits -= 8;
+      bytes[byteIndex++] = acc >> accBits;
+      acc &= (1 << accBits) - 1;
+    }
+    if (++lane === CHANNELS_PER_PIXEL) {
+      lane = 0;
+      offset += BYTES_PER_PIXEL - CHANNELS_PER_PIXEL + 1;
+    } else {
+      offset++;
+    }
+  }
+  return bytes;
+};
+
+/** Byte offsets of the channels that carry bits in a carrier with transparency, in stream order. */
+interface TransparentLayout {
+  slots: Uint32Array;
+  colorSlots: number;
+  alphaSlots: number;
+}
+
+/** The stream of a carrier with transparent pixels, or `null` if every pixel is opaque. */
+const transparentLayout = (pixels: Uint8ClampedArray, useAlpha: boolean): TransparentLayout | null => {
+  const { opaquePixels, translucentPixels, pixelCount } = profileCarrier(pixels);
+  if (opaquePixels === pixelCount) return null;
+
+  const alphaSlots = useAlpha ? translucentPixels : 0;
+  const slots = new Uint32Array(opaquePixels * CHANNELS_PER_PIXEL + alphaSlots);
+  let slot = 0;
+  for (let offset = 0; offset < pixelCount * BYTES_PER_PIXEL; offset += BYTES_PER_PIXEL) {
+    const alpha = pixels[offset + ALPHA_OFFSET];
+    if (alpha === OPAQUE) {
+      slots[slot++] = offset;
+      slots[slot++] = offset + 1;
+      slots[slot++] = offset + 2;
+    } else if (useAlpha && alpha <= MAX_TRANSLUCENT_ALPHA) {
+      slots[slot++] = offset + ALPHA_OFFSET;
+    }
+  }
+  return { slots, colorSlots: opaquePixels * CHANNELS_PER_PIXEL, alphaSlots };
+};
+
+// Alpha slots always take a single bit; colour slots take the requested depth.
+const slotDepth = (offset: number, depth: number) => ((offset & ALPHA_OFFSET) === ALPHA_OFFSET ? 1 : depth);
+
+const writeSlots = (
+  pixels: Uint8ClampedArray,
+  bytes: Uint8Array,
+  slots: Uint32Array,
+  order: ChannelOrder,
+  startSlot: number,
+  depth: number,
+  onProgress?: ProgressCallback
+) => {
+  const bits = bytes.length * 8;
+  let bit = 0;
+  let changes = 0;
+  for (let i = 0; bit < bits; i++) {
+    if (onProgress && (i & (PROGRESS_INTERVAL - 1)) === 0) onProgress(bit / bits);
+    const offset = slots[order(startSlot + i)];
+    const slotBits = slotDepth(offset, depth);
+    let value = 0;
+    for (let k = 0; k < slotBits; k++, bit++) {
+      // Past the last byte the final slot is padded with zeros.
+      value = (value << 1) | (bit < bits ? (bytes[bit >> 3] >> (7 - (bit & 7))) & 1 : 0);
+    }
+    const mask = (1 << slotBits) - 1;
+    if ((pixels[offset] & mask) !== value) changes++;
+    pixels[offset] = (pixels[offset] & ~mask) | value;
+  }
+  return changes;
+};
+
+const readSlots = (
+  pixels: Uint8ClampedArray,
+  count: number,
+  slots: Uint32Array,
+  order: ChannelOrder,
+  startSlot: number,
+  depth: number,
+  onProgress?: ProgressCallback
+): Uint8Array => {
+  const bytes = new Uint8Array(count);
+  const bits = count * 8;
+  let bit = 0;
+  for (let i = 0; bit < bits; i++) {
+    if (onProgress && (i & (PROGRESS_INTERVAL - 1)) === 0) onProgress(bit / bits);
+    const offset = slots[order(startSlot + i)];
+    const slotBits = slotDepth(offset, depth);
+    for (let k = slotBits - 1; k >= 0 && bit < bits; k--, bit++) {
+      bytes[bit >> 3] |= ((pixels[offset] >> k) & 1) << (7 - (bit & 7));
+    }
+  }
+  return bytes;
+};
+
+const assertDepth = (bitsPerChannel: number) => {
+  if (!Number.isInteger(bitsPerChannel) || bitsPerChannel < MIN_BITS_PER_CHANNEL || bitsPerChannel > MAX_BITS_PER_CHANNEL) {
+    throw new Error(`Bits per channel must be between ${MIN_BITS_PER_CHANNEL} and ${MAX_BITS_PER_CHANNEL}.`);
+  }
+};
+
+const groupSize = (hammingBits: number) => (1 << hammingBits) - 1;
+
+/**
+ * Container bytes that fit in a stream of colour and alpha channels, written
+ * at the given depth or matrix-coded with `hammingBits` parity bits. Header
+ * channels are counted at full depth, so with alpha this may be a few bytes low.
+ */
+const capacityForSlots = (colorSlots: number, alphaSlots: number, bitsPerChannel: number, hammingBits = 0) => {
+  if (colorSlots + alphaSlots < HEADER_BITS) return 0;
+  const bodyBits =
+    hammingBits > 0
+      ? Math.floor((colorSlots + alphaSlots - HEADER_BITS) / groupSize(hammingBits)) * hammingBits
+      : colorSlots * bitsPerChannel + alphaSlots - HEADER_BITS * bitsPerChannel;
+  return HEADER_SIZE + Math.floor(Math.max(0, bodyBits) / 8);
+};
+
+/** Number of container bytes that fit in `pixelCount` opaque pixels at the given depth or with matrix embedding. */
+export function capacityForPixels(pixelCount: number, bitsPerChannel = 1, matrix = false): number {
+  return capacityForSlots(pixelCount * CHANNELS_PER_PIXEL, 0, bitsPerChannel, matrix ? MIN_HAMMING_BITS : 0);
+}
+
+/** How the pixels of a carrier split by what they can hold. */
+export interface CarrierProfile {
+  pixelCount: number;
+  /** Pixels with alpha 255, whose R/G/B channels carry bits. */
+  opaquePixels: number;
+  /** Pixels with alpha ≤ 253, whose alpha channel can carry one bit. */
+  translucentPixels: number;
+}
+
+export function profileCarrier(pixels: Uint8ClampedArray): CarrierProfile {
+  const pixelCount = Math.floor(pixels.length / BYTES_PER_PIXEL);
+  let opaquePixels = 0;
+  let translucentPixels = 0;
+  for (let offset = ALPHA_OFFSET; offset < pixelCount * BYTES_PER_PIXEL; offset += BYTES_PER_PIXEL) {
+    if (pixels[offset] === OPAQUE) opaquePixels++;
+    else if (pixels[offset] <= MAX_TRANSLUCENT_ALPHA) translucentPixels++;
+  }
+  return { pixelCount, opaquePixels, translucentPixels };
+}
+
+/** Number of container bytes that fit in a carrier with the given profile, less the salt if it is scattered. */
+export function capacityForProfile(
+  profile: CarrierProfile,
+  bitsPerChannel = 1,
+  useAlpha = false,
+  matrix = false,
+  scattered = false
+): number {
+  const saltChannels = scattered ? SCATTER_SALT_BITS : 0;
+  // Opaque carriers keep the plain layout, where the alpha channel is never used.
+  if (profile.opaquePixels === profile.pixelCount) {
+    const channels = profile.pixelCount * CHANNELS_PER_PIXEL - saltChannels;
+    return capacityForSlots(Math.max(0, channels), 0, bitsPerChannel, matrix ? MIN_HAMMING_BITS : 0);
+  }
+  return capacityForSlots(
+    Math.max(0, profile.opaquePixels * CHANNELS_PER_PIXEL - saltChannels),
+    useAlpha ? profile.translucentPixels : 0,
+    bitsPerChannel,
+    matrix ? MIN_HAMMING_BITS : 0
+  );
+}
+
+const channelCount = (pixels: Uint8ClampedArray) => Math.floor(pixels.length / BYTES_PER_PIXEL) * CHANNELS_PER_PIXEL;
+
+/** Number of container bytes that fit in an RGBA pixel buffer at the given depth or with matrix embedding. */
+export function capacity(
+  pixels: Uint8ClampedArray,
+  bitsPerChannel = 1,
+  useAlpha = false,
+  matrix = false,
+  scattered = false
+): number {
+  return capacityForProfile(profileCarrier(pixels), bitsPerChannel, useAlpha, matrix, scattered);
+}
+
+/**
+ * Smallest opaque carrier with the same aspect ratio as `width` × `height`
+ * that can hold `byteLength` bytes at the given depth or with matrix
+ * embedding, plus the salt if it is scattered.
+ */
+export function minimumCarrierSize(
+  width: number,
+  height: number,
+  byteLength: number,
+  bitsPerChannel = 1,
+  matrix = false,
+  scattered = false
+): { width: number; height: number } {
+  const bitsPerSlot = matrix ? MIN_HAMMING_BITS / groupSize(MIN_HAMMING_BITS) : bitsPerChannel;
+  const requiredPixels = Math.ceil((byteLength * 8) / (CHANNELS_PER_PIXEL * bitsPerSlot));
+  const scale = Math.sqrt(requiredPixels / Math.max(1, width * height));
+  let size = { width: Math.ceil(width * scale), height: Math.ceil(height * scale) };
+  const holds = (pixelCount: number) =>
+    capacityForProfile({ pixelCount, opaquePixels: pixelCount, translucentPixels: 0 }, bitsPerChannel, false, matrix, scattered);
+  while (holds(size.width * size.height) < byteLength) {
+    size = { width: size.width + 1, height: Math.ceil(((size.width + 1) * height) / width) };
+  }
+  return size;
+}
+
+/** Maps a position in the stream to the byte offset of its channel. */
+const slotOffsets = (layout: TransparentLayout | null, order: ChannelOrder) =>
+  layout ? (slot: number) => layout.slots[order(slot)] : (slot: number) => channelOffset(order(slot));
+
+const writeMatrix = (
+  pixels: Uint8ClampedArray,
+  bytes: Uint8Array,
+  offsetAt: (slot: number) => number,
+  startSlot: number,
+  hammingBits: number,
+  onProgress?: ProgressCallback
+) => {
+  const size = groupSize(hammingBits);
+  const bits = bytes.length * 8;
+  const groups = Math.ceil(bits / hammingBits);
+  let changes = 0;
+  for (let group = 0, bit = 0; group < groups; group++) {
+    if (onProgress && (group & (PROGRESS_INTERVAL - 1)) === 0) onProgress(group / groups);
+    let message = 0;
+    for (let k = 0; k < hammingBits; k++, bit++) {
+      // Past the last byte the final group is padded with zeros.
+      message = (message << 1) | (bit < bits ? (bytes[bit >> 3] >> (7 - (bit & 7))) & 1 : 0);
+    }
+    const start = startSlot + group * size;
+    let syndrome = 0;
+    for (let j = 0; j < size; j++) if (pixels[offsetAt(start + j)] & 1) syndrome ^= j + 1;
+    const flip = syndrome ^ message;
+    if (flip !== 0) {
+      pixels[offsetAt(start + flip - 1)] ^= 1;
+      changes++;
+    }
+  }
+  return changes;
+};
+
+const readMatrix = (
+  pixels: Uint8ClampedArray,
+  count: number,
+  offsetAt: (slot: number) => number,
+  startSlot: number,
+  hammingBits: number,
+  onProgress?: ProgressCallback
+): Uint8Array => {
+  const bytes = new Uint8Array(count);
+  const size = groupSize(hammingBits);
+  const bits = count * 8;
+  const groups = Math.ceil(bits / hammingBits);
+  for (let group = 0, bit = 0; group < groups; group++) {
+    if (onProgress && (group & (PROGRESS_INTERVAL - 1)) === 0) onProgress(group / groups);
+    const start = startSlot + group * size;
+    let syndrome = 0;
+    for (let j = 0; j < size; j++) if (pixels[offsetAt(start + j)] & 1) syndrome ^= j + 1;
+    for (let k = hammingBits - 1; k >= 0 && bit < bits; k--, bit++) {
+      bytes[bit >> 3] |= ((syndrome >> k) & 1) << (7 - (bit & 7));
+    }
+  }
+  return bytes;
+};
+
+/** The largest Hamming code a body of `bodyLength` bytes fits at, after the header. */
+const hammingBitsFor = (bodyLength: number, streamLength: number) => {
+  for (let k = MAX_HAMMING_BITS; k > MIN_HAMMING_BITS; k--) {
+    if (HEADER_BITS + Math.ceil((bodyLength * 8) / k) * groupSize(k) <= streamLength) return k;
+  }
+  return MIN_HAMMING_BITS;
+};
+
+/** The scattered order of a stream of `streamLength` channels, after its salt. */
+const orderAfterSalt = (streamLength: number, seed: Uint32Array): ChannelOrder => {
+  const scattered = scatteredOrder(streamLength - SCATTER_SALT_BITS, seed);
+  return (position) => SCATTER_SALT_BITS + scattered(position);
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/**
+ * Writes an encoded container into the low bits of the R/G/B channels, most
+ * significant bit first, and records the layout in its header. The buffer is
+ * modified in place and returned.
+ */
+export function embed(pixels: Uint8ClampedArray, container: Uint8Array, options: EmbedOptions = {}): Uint8ClampedArray {
+  const bitsPerChannel = options.bitsPerChannel ?? 1;
+  assertDepth(bitsPerChannel);
+  const matrix = options.matrixEmbedding ?? false;
+  if (matrix && bitsPerChannel !== 1) throw new Error("Matrix embedding uses one bit per channel.");
+  const layout = transparentLayout(pixels, options.useAlpha ?? false);
+  const { scatter, errorCorrection = ErrorCorrection.None } = options;
+  const saltChannels = scatter ? SCATTER_SALT_BITS : 0;
+  const streamLength = layout ? layout.slots.length : channelCount(pixels);
+  const size = protectedSize(container.length, errorCorrection);
+  const available = layout
+    ? capacityForSlots(Math.max(0, layout.colorSlots - saltChannels), layout.alphaSlots, bitsPerChannel, matrix ? MIN_HAMMING_BITS : 0)
+    : capacityForSlots(Math.max(0, streamLength - saltChannels), 0, bitsPerChannel, matrix ? MIN_HAMMING_BITS : 0);
+  if (size > available) {
+    throw new Error(`Payload of ${size} bytes exceeds the carrier capacity of ${available} bytes.`);
+  }
+
+  const hammingBits = matrix ? hammingBitsFor(size - HEADER_SIZE, streamLength - saltChannels) : 0;
+  const flagged = withEmbeddingFlags(container, {
+    bitsPerChannel,
+    scattered: Boolean(scatter),
+    alpha: Boolean(layout && layout.alphaSlots > 0),
+    errorCorrection,
+    hammingBits,
+  });
+  const bytes = protect(flagged, errorCorrection);
+  const header = bytes.subarray(0, HEADER_SIZE);
+  const body = bytes.subarray(HEADER_SIZE);
+  let order = sequentialOrder;
+  let changes = 0;
+  if (scatter) {
+    if (scatter.salt.length !== SCATTER_SALT_SIZE) throw new Error(`Scatter salt must be ${SCATTER_SALT_SIZE} bytes.`);
+    changes += layout
+      ? writeSlots(pixels, scatter.salt, layout.slots, sequentialOrder, 0, 1)
+      : writeBytes(pixels, scatter.salt, sequentialOrder, 0, 1);
+    order = orderAfterSalt(streamLength, scatter.seed);
+  }
+  changes += layout
+    ? writeSlots(pixels, header, layout.slots, order, 0, 1)
+    : writeBytes(pixels, header, order, 0, 1);
+  if (hammingBits > 0) {
+    changes += writeMatrix(pixels, body, slotOffsets(layout, order), HEADER_BITS, hammingBits, options.onProgress);
+  } else if (layout) {
+    changes += writeSlots(pixels, body, layout.slots, order, HEADER_BITS, bitsPerChannel, options.onProgress);
+  } else {
+    changes += writeBytes(pixels, body, order, HEADER_BITS, bitsPerChannel, options.onProgress);
+  }
+  options.onProgress?.(1);
+  options.onEmbedded?.({ bits: bytes.length * 8, changes });
+  return pixels;
+}
+
+/** How the body follows the header: plain LSBs at some depth, or matrix-coded. */
+type BodyCoding = Pick<EmbeddingFlags, "bitsPerChannel" | "hammingBits">;
+
+// Every coding a header can announce, tried in turn when a damaged header has to be repaired.
+const BODY_CODINGS: BodyCoding[] = [
+  ...Array.from({ length: MAX_BITS_PER_CHANNEL }, (_, i) => ({ bitsPerChannel: i + 1, hammingBits: 0 })),
+  ...Array.from({ length: MAX_HAMMING_BITS - MIN_HAMMING_BITS + 1 }, (_, i) => ({
+    bitsPerChannel: 1,
+    hammingBits: MIN_HAMMING_BITS + i,
+  })),
+];
+
+/** Reads the header (for a `null` coding) or the start of the body of a stream. */
+type StreamReader = (
+  count: number,
+  order: ChannelOrder,
+  coding: BodyCoding | null,
+  onProgress?: ProgressCallback
+) => Uint8Array;
+
+/**
+ * The header at the start of the stream in the given order, with how many of
+ * its bytes were repaired. A header without the magic, or flagged as
+ * protected, is checked against the parity that follows it, read with each
+ * coding the body may have been written with.
+ */
+const locateHeader = (read: StreamReader, order: ChannelOrder) => {
+  const header = read(HEADER_SIZE, order, null);
+  const flags = readEmbeddingFlags(header);
+  const found = hasMagic(header);
+  if (found && flags.errorCorrection === ErrorCorrection.None) return { header, corrected: 0 };
+
+  for (const coding of found ? [flags] : BODY_CODINGS) {
+    const recovered = recoverHeader(header, read(HEADER_PARITY_SIZE, order, coding));
+    if (!recovered || !hasMagic(recovered.header)) continue;
+    const repaired = readEmbeddingFlags(recovered.header);
+    if (
+      repaired.errorCorrection !== ErrorCorrection.None &&
+      repaired.bitsPerChannel === coding.bitsPerChannel &&
+      repaired.hammingBits === coding.hammingBits
+    ) {
+      return recovered;
+    }
+  }
+  return found ? { header, corrected: 0 } : null;
+};
+
+/** A header found in one layout of a carrier, with everything needed to read the body after it. */
+interface LocatedHeader {
+  header: Uint8Array;
+  corrected: number;
+  flags: EmbeddingFlags;
+  order: ChannelOrder;
+  read: StreamReader;
+  bodySize: number;
+}
+
+/**
+ * Finds the header in the given layout, `null` meaning the plain one: first in
+ * the sequential order, then in the scattered one if there is a seed for the
+ * salt at the start of the stream.
+ */
+const locateIn = (pixels: Uint8ClampedArray, layout: TransparentLayout | null, scatter: Scatter[] = []): LocatedHeader | null => {
+  const streamLength = layout ? layout.slots.length : channelCount(pixels);
+  if (streamLength < HEADER_BITS) return null;
+  const read: StreamReader = (count, order, coding, onProgress) => {
+    const start = coding ? HEADER_BITS : 0;
+    const depth = coding ? coding.bitsPerChannel : 1;
+    if (coding && coding.hammingBits > 0) {
+      return readMatrix(pixels, count, slotOffsets(layout, order), start, coding.hammingBits, onProgress);
+    }
+    return layout
+      ? readSlots(pixels, count, layout.slots, order, start, depth, onProgress)
+      : readBytes(pixels, count, order, start, depth, onProgress);
+  };
+
+  let order = sequentialOrder;
+  let located = locateHeader(read, order);
+  let saltChannels = 0;
+  if (!located && scatter.length > 0 && streamLength >= SCATTER_SALT_BITS + HEADER_BITS) {
+    const salt = read(SCATTER_SALT_SIZE, sequentialOrder, null);
+    const seed = scatter.find((candidate) => sameBytes(candidate.salt, salt))?.seed;
+    if (seed) {
+      order = orderAfterSalt(streamLength, seed);
+      located = locateHeader(read, order);
+      saltChannels = SCATTER_SALT_BITS;
+    }
+  }
+  if (!located) return null;
+
+  const flags = readEmbeddingFlags(located.header);
+  const available = layout
+    ? capacityForSlots(Math.max(0, layout.colorSlots - saltChannels), layout.alphaSlots, flags.bitsPerChannel, flags.hammingBits)
+    : capacityForSlots(streamLength - saltChannels, 0, flags.bitsPerChannel, flags.hammingBits);
+  const containerSize = readContainerSize(located.header);
+  const bodySize = Math.max(0, Math.min(protectedSize(containerSize, flags.errorCorrection), available) - HEADER_SIZE);
+  return { ...located, flags, order, read, bodySize };
+};
+
+const readLocated = (located: LocatedHeader, options: ExtractOptions): Uint8Array | null => {
+  const { header, flags, order, bodySize } = located;
+  const body = located.read(bodySize, order, flags, options.onProgress);
+  options.onProgress?.(1);
+
+  if (flags.errorCorrection !== ErrorCorrection.None) {
+    const { container, corrected } = recoverContainer(header, body);
+    options.onCorrected?.(located.corrected + corrected);
+    return container;
+  }
+  const container = new Uint8Array(HEADER_SIZE + bodySize);
+  container.set(header);
+  container.set(body, HEADER_SIZE);
+  return container;
+};
+
+/** Whether every pixel whose channels hold the sequentially written container is opaque. */
+const opaqueSpan = (pixels: Uint8ClampedArray, { flags, bodySize }: LocatedHeader) => {
+  const bodyBits = bodySize * 8;
+  const bodyChannels =
+    flags.hammingBits > 0
+      ? Math.ceil(bodyBits / flags.hammingBits) * groupSize(flags.hammingBits)
+      : Math.ceil(bodyBits / flags.bitsPerChannel);
+  const end = Math.ceil((HEADER_BITS + bodyChannels) / CHANNELS_PER_PIXEL) * BYTES_PER_PIXEL;
+  for (let offset = ALPHA_OFFSET; offset < end && offset < pixels.length; offset += BYTES_PER_PIXEL) {
+    if (pixels[offset] !== OPAQUE) return false;
+  }
+  return true;
+};
+
+/**
+ * Reads a container back out of a pixel buffer, picking up the depth from its
+ * header. The sequential layout is tried first, then the scattered one if
+ * seeds are given. Carriers with transparency are read with the opaque-only
+ * stream, then with alpha, then with the plain layout of older versions.
+ * Protected containers are repaired on the way out. Returns `null` when none
+ * yields the container magic, i.e. nothing is hidden or the key does not match.
+ *
+ * Where the container only covers opaque pixels the opaque-only stream is the
+ * plain one, so the plain layout is tried before the carrier is profiled; the
+ * slot tables are only built when that does not settle it.
+ */
+export function extract(pixels: Uint8ClampedArray, options: ExtractOptions = {}): Uint8Array | null {
+  const plain = locateIn(pixels, null, options.scatter);
+  // A scattered header found in the plain layout's order was written with that layout's stream length.
+  if (plain && !plain.flags.alpha && (plain.order !== sequentialOrder || opaqueSpan(pixels, plain))) {
+    return readLocated(plain, options);
+  }
+
+  for (const useAlpha of [false, true]) {
+    if (plain?.flags.alpha && !useAlpha) continue;
+    const layout = transparentLayout(pixels, useAlpha);
+    // Opaque carriers have no other layout, and without translucent pixels alpha adds nothing.
+    if (!layout || (useAlpha && layout.alphaSlots === 0)) break;
+    const located = locateIn(pixels, layout, options.scatter);
+    if (located && located.flags.alpha === useAlpha) return readLocated(located, options);
+  }
+  return plain && readLocated(plain, options);
+}
+
+/**
+ * The salts at the start of the streams a scattered container may have been
+ * embedded in, without repeats: one for opaque carriers, up to two for
+ * carriers with transparency. Their seeds go into `ExtractOptions.scatter`.
+ */
+export function scatterSalts(pixels: Uint8ClampedArray): Uint8Array[] {
+  const salts: Uint8Array[] = [];
+  const add = (salt: Uint8Array) => {
+    if (!salts.some((known) => sameBytes(known, salt))) salts.push(salt);
+  };
+  const minimum = SCATTER_SALT_BITS + HEADER_BITS;
+  const layouts = [transparentLayout(pixels, false), transparentLayout(pixels, true)];
+  if (!layouts[0]) {
+    if (channelCount(pixels) >= minimum) add(readBytes(pixels, SCATTER_SALT_SIZE, sequentialOrder, 0, 1));
+    return salts;
+  }
+  for (const layout of layouts) {
+    if (layout && layout.slots.length >= minimum) add(readSlots(pixels, SCATTER_SALT_SIZE, layout.slots, sequentialOrder, 0, 1));
+  }
+  return salts;
+}
+
+/*
+ * The raw stream is the one-bit stream of the plain layout without a header:
+ * every R/G/B channel of an opaque carrier, or those of the opaque pixels of
+ * one with transparency. Deniable layers (see `layers.ts`) fill it completely,
+ * so nothing marks the carrier as holding data.
+ */
+
+const rawLayout = (pixels: Uint8ClampedArray) => transparentLayout(pixels, false);
+
+/** Number of bytes the raw stream of a carrier with the given profile holds. */
+export function rawCapacityForProfile(profile: CarrierProfile): number {
+  return Math.floor((profile.opaquePixels * CHANNELS_PER_PIXEL) / 8);
+}
+
+/** Number of bytes the raw stream of a carrier holds. */
+export function rawCapacity(pixels: Uint8ClampedArray): number {
+  return rawCapacityForProfile(profileCarrier(pixels));
+}
+
+/** Writes `bytes` to the start of the raw stream and returns how many channels changed. */
+export function embedRaw(pixels: Uint8ClampedArray, bytes: Uint8Array, onProgress?: ProgressCallback): number {
+  const available = rawCapacity(pixels);
+  if (bytes.length > available) {
+    throw new Error(`Payload of ${bytes.length} bytes exceeds the carrier capacity of ${available} bytes.`);
+  }
+  const layout = rawLayout(pixels);
+  const changes = layout
+    ? writeSlots(pixels, bytes, layout.slots, sequentialOrder, 0, 1, onProgress)
+    : writeBytes(pixels, bytes, sequentialOrder, 0, 1, onProgress);
+  onProgress?.(1);
+  return changes;
+}
+
+/** Reads the first `count` bytes of the raw stream. */
+export function extractRaw(pixels: Uint8ClampedArray, count: number, onProgress?: ProgressCallback): Uint8Array {
+  const layout = rawLayout(pixels);
+  const bytes = layout
+    ? readSlots(pixels, count, layout.slots, sequentialOrder, 0, 1, onProgress)
+    : readBytes(pixels, count, sequentialOrder, 0, 1, onProgress);
+  onProgress?.(1);
+  return bytes;
+}
+
+/*
+ * The encoder this format replaced wrote a NUL-terminated string to the LSBs
+ * of R, G and B of every pixel in order, transparent or not, with no header.
+ */
+
+const TERMINATED_CHUNK = 1024;
+
+/**
+ * Reads the NUL-terminated string at the start of the plain stream, or returns
+ * `null` if it does not begin with `prefix` or never ends. Other carriers are
+ * turned away after reading `prefix.length` bytes.
+ */
+export function extractTerminated(pixels: Uint8ClampedArray, prefix: Uint8Array): Uint8Array | null {
+  const available = Math.floor(channelCount(pixels) / 8);
+  if (prefix.length > available) return null;
+  const head = readBytes(pixels, prefix.length, sequentialOrder, 0, 1);
+  for (let i = 0; i < prefix.length; i++) {
+    if (head[i] !== prefix[i]) return null;
+  }
+  // Reading from the start each time costs at most a third more than knowing the length.
+  for (let count = TERMINATED_CHUNK; ; count *= 4) {
+    const bytes = readBytes(pixels, Math.min(count, available), sequentialOrder, 0, 1);
+    const end = bytes.indexOf(0);
+    if (end !== -1) return bytes.slice(0, end);
+    if (count >= available) return null;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { compress, decompress, MAX_INFLATED_SIZE } from "./compress";
+import { COMPRESSED_FLAG, decodeContainer, encodeContainer, SectionType } from "./container";
+import { createKdfParams, deriveKey, ECDH_ALGORITHM, encodeKdfParams, encryptSection, MAX_KDF_ITERATIONS } from "./crypto";
+import { openMessage, sealMessage, sealedSize } from "./message";
+import { ECDSA_ALGORITHM, signSections, verifySections } from "./signature";
+
+// The default work factor takes seconds per derivation; the tests only need the format.
+const iterations = 1000;
+
+describe("sealMessage and openMessage", () => {
+  it("round-trips text, an embedded image and a file", async () => {
+    const file = { name: "notes.pdf", type: "application/pdf", data: crypto.getRandomValues(new Uint8Array(300)) };
+    const content = { text: "Meet at the old mill ✓", image: "data:image/png;base64,iVBORw0KGgo=", file };
+    const revealed = await openMessage(await sealMessage(content, "correct horse battery", { iterations }), "correct horse battery");
+    expect(revealed.hasError).toBe(false);
+    expect(revealed.text).toBe(content.text);
+    expect(revealed.embeddedImage).toBe(content.image);
+    expect(revealed.file).toEqual(file);
+    expect(revealed.signature).toBeNull();
+  });
+
+  it("reports a wrong passphrase", async () => {
+    const sealed = await sealMessage({ text: "secret" }, "correct horse battery", { iterations });
+    const revealed = await openMessage(sealed, "wrong horse battery");
+    expect(revealed.hasError).toBe(true);
+    expect(revealed.text).not.toContain("secret");
+  });
+
+  it("predicts the sealed size exactly", async () => {
+    for (const compress of [true, false]) {
+      const content = { text: "abc ".repeat(200) };
+      const sealed = await sealMessage(content, "correct horse battery", { iterations, compress });
+      expect(sealed.length).toBe(sealedSize(content, { compress }));
+    }
+  });
+
+  it("compresses repetitive content", async () => {
+    const content = { text: "abc ".repeat(200) };
+    expect(sealedSize(content)).toBeLessThan(sealedSize(content, { compress: false }));
+    const sealed = await sealMessage(content, "correct horse battery", { iterations });
+    expect((await openMessage(sealed, "correct horse battery")).text).toBe(content.text.trim());
+  });
+
+  it("rejects a damaged container", async () => {
+    const sealed = await sealMessage({ text: "secret" }, "correct horse battery", { iterations });
+    sealed[sealed.length - 1] ^= 1;
+    await expect(openMessage(sealed, "correct horse battery")).rejects.toThrow();
+  });
+
+  it("refuses a container that asks for more key-derivation iterations than the cap", async () => {
+    const { flags, sections } = decodeContainer(await sealMessage({ text: "secret" }, "correct horse battery", { iterations }));
+    const kdf = sections.find((section) => section.type === SectionType.KeyDerivation)!;
+    new DataView(kdf.data.buffer, kdf.data.byteOffset).setUint32(1, MAX_KDF_ITERATIONS + 1);
+    await expect(openMessage(encodeContainer(sections, flags), "correct horse battery")).rejects.toThrow(/iterations/);
+  });
+
+  it("stops inflating a section that expands past the limit", async () => {
+    expect(() => decompress(compress(new Uint8Array(4096)), 4095)).toThrow(/exceeds/);
+    expect(decompress(compress(new Uint8Array(4096)), 4096)).toHaveLength(4096);
+
+    const params = createKdfParams(iterations);
+    const key = await deriveKey("correct horse battery", params);
+    const bomb = compress(new Uint8Array(MAX_INFLATED_SIZE + 1));
+    const sealed = encodeContainer(
+      [
+        { type: SectionType.KeyDerivation, data: encodeKdfParams(params) },
+        { type: SectionType.Text, data: await encryptSection(key, bomb, Uint8Array.of(SectionType.Text)) },
+      ],
+      COMPRESSED_FLAG
+    );
+    expect(await openMessage(sealed, "correct horse battery")).toMatchObject({ text: "Error: Wrong decryption key", hasError: true });
+  });
+});
+
+describe("signatures", () => {
+  const signer = () => crypto.subtle.generateKey(ECDSA_ALGORITHM, true, ["sign", "verify"]);
+
+  it("verifies content signed and sealed to a public key", async () => {
+    const recipient = await crypto.subtle.generateKey(ECDH_ALGORITHM, true, ["deriveBits"]);
+    const signingKeys = await signer();
+    const sealed = await sealMessage({ text: "from me" }, recipient.publicKey, { signer: signingKeys });
+    const revealed = await openMessage(sealed, { privateKeys: [recipient.privateKey] });
+    expect(revealed.text).toBe("from me");
+    expect(revealed.signature?.valid).toBe(true);
+    const signerKey = new Uint8Array(await crypto.subtle.exportKey("raw", signingKeys.publicKey));
+    expect(revealed.signature?.signerPublicKey).toEqual(signerKey);
+  });
+
+  it("does not carry over to content re-sealed with other key derivation parameters", async () => {
+    const sections = [{ type: SectionType.Text, data: new TextEncoder().encode("from me") }];
+    const original = encodeKdfParams(createKdfParams(iterations));
+    const signature = await signSections(sections, original, await signer());
+    expect((await verifySections(sections, original, signature)).valid).toBe(true);
+    expect((await verifySections(sections, encodeKdfParams(createKdfParams(iterations)), signature)).valid).toBe(false);
+  });
+});
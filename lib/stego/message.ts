@@ -0,0 +1,260 @@
+import { base64ToBytes, bytesToLatin1, utf8Decode, utf8Encode } from "./bytes";
+import { MAX_INFLATED_SIZE, compress, decompress } from "./compress";
+import {
+  COMPRESSED_FLAG,
+  SectionType,
+  containerSize,
+  decodeContainer,
+  encodeContainer,
+  type Container,
+  type Section,
+} from "./container";
+import {
+  KDF_PARAMS_SIZE,
+  RECIPIENT_PARAMS_SIZE,
+  createKdfParams,
+  decodeKdfParams,
+  decryptSection,
+  deriveKey,
+  deriveKeyFromPrivateKey,
+  deriveRecipientKey,
+  encodeKdfParams,
+  encryptSection,
+  encryptedSize,
+  type KdfParams,
+} from "./crypto";
+import { packFile, unpackFile } from "./files";
+import { decryptLegacy } from "./legacy";
+import { SIGNATURE_SECTION_SIZE, signSections, verifySections } from "./signature";
+import type { HiddenContent, HiddenFile, RevealedContent, SignatureInfo } from "./types";
+
+export interface SealOptions {
+  /** DEFLATE each section before encryption when that makes the container smaller. Defaults to true. */
+  compress?: boolean;
+  /** PBKDF2 iterations. Defaults to `DEFAULT_KDF_ITERATIONS`. */
+  iterations?: number;
+  /** ECDSA P-256 key pair to sign the content with. */
+  signer?: CryptoKeyPair;
+}
+
+/** What `sealedSize` needs to know about how the content will be sealed. */
+export interface SizeOptions {
+  compress?: boolean;
+  /** Sealed to a public key rather than a passphrase. */
+  recipient?: boolean;
+  signed?: boolean;
+}
+
+/** A shared passphrase, or the recipient's ECDH public key. */
+export type SealKey = string | CryptoKey;
+
+/** What the reader holds: a passphrase, their ECDH private keys, or both. */
+export type OpenKey = string | { passphrase?: string; privateKeys?: CryptoKey[] };
+
+const toPlaintextSections = (content: HiddenContent): Section[] => {
+  const sections: Section[] = [];
+  if (content.text) sections.push({ type: SectionType.Text, data: utf8Encode(content.text) });
+  if (content.image) sections.push({ type: SectionType.Image, data: utf8Encode(content.image) });
+  if (content.file) sections.push({ type: SectionType.File, data: packFile(content.file) });
+  return sections;
+};
+
+const totalLength = (sections: Section[]) => sections.reduce((sum, section) => sum + section.data.length, 0);
+
+// The capacity meter re-measures on every keystroke, so attachments are only deflated once.
+const deflatedFiles = new WeakMap<HiddenFile, Uint8Array>();
+
+const deflateSection = (section: Section, content: HiddenContent): Uint8Array => {
+  if (section.type !== SectionType.File || !content.file) return compress(section.data);
+  let deflated = deflatedFiles.get(content.file);
+  if (!deflated) {
+    deflated = compress(section.data);
+    deflatedFiles.set(content.file, deflated);
+  }
+  return deflated;
+};
+
+/** Plaintext sections as they will be encrypted, and whether they were compressed. */
+const prepareSections = (content: HiddenContent, options: { compress?: boolean }) => {
+  const plain = toPlaintextSections(content);
+  // Content the decoder would refuse to inflate is stored as is.
+  if (options.compress === false || totalLength(plain) > MAX_INFLATED_SIZE) return { plain, sections: plain, compressed: false };
+  const deflated = plain.map((section) => ({ type: section.type, data: deflateSection(section, content) }));
+  return totalLength(deflated) < totalLength(plain)
+    ? { plain, sections: deflated, compressed: true }
+    : { plain, sections: plain, compressed: false };
+};
+
+// Binding each ciphertext to its section type stops sections being relabelled.
+const associatedData = (type: SectionType) => Uint8Array.of(type);
+
+const createEncryptionKey = async (key: SealKey, options: SealOptions) => {
+  if (typeof key !== "string") return deriveRecipientKey(key);
+  const params = createKdfParams(options.iterations);
+  return { key: await deriveKey(key, params), params };
+};
+
+/**
+ * Encrypts each part of `content` with AES-256-GCM under a key derived from
+ * `key` and packs them, with the derivation parameters, into a container.
+ * Passing a public key instead of a passphrase encrypts to its owner.
+ */
+export async function sealMessage(content: HiddenContent, key: SealKey, options: SealOptions = {}): Promise<Uint8Array> {
+  const { plain, sections, compressed } = prepareSections(content, options);
+  const { key: cryptoKey, params } = await createEncryptionKey(key, options);
+  const kdfSection = encodeKdfParams(params);
+  if (options.signer) {
+    // Appended after compression is decided: the signature is always stored uncompressed.
+    sections.push({ type: SectionType.Signature, data: await signSections(plain, kdfSection, options.signer) });
+  }
+  const encrypted = await Promise.all(
+    sections.map(async (section) => ({
+      type: section.type,
+      data: await encryptSection(cryptoKey, section.data, associatedData(section.type)),
+    }))
+  );
+  return encodeContainer(
+    [{ type: SectionType.KeyDerivation, data: kdfSection }, ...encrypted],
+    compressed ? COMPRESSED_FLAG : 0
+  );
+}
+
+/** Exact size in bytes of the container `sealMessage` would produce for `content`. */
+export function sealedSize(content: HiddenContent, options: SizeOptions = {}): number {
+  const { sections } = prepareSections(content, options);
+  const lengths = [
+    options.recipient ? RECIPIENT_PARAMS_SIZE : KDF_PARAMS_SIZE,
+    ...sections.map((section) => encryptedSize(section.data.length)),
+  ];
+  if (options.signed) lengths.push(encryptedSize(SIGNATURE_SECTION_SIZE));
+  return containerSize(lengths);
+}
+
+// A key pair on a different curve cannot be used at all, which is the same as being the wrong key.
+const derivePrivateKeys = async (privateKeys: CryptoKey[], params: KdfParams) => {
+  const keys = await Promise.all(privateKeys.map((key) => deriveKeyFromPrivateKey(key, params).catch(() => null)));
+  return keys.filter((key): key is CryptoKey => key !== null);
+};
+
+/** Returns a function that decrypts one section of the container, or `null` on a wrong key. */
+const createDecryptor = async (container: Container, openKey: OpenKey) => {
+  const { version, sections } = container;
+  const { passphrase = "", privateKeys = [] } = typeof openKey === "string" ? { passphrase: openKey } : openKey;
+
+  if (version < 3) {
+    return async (section: Section) =>
+      decryptLegacy(version === 1 ? base64ToBytes(bytesToLatin1(section.data)) : section.data, passphrase);
+  }
+
+  const kdfSection = sections.find((section) => section.type === SectionType.KeyDerivation);
+  if (!kdfSection) throw new Error("Hidden data is missing its key derivation parameters");
+  const params = decodeKdfParams(kdfSection.data);
+  if (params.kind === "passphrase") {
+    if (!passphrase) return async () => null;
+    const cryptoKey = await deriveKey(passphrase, params);
+    return (section: Section) => decryptSection(cryptoKey, section.data, associatedData(section.type));
+  }
+
+  // Nothing records which key the message was sealed to, so each private key is tried in turn.
+  let candidates = await derivePrivateKeys(privateKeys, params);
+  return async (section: Section) => {
+    for (const cryptoKey of candidates) {
+      const plaintext = await decryptSection(cryptoKey, section.data, associatedData(section.type));
+      if (plaintext) {
+        candidates = [cryptoKey];
+        return plaintext;
+      }
+    }
+    return null;
+  };
+};
+
+const inflate = (plaintext: Uint8Array | null, compressed: boolean, maxLength: number) => {
+  if (!plaintext || !compressed) return plaintext;
+  try {
+    return decompress(plaintext, maxLength);
+  } catch {
+    return null;
+  }
+};
+
+// Malformed plaintext means the key was wrong, so both decoders map errors to null.
+const decodeText = (plaintext: Uint8Array): string | null => {
+  try {
+    return utf8Decode(plaintext);
+  } catch {
+    return null;
+  }
+};
+
+const decodeFile = (plaintext: Uint8Array): HiddenFile | null => {
+  try {
+    return unpackFile(plaintext);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses a container, decrypts its sections and inflates them if the header
+ * says so. Containers from before AES-GCM are decrypted with the legacy
+ * CryptoJS scheme; containers sealed to a public key are opened with
+ * whichever of `key.privateKeys` matches. A signature, if present, is checked
+ * against the decrypted content. Throws if the container is malformed or
+ * fails its checksum; a wrong key is reported via `hasError`.
+ */
+export async function openMessage(bytes: Uint8Array, key: OpenKey): Promise<RevealedContent> {
+  const container = decodeContainer(bytes);
+  const decrypt = await createDecryptor(container, key);
+  const compressed = Boolean(container.flags & COMPRESSED_FLAG);
+  // Shared by all sections, so many small bombs are refused like one large one.
+  let inflateBudget = MAX_INFLATED_SIZE;
+
+  let text = "";
+  let embeddedImage: string | null = null;
+  let file: HiddenFile | null = null;
+  let hasError = false;
+  const contentSections: Section[] = [];
+  let signatureSection: Uint8Array | null = null;
+
+  for (const section of container.sections) {
+    if (section.type === SectionType.KeyDerivation) continue;
+    if (section.type === SectionType.Signature) {
+      signatureSection = await decrypt(section);
+      if (!signatureSection) hasError = true;
+      continue;
+    }
+    const plaintext = inflate(await decrypt(section), compressed, inflateBudget);
+    if (plaintext && compressed) inflateBudget -= plaintext.length;
+    if (plaintext) contentSections.push({ type: section.type, data: plaintext });
+    if (section.type === SectionType.File) {
+      const decryptedFile = plaintext && decodeFile(plaintext);
+      if (decryptedFile) file = decryptedFile;
+      else hasError = true;
+      continue;
+    }
+
+    const decryptedPart = plaintext && decodeText(plaintext);
+    if (decryptedPart === null) {
+      hasError = true;
+    } else if (section.type === SectionType.Image) {
+      embeddedImage = decryptedPart;
+    } else if (section.type === SectionType.Text) {
+      text += decryptedPart + " ";
+    }
+  }
+
+  if (!text && !embeddedImage && !file) {
+    return {
+      text: hasError ? "Error: Wrong decryption key" : "No hidden data found",
+      embeddedImage: null,
+      file: null,
+      signature: null,
+      hasError,
+    };
+  }
+  const kdfSection = container.sections.find((section) => section.type === SectionType.KeyDerivation);
+  const signature: SignatureInfo | null =
+    signatureSection && (await verifySections(contentSections, kdfSection?.data ?? new Uint8Array(0), signatureSection));
+  return { text: text.trim(), embeddedImage, file, signature, hasError: false };
+}
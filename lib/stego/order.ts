@@ -0,0 +1,29 @@
+import { createPrng, randomBelow } from "./prng";
+
+/** Maps the n-th position of the bit stream to a channel index of the carrier. */
+export type ChannelOrder = (position: number) => number;
+
+export const sequentialOrder: ChannelOrder = (position) => position;
+
+/**
+ * Seed-dependent permutation of `channelCount` channels. Positions are drawn
+ * lazily with a partial Fisher–Yates shuffle, so memory grows with the number
+ * of positions actually used rather than with the carrier size.
+ */
+export function scatteredOrder(channelCount: number, seed: Uint32Array): ChannelOrder {
+  const next = createPrng(seed);
+  const displaced = new Map<number, number>();
+  const drawn: number[] = [];
+
+  return (position) => {
+    while (drawn.length <= position) {
+      const i = drawn.length;
+      const j = i + randomBelow(next, channelCount - i);
+      const atJ = displaced.get(j) ?? j;
+      displaced.set(j, displaced.get(i) ?? i);
+      displaced.delete(i);
+      drawn.push(atJ);
+    }
+    return drawn[position];
+  };
+}
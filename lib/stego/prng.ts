@@ -0,0 +1,55 @@
+import { utf8Encode } from "./bytes";
+import { DEFAULT_KDF_ITERATIONS } from "./crypto";
+
+export type Prng = () => number;
+
+/**
+ * Derives a 128-bit PRNG seed from a passphrase and a random per-carrier salt
+ * with PBKDF2-SHA256. The work factor matches the container's own key, so the
+ * seed is no shortcut for testing guesses at the passphrase.
+ */
+export async function deriveSeed(
+  key: string,
+  salt: Uint8Array,
+  purpose: string,
+  iterations = DEFAULT_KDF_ITERATIONS
+): Promise<Uint32Array> {
+  const prefix = utf8Encode(`stagno:${purpose}:`);
+  const purposeSalt = new Uint8Array(prefix.length + salt.length);
+  purposeSalt.set(prefix);
+  purposeSalt.set(salt, prefix.length);
+  const material = await crypto.subtle.importKey("raw", utf8Encode(key), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt: purposeSalt, iterations }, material, 128);
+  const view = new DataView(bits);
+  return Uint32Array.from({ length: 4 }, (_, i) => view.getUint32(i * 4));
+}
+
+/** xoshiro128** — returns uniformly distributed unsigned 32-bit integers. */
+export function createPrng(seed: Uint32Array): Prng {
+  let a = seed[0];
+  let b = seed[1];
+  let c = seed[2];
+  let d = seed[3];
+  if ((a | b | c | d) === 0) a = 1; // the all-zero state is a fixed point
+  return () => {
+    const result = Math.imul(rotl(Math.imul(b, 5), 7), 9) >>> 0;
+    const t = b << 9;
+    c ^= a;
+    d ^= b;
+    b ^= c;
+    a ^= d;
+    c ^= t;
+    d = rotl(d, 11);
+    return result;
+  };
+}
+
+const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k));
+
+/** Uniform integer in [0, bound) without modulo bias. */
+export function randomBelow(next: Prng, bound: number): number {
+  const limit = 0x100000000 - (0x100000000 % bound);
+  let value = next();
+  while (value >= limit) value = next();
+  return value % bound;
+}
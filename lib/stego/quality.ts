@@ -0,0 +1,185 @@
+const BYTES_PER_PIXEL = 4;
+// Longest side of the preview images; larger carriers are shrunk to fit.
+const PREVIEW_SIZE = 512;
+// SSIM windows are 8×8 luma pixels, moved 4 pixels at a time.
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/** How far an encoded carrier is from its cover. */
+export interface QualityMetrics {
+  /** Peak signal-to-noise ratio over R, G and B in dB; `Infinity` when nothing changed. */
+  psnr: number;
+  /** Mean structural similarity of the luma, 1 for identical images. */
+  ssim: number;
+  /** Pixels with at least one changed channel. */
+  modifiedPixels: number;
+  totalPixels: number;
+}
+
+/** A small RGBA image that can be drawn as-is. */
+export interface PreviewImage {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface CarrierComparison {
+  metrics: QualityMetrics;
+  /** Changed pixels in red, brighter for larger changes, over a darkened cover. */
+  heatmap: PreviewImage;
+  /** Least significant bit of each channel, shown at full intensity. */
+  lsbBefore: PreviewImage;
+  lsbAfter: PreviewImage;
+}
+
+const luma = (pixels: Uint8ClampedArray, pixelCount: number) => {
+  const values = new Float32Array(pixelCount);
+  for (let i = 0, offset = 0; i < pixelCount; i++, offset += BYTES_PER_PIXEL) {
+    values[i] = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+  }
+  return values;
+};
+
+const ssim = (cover: Uint8ClampedArray, encoded: Uint8ClampedArray, width: number, height: number): number => {
+  const x = luma(cover, width * height);
+  const y = luma(encoded, width * height);
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const samples = window * window;
+  let sum = 0;
+  let windows = 0;
+
+  for (let top = 0; top + window <= height; top += SSIM_STEP) {
+    for (let left = 0; left + window <= width; left += SSIM_STEP) {
+      let sumX = 0;
+      let sumY = 0;
+      let sumXX = 0;
+      let sumYY = 0;
+      let sumXY = 0;
+      for (let row = top; row < top + window; row++) {
+        for (let i = row * width + left, end = i + window; i < end; i++) {
+          sumX += x[i];
+          sumY += y[i];
+          sumXX += x[i] * x[i];
+          sumYY += y[i] * y[i];
+          sumXY += x[i] * y[i];
+        }
+      }
+      const meanX = sumX / samples;
+      const meanY = sumY / samples;
+      const varianceX = sumXX / samples - meanX * meanX;
+      const varianceY = sumYY / samples - meanY * meanY;
+      const covariance = sumXY / samples - meanX * meanY;
+      sum +=
+        ((2 * meanX * meanY + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanX * meanX + meanY * meanY + SSIM_C1) * (varianceX + varianceY + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows === 0 ? 1 : sum / windows;
+};
+
+/** PSNR, SSIM and the number of changed pixels between two images of the same size. */
+export function compareImages(
+  cover: Uint8ClampedArray,
+  encoded: Uint8ClampedArray,
+  width: number,
+  height: number
+): QualityMetrics {
+  const totalPixels = width * height;
+  let squaredError = 0;
+  let modifiedPixels = 0;
+  for (let offset = 0; offset < totalPixels * BYTES_PER_PIXEL; offset += BYTES_PER_PIXEL) {
+    let changed = cover[offset + 3] !== encoded[offset + 3];
+    for (let channel = 0; channel < 3; channel++) {
+      const difference = cover[offset + channel] - encoded[offset + channel];
+      squaredError += difference * difference;
+      if (difference !== 0) changed = true;
+    }
+    if (changed) modifiedPixels++;
+  }
+  const meanSquaredError = squaredError / (Math.max(1, totalPixels) * 3);
+  return {
+    psnr: meanSquaredError === 0 ? Infinity : 10 * Math.log10((255 * 255) / meanSquaredError),
+    ssim: ssim(cover, encoded, width, height),
+    modifiedPixels,
+    totalPixels,
+  };
+}
+
+const previewSize = (width: number, height: number) => {
+  const scale = Math.max(1, Math.ceil(Math.max(width, height) / PREVIEW_SIZE));
+  return { scale, width: Math.ceil(width / scale), height: Math.ceil(height / scale) };
+};
+
+/**
+ * Amplified difference between two images. When shrinking, each preview pixel
+ * shows the largest change in its block so isolated changes stay visible.
+ */
+export function differenceHeatmap(
+  cover: Uint8ClampedArray,
+  encoded: Uint8ClampedArray,
+  width: number,
+  height: number
+): PreviewImage {
+  const size = previewSize(width, height);
+  const pixels = new Uint8ClampedArray(size.width * size.height * BYTES_PER_PIXEL);
+
+  for (let py = 0; py < size.height; py++) {
+    for (let px = 0; px < size.width; px++) {
+      let largest = 0;
+      for (let y = py * size.scale; y < Math.min(height, (py + 1) * size.scale); y++) {
+        for (let x = px * size.scale; x < Math.min(width, (px + 1) * size.scale); x++) {
+          const offset = (y * width + x) * BYTES_PER_PIXEL;
+          for (let channel = 0; channel < 4; channel++) {
+            largest = Math.max(largest, Math.abs(cover[offset + channel] - encoded[offset + channel]));
+          }
+        }
+      }
+      const source = (py * size.scale * width + px * size.scale) * BYTES_PER_PIXEL;
+      const target = (py * size.width + px) * BYTES_PER_PIXEL;
+      if (largest === 0) {
+        const background = (cover[source] + cover[source + 1] + cover[source + 2]) / 12;
+        pixels[target] = background;
+        pixels[target + 1] = background;
+        pixels[target + 2] = background;
+      } else {
+        // Even a one-level change is drawn at half brightness.
+        pixels[target] = 128 + largest * 8;
+      }
+      pixels[target + 3] = 255;
+    }
+  }
+  return { pixels, width: size.width, height: size.height };
+}
+
+/** The least significant bit of each channel at full intensity, shrunk by sampling. */
+export function lsbPreview(pixels: Uint8ClampedArray, width: number, height: number): PreviewImage {
+  const size = previewSize(width, height);
+  const preview = new Uint8ClampedArray(size.width * size.height * BYTES_PER_PIXEL);
+  for (let py = 0; py < size.height; py++) {
+    for (let px = 0; px < size.width; px++) {
+      const source = (py * size.scale * width + px * size.scale) * BYTES_PER_PIXEL;
+      const target = (py * size.width + px) * BYTES_PER_PIXEL;
+      for (let channel = 0; channel < 3; channel++) preview[target + channel] = (pixels[source + channel] & 1) * 255;
+      preview[target + 3] = 255;
+    }
+  }
+  return { pixels: preview, width: size.width, height: size.height };
+}
+
+/** Metrics and previews for showing how an encoded carrier differs from its cover. */
+export function compareCarriers(
+  cover: Uint8ClampedArray,
+  encoded: Uint8ClampedArray,
+  width: number,
+  height: number
+): CarrierComparison {
+  return {
+    metrics: compareImages(cover, encoded, width, height),
+    heatmap: differenceHeatmap(cover, encoded, width, height),
+    lsbBefore: lsbPreview(cover, width, height),
+    lsbAfter: lsbPreview(encoded, width, height),
+  };
+}
@@ -0,0 +1,163 @@
+import { FIELD_ORDER, alpha, div, inverse, mul } from "./gf256";
+
+/*
+ * Reed-Solomon codes over GF(2^8) with the primitive polynomial 0x11d and
+ * generator roots α^0 … α^(n−k−1), as used by QR codes. Codewords are
+ * systematic: the data bytes followed by the parity bytes. A codeword with
+ * `parity` parity bytes survives any e errors and f erasures (bytes known to
+ * be missing) with 2e + f ≤ `parity`.
+ *
+ * Polynomials are plain arrays of coefficients, highest degree first.
+ */
+
+export const MAX_CODEWORD_SIZE = FIELD_ORDER;
+
+const polyScale = (p: number[], factor: number) => p.map((c) => mul(c, factor));
+
+const polyAdd = (p: number[], q: number[]) => {
+  const result = new Array<number>(Math.max(p.length, q.length)).fill(0);
+  for (let i = 0; i < p.length; i++) result[i + result.length - p.length] = p[i];
+  for (let i = 0; i < q.length; i++) result[i + result.length - q.length] ^= q[i];
+  return result;
+};
+
+const polyMul = (p: number[], q: number[]) => {
+  const result = new Array<number>(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) result[i + j] ^= mul(p[i], q[j]);
+  }
+  return result;
+};
+
+const polyEval = (p: ArrayLike<number>, x: number) => {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) y = mul(y, x) ^ p[i];
+  return y;
+};
+
+const generators = new Map<number, number[]>();
+
+const generator = (parity: number) => {
+  let g = generators.get(parity);
+  if (!g) {
+    g = [1];
+    for (let i = 0; i < parity; i++) g = polyMul(g, [1, alpha(i)]);
+    generators.set(parity, g);
+  }
+  return g;
+};
+
+/** The `parity` parity bytes for `data`. Data and parity together may not exceed 255 bytes. */
+export function rsEncode(data: Uint8Array, parity: number): Uint8Array {
+  if (data.length + parity > MAX_CODEWORD_SIZE) throw new Error("Reed-Solomon codeword too long");
+  const g = generator(parity);
+  const remainder = new Uint8Array(data.length + parity);
+  remainder.set(data);
+  for (let i = 0; i < data.length; i++) {
+    const coefficient = remainder[i];
+    if (coefficient === 0) continue;
+    for (let j = 1; j < g.length; j++) remainder[i + j] ^= mul(g[j], coefficient);
+  }
+  return remainder.slice(data.length);
+}
+
+const syndromes = (codeword: Uint8Array, parity: number) => {
+  const result = new Array<number>(parity);
+  for (let i = 0; i < parity; i++) result[i] = polyEval(codeword, alpha(i));
+  return result;
+};
+
+/** Locator of the unknown errors, by Berlekamp–Massey over the Forney syndromes. */
+const errorLocator = (forney: number[], parity: number, erasureCount: number) => {
+  let locator = [1];
+  let previous = [1];
+  for (let k = 0; k < parity - erasureCount; k++) {
+    let delta = forney[k];
+    for (let j = 1; j < locator.length && j <= k; j++) delta ^= mul(locator[locator.length - 1 - j], forney[k - j]);
+    previous = [...previous, 0];
+    if (delta !== 0) {
+      if (previous.length > locator.length) {
+        const next = polyScale(previous, delta);
+        previous = polyScale(locator, inverse(delta));
+        locator = next;
+      }
+      locator = polyAdd(locator, polyScale(previous, delta));
+    }
+  }
+  while (locator.length > 1 && locator[0] === 0) locator.shift();
+  return locator;
+};
+
+/** Syndromes with the erasures' contribution removed, so only unknown errors remain. */
+const forneySyndromes = (synd: number[], erasures: number[], length: number) => {
+  const result = synd.slice();
+  for (const position of erasures) {
+    const x = alpha(length - 1 - position);
+    for (let j = 0; j < result.length - 1; j++) result[j] = mul(result[j], x) ^ result[j + 1];
+  }
+  return result;
+};
+
+/** Computes and applies the error values at the known `positions` (Forney's algorithm). */
+const correctErrata = (codeword: Uint8Array, synd: number[], positions: number[]) => {
+  const length = codeword.length;
+  const powers = positions.map((position) => length - 1 - position);
+  let locator = [1];
+  for (const power of powers) locator = polyMul(locator, [alpha(power), 1]);
+
+  // Ω(x) = S(x)·Λ(x) mod x^errata, with the syndromes reversed into a descending polynomial.
+  const product = polyMul(synd.slice().reverse(), locator);
+  const evaluator = product.slice(product.length - powers.length);
+
+  const roots = powers.map(alpha);
+  for (let i = 0; i < roots.length; i++) {
+    const rootInverse = inverse(roots[i]);
+    let derivative = 1;
+    for (let j = 0; j < roots.length; j++) {
+      if (j !== i) derivative = mul(derivative, 1 ^ mul(rootInverse, roots[j]));
+    }
+    if (derivative === 0) return false;
+    codeword[positions[i]] ^= div(polyEval(evaluator, rootInverse), derivative);
+  }
+  return true;
+};
+
+/**
+ * Repairs a codeword (data followed by `parity` parity bytes) in place.
+ * `erasures` lists positions known to be unreadable. Returns the number of
+ * bytes changed, or `null` if the damage exceeds what the code can correct,
+ * in which case the codeword is left as it was.
+ */
+export function rsDecode(codeword: Uint8Array, parity: number, erasures: number[] = []): number | null {
+  if (erasures.length > parity) return null;
+  const original = codeword.slice();
+  for (const position of erasures) codeword[position] = 0;
+
+  const synd = syndromes(codeword, parity);
+  if (synd.every((s) => s === 0)) return countChanges(original, codeword);
+
+  const locator = errorLocator(forneySyndromes(synd, erasures, codeword.length), parity, erasures.length);
+  const errorCount = locator.length - 1;
+  if (errorCount * 2 + erasures.length > parity) return restore(codeword, original);
+
+  const errors: number[] = [];
+  for (let i = 0; i < codeword.length; i++) {
+    if (polyEval(locator, alpha(-i)) === 0) errors.push(codeword.length - 1 - i);
+  }
+  if (errors.length !== errorCount) return restore(codeword, original);
+
+  if (!correctErrata(codeword, synd, [...erasures, ...errors])) return restore(codeword, original);
+  if (syndromes(codeword, parity).some((s) => s !== 0)) return restore(codeword, original);
+  return countChanges(original, codeword);
+}
+
+const countChanges = (before: Uint8Array, after: Uint8Array) => {
+  let changed = 0;
+  for (let i = 0; i < before.length; i++) if (before[i] !== after[i]) changed++;
+  return changed;
+};
+
+const restore = (codeword: Uint8Array, original: Uint8Array) => {
+  codeword.set(original);
+  return null;
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { combineShares, readShare, shareContainer, shareContainerSize } from "./shamir";
+import { readShard } from "./shard";
+
+const secret = crypto.getRandomValues(new Uint8Array(2000));
+
+/** `count` distinct shares picked at random. */
+const pick = <T>(items: T[], count: number) =>
+  items
+    .map((item) => ({ item, order: Math.random() }))
+    .sort((a, b) => a.order - b.order)
+    .slice(0, count)
+    .map(({ item }) => item);
+
+describe("threshold sharing", () => {
+  it("rebuilds the container from any k of n shares", () => {
+    for (const [threshold, count] of [[2, 2], [2, 4], [3, 5], [5, 9]]) {
+      const parts = shareContainer(secret, threshold, count);
+      expect(parts[0].length).toBe(shareContainerSize(secret.length));
+      const shares = parts.map((part) => readShare(part)!);
+      for (let trial = 0; trial < 5; trial++) {
+        expect(combineShares(pick(shares, threshold)).container).toEqual(secret);
+      }
+      expect(combineShares(shares).container).toEqual(secret);
+    }
+  });
+
+  it("says how many more shares are needed", () => {
+    const shares = shareContainer(secret, 4, 6).map((part) => readShare(part)!);
+    // Repeating a share does not count twice.
+    expect(combineShares([shares[0], shares[2], shares[0]])).toEqual({ container: null, needed: 2 });
+  });
+
+  it("are told apart from shards and whole messages", () => {
+    const [part] = shareContainer(secret, 2, 3);
+    expect(readShard(part)).toBeNull();
+    expect(readShare(part)).toMatchObject({ threshold: 2, count: 3, x: 1 });
+  });
+
+  it("rejects impossible thresholds", () => {
+    expect(() => shareContainer(secret, 1, 3)).toThrow();
+    expect(() => shareContainer(secret, 4, 3)).toThrow();
+  });
+});
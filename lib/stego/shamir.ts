@@ -0,0 +1,115 @@
+import { SectionType, containerSize, decodeContainer, encodeContainer } from "./container";
+import { div, mul } from "./gf256";
+
+/*
+ * Threshold sharing of a sealed container with Shamir's scheme over GF(2^8).
+ * Every byte of the container is the constant term of its own random
+ * polynomial of degree threshold − 1; share x holds the polynomials' values
+ * at x. Any `threshold` shares rebuild the container by Lagrange
+ * interpolation at 0, while fewer reveal nothing about it, not even with the
+ * key. Each carrier gets a container holding a single unencrypted Share
+ * section:
+ *
+ *   message ID (8) | threshold (1) | share count (1) | x (1) | values
+ *
+ * Unlike a split message, every share is as large as the whole container.
+ */
+
+const MESSAGE_ID_SIZE = 8;
+const SHARE_HEADER_SIZE = MESSAGE_ID_SIZE + 3;
+export const MIN_THRESHOLD = 2;
+export const MAX_SHARES = 255;
+
+export interface Share {
+  /** Hex-encoded message ID. */
+  messageId: string;
+  /** Number of shares needed to rebuild the container. */
+  threshold: number;
+  /** Number of shares that were made. */
+  count: number;
+  /** Point the values were taken at, 1 to `count`. */
+  x: number;
+  values: Uint8Array;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** Size in bytes of the container holding one share of a `containerLength`-byte container. */
+export function shareContainerSize(containerLength: number): number {
+  return containerSize([SHARE_HEADER_SIZE + containerLength]);
+}
+
+/** Splits a sealed container into `count` share containers, any `threshold` of which rebuild it. */
+export function shareContainer(container: Uint8Array, threshold: number, count: number): Uint8Array[] {
+  if (count > MAX_SHARES || threshold < MIN_THRESHOLD || threshold > count) {
+    throw new Error(`Threshold sharing needs ${MIN_THRESHOLD} to ${MAX_SHARES} shares, at most as many as were made.`);
+  }
+  const messageId = crypto.getRandomValues(new Uint8Array(MESSAGE_ID_SIZE));
+  const shares = Array.from({ length: count }, (_, i) => {
+    const data = new Uint8Array(SHARE_HEADER_SIZE + container.length);
+    data.set(messageId);
+    data[MESSAGE_ID_SIZE] = threshold;
+    data[MESSAGE_ID_SIZE + 1] = count;
+    data[MESSAGE_ID_SIZE + 2] = i + 1;
+    return data;
+  });
+  const coefficients = new Uint8Array(threshold - 1);
+  for (let offset = 0; offset < container.length; offset++) {
+    crypto.getRandomValues(coefficients);
+    for (const share of shares) {
+      // Horner's rule, highest coefficient first, ending with the secret byte.
+      const x = share[MESSAGE_ID_SIZE + 2];
+      let y = 0;
+      for (let j = coefficients.length - 1; j >= 0; j--) y = mul(y, x) ^ coefficients[j];
+      share[SHARE_HEADER_SIZE + offset] = mul(y, x) ^ container[offset];
+    }
+  }
+  return shares.map((data) => encodeContainer([{ type: SectionType.Share, data }]));
+}
+
+/**
+ * The share held by a container, or `null` if it holds something else.
+ * Throws like `decodeContainer` if the container is damaged.
+ */
+export function readShare(bytes: Uint8Array): Share | null {
+  const { sections } = decodeContainer(bytes);
+  const section = sections.find((candidate) => candidate.type === SectionType.Share);
+  if (!section) return null;
+  if (section.data.length < SHARE_HEADER_SIZE) throw new Error("Hidden data is corrupted (share header truncated)");
+  const threshold = section.data[MESSAGE_ID_SIZE];
+  const count = section.data[MESSAGE_ID_SIZE + 1];
+  const x = section.data[MESSAGE_ID_SIZE + 2];
+  if (threshold < MIN_THRESHOLD || threshold > count || x === 0 || x > count) {
+    throw new Error("Hidden data is corrupted (invalid share number)");
+  }
+  return {
+    messageId: toHex(section.data.subarray(0, MESSAGE_ID_SIZE)),
+    threshold,
+    count,
+    x,
+    values: section.data.slice(SHARE_HEADER_SIZE),
+  };
+}
+
+/**
+ * Rebuilds the sealed container from the shares of one message, or reports
+ * how many more distinct shares are needed. Duplicates are ignored.
+ */
+export function combineShares(shares: Share[]): { container: Uint8Array | null; needed: number } {
+  const byX = new Map(shares.map((share) => [share.x, share]));
+  const threshold = shares[0]?.threshold ?? MIN_THRESHOLD;
+  if (byX.size < threshold) return { container: null, needed: threshold - byX.size };
+
+  const used = Array.from(byX.values()).slice(0, threshold);
+  // Lagrange basis polynomials at 0: the product of x_j / (x_j − x_i) over j ≠ i.
+  const weights = used.map(({ x }) =>
+    used.reduce((weight, other) => (other.x === x ? weight : mul(weight, div(other.x, other.x ^ x))), 1)
+  );
+  const container = new Uint8Array(used[0].values.length);
+  for (let offset = 0; offset < container.length; offset++) {
+    let secret = 0;
+    for (let i = 0; i < used.length; i++) secret ^= mul(used[i].values[offset], weights[i]);
+    container[offset] = secret;
+  }
+  return { container, needed: 0 };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { SectionType, encodeContainer } from "./container";
+import { embed, extract } from "./lsb";
+import { joinShards, readShard, shardContainerSize, shardSizes, splitContainer } from "./shard";
+
+const sealed = () => encodeContainer([{ type: SectionType.Text, data: crypto.getRandomValues(new Uint8Array(3000)) }]);
+
+describe("split messages", () => {
+  it("split in proportion to the weights and cover every byte", () => {
+    const sizes = shardSizes(1000, [5, 1, 3, 0]);
+    expect(sizes.reduce((a, b) => a + b, 0)).toBe(1000);
+    expect(sizes[3]).toBe(0);
+    expect(sizes[0]).toBeGreaterThan(sizes[2]);
+    expect(sizes[2]).toBeGreaterThan(sizes[1]);
+  });
+
+  it("join back in any order after a round trip through carriers", () => {
+    const container = sealed();
+    const parts = splitContainer(container, [5, 1, 3]);
+    const sizes = shardSizes(container.length, [5, 1, 3]);
+    parts.forEach((part, i) => expect(part.length).toBe(shardContainerSize(sizes[i])));
+
+    const shards = parts.map((part) => {
+      const pixels = new Uint8ClampedArray(120 * 100 * 4);
+      crypto.getRandomValues(pixels);
+      for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+      return readShard(extract(embed(pixels, part))!)!;
+    });
+    expect(new Set(shards.map((shard) => shard.messageId)).size).toBe(1);
+    expect(joinShards([shards[2], shards[0], shards[1]]).container).toEqual(container);
+  });
+
+  it("list the parts still missing", () => {
+    const shards = splitContainer(sealed(), [1, 1, 1, 1]).map((part) => readShard(part)!);
+    expect(joinShards([shards[1], shards[1], shards[3]])).toEqual({ container: null, missing: [0, 2] });
+  });
+
+  it("are told apart from whole messages", () => {
+    expect(readShard(sealed())).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { SectionType, containerSize, decodeContainer, encodeContainer } from "./container";
+
+/*
+ * A message too large for one carrier can be split across several. It is
+ * sealed once as usual; the sealed container's bytes are then cut into
+ * consecutive chunks, and each carrier gets a container of its own holding a
+ * single unencrypted Shard section:
+ *
+ *   message ID (8) | shard index (1) | shard count (1) | chunk
+ *
+ * The random message ID is shared by every shard of a message. A shard
+ * reveals nothing by itself: the decoder collects shards in any order and,
+ * once all are present, joins the chunks back into the sealed container and
+ * opens that with the key.
+ */
+
+const MESSAGE_ID_SIZE = 8;
+const SHARD_HEADER_SIZE = MESSAGE_ID_SIZE + 2;
+export const MAX_SHARDS = 255;
+
+export interface Shard {
+  /** Hex-encoded message ID. */
+  messageId: string;
+  /** Zero-based position of this shard's chunk. */
+  index: number;
+  count: number;
+  data: Uint8Array;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Chunk lengths for splitting `containerLength` bytes in proportion to
+ * `weights`, e.g. the carriers' capacities. Every carrier gets a shard, even
+ * if its chunk is empty.
+ */
+export function shardSizes(containerLength: number, weights: number[]): number[] {
+  if (weights.length === 0 || weights.length > MAX_SHARDS) {
+    throw new Error(`A message can be split across 1 to ${MAX_SHARDS} carriers.`);
+  }
+  const total = weights.reduce((a, b) => a + Math.max(0, b), 0);
+  const sizes = weights.map((weight) =>
+    total > 0 ? Math.floor((containerLength * Math.max(0, weight)) / total) : Math.floor(containerLength / weights.length)
+  );
+  // Rounding leaves a few bytes over; the largest shares take them.
+  let remainder = containerLength - sizes.reduce((a, b) => a + b, 0);
+  const byWeight = weights.map((_, i) => i).sort((a, b) => weights[b] - weights[a]);
+  for (let i = 0; remainder > 0; i = (i + 1) % byWeight.length, remainder--) sizes[byWeight[i]]++;
+  return sizes;
+}
+
+/** Size in bytes of the container holding a shard with a chunk of `chunkLength` bytes. */
+export function shardContainerSize(chunkLength: number): number {
+  return containerSize([SHARD_HEADER_SIZE + chunkLength]);
+}
+
+/** Splits a sealed container into shard containers, one per weight. */
+export function splitContainer(container: Uint8Array, weights: number[]): Uint8Array[] {
+  const messageId = crypto.getRandomValues(new Uint8Array(MESSAGE_ID_SIZE));
+  const sizes = shardSizes(container.length, weights);
+  let offset = 0;
+  return sizes.map((size, index) => {
+    const data = new Uint8Array(SHARD_HEADER_SIZE + size);
+    data.set(messageId);
+    data[MESSAGE_ID_SIZE] = index;
+    data[MESSAGE_ID_SIZE + 1] = sizes.length;
+    data.set(container.subarray(offset, offset + size), SHARD_HEADER_SIZE);
+    offset += size;
+    return encodeContainer([{ type: SectionType.Shard, data }]);
+  });
+}
+
+/**
+ * The shard held by a container, or `null` if it holds a whole message.
+ * Throws like `decodeContainer` if the container is damaged.
+ */
+export function readShard(bytes: Uint8Array): Shard | null {
+  const { sections } = decodeContainer(bytes);
+  const section = sections.find((candidate) => candidate.type === SectionType.Shard);
+  if (!section) return null;
+  if (section.data.length < SHARD_HEADER_SIZE) throw new Error("Hidden data is corrupted (shard header truncated)");
+  const index = section.data[MESSAGE_ID_SIZE];
+  const count = section.data[MESSAGE_ID_SIZE + 1];
+  if (count === 0 || index >= count) throw new Error("Hidden data is corrupted (invalid shard number)");
+  return {
+    messageId: toHex(section.data.subarray(0, MESSAGE_ID_SIZE)),
+    index,
+    count,
+    data: section.data.slice(SHARD_HEADER_SIZE),
+  };
+}
+
+/**
+ * Joins the shards of one message back into its sealed container, or lists
+ * the (zero-based) indices of the shards still missing. Duplicates are ignored.
+ */
+export function joinShards(shards: Shard[]): { container: Uint8Array | null; missing: number[] } {
+  const count = shards[0]?.count ?? 0;
+  const byIndex = new Map(shards.map((shard) => [shard.index, shard]));
+  const missing = Array.from({ length: count }, (_, i) => i).filter((index) => !byIndex.has(index));
+  if (missing.length > 0 || count === 0) return { container: null, missing };
+
+  const chunks = Array.from({ length: count }, (_, i) => byIndex.get(i)!.data);
+  const container = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    container.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { container, missing: [] };
+}
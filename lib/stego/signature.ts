@@ -0,0 +1,86 @@
+import { utf8Encode } from "./bytes";
+import type { Section } from "./container";
+import type { SignatureInfo } from "./types";
+
+export const ECDSA_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const ECDSA_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+const SIGNATURE_ECDSA_P256_SHA256 = 1;
+const PUBLIC_KEY_SIZE = 65;
+// WebCrypto produces r || s, 32 bytes each.
+const SIGNATURE_SIZE = 64;
+export const SIGNATURE_SECTION_SIZE = 1 + PUBLIC_KEY_SIZE + SIGNATURE_SIZE;
+
+const SIGNED_DATA_PREFIX = utf8Encode("stagno:signature");
+
+/*
+ * Signature section layout: algorithm (1) | signer public key (65) | signature (64).
+ * The signature covers the prefix above, the length (4, big-endian) and bytes
+ * of a context, and then, for every content section in container order, its
+ * type (1) | length (4, big-endian) | uncompressed plaintext. The context is
+ * the container's key derivation section, whose salt or ephemeral key is new
+ * for every seal: a recipient who re-seals signed content to someone else
+ * cannot carry the signature over, and no change to the content goes unnoticed.
+ */
+
+const signedData = (sections: Section[], context: Uint8Array): Uint8Array => {
+  const length = sections.reduce((sum, section) => sum + 5 + section.data.length, SIGNED_DATA_PREFIX.length + 4 + context.length);
+  const out = new Uint8Array(length);
+  const view = new DataView(out.buffer);
+  out.set(SIGNED_DATA_PREFIX);
+  view.setUint32(SIGNED_DATA_PREFIX.length, context.length);
+  out.set(context, SIGNED_DATA_PREFIX.length + 4);
+  let offset = SIGNED_DATA_PREFIX.length + 4 + context.length;
+  for (const section of sections) {
+    out[offset] = section.type;
+    view.setUint32(offset + 1, section.data.length);
+    out.set(section.data, offset + 5);
+    offset += 5 + section.data.length;
+  }
+  return out;
+};
+
+/** Signs the plaintext of `sections` in `context` and returns the data of a Signature section. */
+export async function signSections(sections: Section[], context: Uint8Array, signer: CryptoKeyPair): Promise<Uint8Array> {
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", signer.publicKey));
+  const signature = new Uint8Array(await crypto.subtle.sign(ECDSA_PARAMS, signer.privateKey, signedData(sections, context)));
+  const out = new Uint8Array(SIGNATURE_SECTION_SIZE);
+  out[0] = SIGNATURE_ECDSA_P256_SHA256;
+  out.set(publicKey, 1);
+  out.set(signature, 1 + PUBLIC_KEY_SIZE);
+  return out;
+}
+
+/** Checks a Signature section against the decrypted, uncompressed `sections` and the `context` they were signed in. */
+export async function verifySections(
+  sections: Section[],
+  context: Uint8Array,
+  signatureSection: Uint8Array
+): Promise<SignatureInfo> {
+  const signerPublicKey = signatureSection.slice(1, 1 + PUBLIC_KEY_SIZE);
+  if (signatureSection.length !== SIGNATURE_SECTION_SIZE || signatureSection[0] !== SIGNATURE_ECDSA_P256_SHA256) {
+    return { valid: false, signerPublicKey };
+  }
+  try {
+    const key = await crypto.subtle.importKey("raw", signerPublicKey, ECDSA_ALGORITHM, false, ["verify"]);
+    const valid = await crypto.subtle.verify(
+      ECDSA_PARAMS,
+      key,
+      signatureSection.subarray(1 + PUBLIC_KEY_SIZE),
+      signedData(sections, context)
+    );
+    return { valid, signerPublicKey };
+  } catch {
+    return { valid: false, signerPublicKey };
+  }
+}
+
+/** Short, human-comparable identifier for a raw public key: the first 16 bytes of its SHA-256, in hex groups. */
+export async function keyFingerprint(publicKey: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", publicKey));
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((digest[i] << 8) | digest[i + 1]).toString(16).padStart(4, "0"));
+  }
+  return groups.join(":");
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { SectionType, encodeContainer } from "./container";
+import { hideInText, revealFromText } from "./text";
+
+const container = encodeContainer([{ type: SectionType.Text, data: Uint8Array.of(1, 2, 3) }]);
+
+describe("text carriers", () => {
+  it("round-trip a container after the cover text", () => {
+    expect(revealFromText(hideInText("Dear Bob || see you soon", container))).toEqual(container);
+  });
+
+  it("find nothing in plain text", () => {
+    expect(revealFromText("no delimiter here")).toBeNull();
+    expect(revealFromText("a || b, then more || words!")).toBeNull();
+    expect(revealFromText("valid base64 but no container||aGVsbG8=")).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import { base64ToBytes, bytesToBase64 } from "./bytes";
+import { hasMagic } from "./container";
+
+export const DELIMITER = "||";
+
+/** Appends a container to `coverText` as base64 after the delimiter. */
+export function hideInText(coverText: string, container: Uint8Array): string {
+  return `${coverText}${DELIMITER}${bytesToBase64(container)}`;
+}
+
+/**
+ * Returns the container carried by a text file, or `null` when the content
+ * has no delimiter or what follows it is not a container. Base64 never
+ * contains the delimiter, so only its last occurrence matters and the cover
+ * text may contain it freely.
+ */
+export function revealFromText(content: string): Uint8Array | null {
+  const index = content.lastIndexOf(DELIMITER);
+  if (index === -1) return null;
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(content.slice(index + DELIMITER.length).trim());
+  } catch {
+    // Plain text that merely contains the delimiter.
+    return null;
+  }
+  return hasMagic(bytes) ? bytes : null;
+}
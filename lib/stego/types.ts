@@ -0,0 +1,31 @@
+/** An attachment together with the metadata needed to restore it. */
+export interface HiddenFile {
+  name: string;
+  /** MIME type, e.g. `application/pdf`. */
+  type: string;
+  data: Uint8Array;
+}
+
+/** What a user asks to hide in a single carrier. */
+export interface HiddenContent {
+  text?: string | null;
+  image?: string | null;
+  file?: HiddenFile | null;
+}
+
+/** Outcome of checking a signed payload. */
+export interface SignatureInfo {
+  valid: boolean;
+  /** Raw (uncompressed SEC1) P-256 public key the payload claims to be signed by. */
+  signerPublicKey: Uint8Array;
+}
+
+/** What a carrier yielded after extraction and decryption. */
+export interface RevealedContent {
+  text: string;
+  embeddedImage: string | null;
+  file: HiddenFile | null;
+  /** `null` when the payload was not signed. */
+  signature: SignatureInfo | null;
+  hasError: boolean;
+}
@@ -0,0 +1,298 @@
+// Web Worker entry point. Runs sealing/embedding (in pixels or JPEG
+// coefficients), extraction/opening, steganalysis and carrier comparison off
+// the main thread; buffers are transferred in and out, not copied. Started and
+// driven by `jobs.ts`.
+
+import { analyzeImage, isLsbPlaneSaturated, type AnalysisReport } from "./analysis";
+import { dctCapacity, embedDct, extractDct, type DctEmbedOptions } from "./dct";
+import { compressToDct, readJpeg, writeJpeg } from "./jpeg";
+import { bytesToLatin1 } from "./bytes";
+import { buildLayers, openLayers } from "./layers";
+import { BASELINE_MAGIC, openBaselineMessage, parseBaselineMessage, revealBaselineFromText } from "./legacy";
+import {
+  SCATTER_SALT_SIZE,
+  embed,
+  embedRaw,
+  extract,
+  extractRaw,
+  extractTerminated,
+  rawCapacity,
+  scatterSalts,
+  type EmbedOptions,
+  type EmbeddingStats,
+  type ExtractOptions,
+  type Scatter,
+} from "./lsb";
+import { openMessage, sealMessage, type OpenKey, type SealKey, type SealOptions } from "./message";
+import { deriveSeed } from "./prng";
+import { compareCarriers, type CarrierComparison } from "./quality";
+import { readShare, type Share } from "./shamir";
+import { readShard, type Shard } from "./shard";
+import { revealFromText } from "./text";
+import type { HiddenContent, RevealedContent } from "./types";
+
+export type JobStage = "encrypting" | "embedding" | "extracting" | "decrypting" | "analyzing" | "comparing" | "compressing";
+
+/** A carrier for JPEG output: its pixels, plus the original file when it already is a JPEG. */
+export interface JpegCarrier {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  jpeg?: Uint8Array;
+  quality?: number;
+}
+
+/**
+ * Embedding options that can be posted to a worker, i.e. without callbacks.
+ * The worker derives the scatter order's seed from `scatterKey` itself.
+ */
+export type PixelEmbedOptions = Omit<EmbedOptions, "onProgress" | "onEmbedded" | "scatter"> & { scatterKey?: string };
+export type JpegEmbedOptions = Pick<DctEmbedOptions, "errorCorrection" | "robust">;
+
+/** What to hide: content to seal first, or an already sealed container such as one shard of a split message. */
+export type Payload = { content: HiddenContent; key: SealKey; seal: SealOptions } | { container: Uint8Array };
+
+/** One deniable layer to seal and hide, unlocked by its own passphrase. */
+export interface LayerContent {
+  content: HiddenContent;
+  passphrase: string;
+}
+
+export type WorkerRequest =
+  | { type: "seal"; content: HiddenContent; key: SealKey; seal: SealOptions }
+  | { type: "encode"; pixels: Uint8ClampedArray; payload: Payload; embed: PixelEmbedOptions }
+  | { type: "encodeJpeg"; carrier: JpegCarrier; payload: Payload; embed: JpegEmbedOptions }
+  | { type: "measureJpeg"; carrier: JpegCarrier; robust?: boolean }
+  | { type: "encodeLayers"; pixels: Uint8ClampedArray; layers: LayerContent[]; seal: SealOptions }
+  | { type: "decode"; pixels: Uint8ClampedArray; key: OpenKey; scatterKey?: string }
+  | { type: "decodeJpeg"; jpeg: Uint8Array; key: OpenKey }
+  | { type: "open"; container: Uint8Array; key: OpenKey }
+  | { type: "openText"; content: string; key: OpenKey }
+  | { type: "analyze"; pixels: Uint8ClampedArray; width: number; height: number }
+  | { type: "compare"; cover: Uint8ClampedArray; encoded: Uint8ClampedArray; width: number; height: number };
+
+/** Outcome of a decode: `revealed` is `null` when nothing was hidden, `error` set when the container is damaged. */
+export interface DecodeResult {
+  revealed: RevealedContent | null;
+  error?: string;
+  /** Damaged bytes repaired by error correction; only set for protected containers. */
+  correctedBytes?: number;
+  /** Set instead of `revealed` when the carrier holds one shard of a split message. */
+  shard?: Shard;
+  /** Set instead of `revealed` when the carrier holds one threshold share of a message. */
+  share?: Share;
+}
+
+export type WorkerResponse =
+  | { type: "progress"; stage: JobStage; fraction: number | null }
+  | { type: "sealed"; container: Uint8Array }
+  | { type: "encoded"; pixels: Uint8ClampedArray; stats: EmbeddingStats }
+  | { type: "encodedJpeg"; jpeg: Uint8Array; stats: EmbeddingStats }
+  | { type: "measured"; capacity: number }
+  | { type: "decoded"; result: DecodeResult }
+  | { type: "analyzed"; report: AnalysisReport }
+  | { type: "compared"; comparison: CarrierComparison }
+  | { type: "error"; message: string };
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+const progress = (stage: JobStage) => (fraction: number | null) => post({ type: "progress", stage, fraction });
+
+const open = async (container: Uint8Array | null, key: OpenKey, correctedBytes?: number): Promise<DecodeResult> => {
+  if (container === null) return { revealed: null };
+  progress("decrypting")(null);
+  try {
+    const shard = readShard(container);
+    if (shard) return { revealed: null, shard, correctedBytes };
+    const share = readShare(container);
+    if (share) return { revealed: null, share, correctedBytes };
+    return { revealed: await openMessage(container, key), correctedBytes };
+  } catch (error) {
+    return { revealed: null, error: (error as Error).message, correctedBytes };
+  }
+};
+
+const passphraseOf = (key: OpenKey) => (typeof key === "string" ? key : key.passphrase);
+
+// Messages written before containers only ever used a passphrase.
+const openBaseline = (ciphertexts: Uint8Array[], key: OpenKey): DecodeResult => {
+  progress("decrypting")(null);
+  return { revealed: openBaselineMessage(ciphertexts, passphraseOf(key) ?? "") };
+};
+
+/** The ciphertexts of a message written to `pixels` before containers, or `null`. */
+const extractBaseline = (pixels: Uint8ClampedArray) => {
+  const message = extractTerminated(pixels, BASELINE_MAGIC);
+  return message && parseBaselineMessage(bytesToLatin1(message));
+};
+
+// A carrier the browser could display but this codec cannot read is recompressed instead.
+const readCarrierJpeg = (jpeg: Uint8Array) => {
+  try {
+    return readJpeg(jpeg);
+  } catch {
+    return null;
+  }
+};
+
+// An existing JPEG keeps its own coefficients, unless robust embedding needs
+// finer quantisation than it may have; anything else is compressed first.
+const dctCarrier = (carrier: JpegCarrier, robust = false) => {
+  progress("compressing")(null);
+  return (
+    (!robust && carrier.jpeg && readCarrierJpeg(carrier.jpeg)) ||
+    compressToDct(carrier.pixels, carrier.width, carrier.height, carrier.quality, progress("compressing"))
+  );
+};
+
+/**
+ * Tries `key`'s passphrase on the deniable layers of a carrier in which no
+ * container was found. Carriers with nothing hidden end up here too; unless
+ * their LSB plane looks fully random they are turned away before the key
+ * derivation.
+ */
+const openLayered = async (pixels: Uint8ClampedArray, key: OpenKey): Promise<DecodeResult> => {
+  const passphrase = passphraseOf(key);
+  if (!passphrase || !isLsbPlaneSaturated(pixels)) return { revealed: null };
+  const raw = extractRaw(pixels, rawCapacity(pixels), progress("extracting"));
+  progress("decrypting")(null);
+  try {
+    return open(await openLayers(raw, passphrase), passphrase);
+  } catch (error) {
+    return { revealed: null, error: (error as Error).message };
+  }
+};
+
+// A fresh salt per carrier, so the same passphrase scatters differently every time.
+const createScatter = async (key: string): Promise<Scatter> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SCATTER_SALT_SIZE));
+  return { salt, seed: await deriveSeed(key, salt, "order") };
+};
+
+// Seeds for every salt a scattered container may follow; each costs a full key derivation.
+const deriveScatter = (pixels: Uint8ClampedArray, key: string): Promise<Scatter[]> =>
+  Promise.all(scatterSalts(pixels).map(async (salt) => ({ salt, seed: await deriveSeed(key, salt, "order") })));
+
+const seal = async (payload: Payload) => {
+  if ("container" in payload) return payload.container;
+  progress("encrypting")(null);
+  return sealMessage(payload.content, payload.key, payload.seal);
+};
+
+const handle = async (request: WorkerRequest) => {
+  switch (request.type) {
+    case "seal": {
+      progress("encrypting")(null);
+      const container = await sealMessage(request.content, request.key, request.seal);
+      post({ type: "sealed", container }, [container.buffer]);
+      break;
+    }
+    case "encode": {
+      const container = await seal(request.payload);
+      const { scatterKey, ...options } = request.embed;
+      const scatter = scatterKey ? await createScatter(scatterKey) : undefined;
+      let stats: EmbeddingStats = { bits: 0, changes: 0 };
+      embed(request.pixels, container, {
+        ...options,
+        scatter,
+        onProgress: progress("embedding"),
+        onEmbedded: (embedded) => (stats = embedded),
+      });
+      post({ type: "encoded", pixels: request.pixels, stats }, [request.pixels.buffer]);
+      break;
+    }
+    case "encodeLayers": {
+      progress("encrypting")(null);
+      const layers = [];
+      for (const { content, passphrase } of request.layers) {
+        layers.push({ container: await sealMessage(content, passphrase, request.seal), passphrase });
+      }
+      const bytes = await buildLayers(layers, rawCapacity(request.pixels));
+      const changes = embedRaw(request.pixels, bytes, progress("embedding"));
+      const stats = { bits: bytes.length * 8, changes };
+      post({ type: "encoded", pixels: request.pixels, stats }, [request.pixels.buffer]);
+      break;
+    }
+    case "encodeJpeg": {
+      const container = await seal(request.payload);
+      const image = dctCarrier(request.carrier, request.embed.robust);
+      const embedding = progress("embedding");
+      let stats: EmbeddingStats = { bits: 0, changes: 0 };
+      embedDct(image, container, {
+        ...request.embed,
+        onProgress: (fraction) => embedding(fraction / 2),
+        onEmbedded: (embedded) => (stats = embedded),
+      });
+      const jpeg = writeJpeg(image, (fraction) => embedding(0.5 + fraction / 2));
+      post({ type: "encodedJpeg", jpeg, stats }, [jpeg.buffer]);
+      break;
+    }
+    case "measureJpeg":
+      post({ type: "measured", capacity: dctCapacity(dctCarrier(request.carrier, request.robust), request.robust) });
+      break;
+    case "decode": {
+      let corrected: number | undefined;
+      const options: ExtractOptions = { onProgress: progress("extracting"), onCorrected: (bytes) => (corrected = bytes) };
+      let container = extract(request.pixels, options);
+      // Only carriers without a sequential container pay for deriving the scatter order.
+      if (!container && request.scatterKey) {
+        progress("extracting")(null);
+        container = extract(request.pixels, { ...options, scatter: await deriveScatter(request.pixels, request.scatterKey) });
+      }
+      if (container) {
+        post({ type: "decoded", result: await open(container, request.key, corrected) });
+        break;
+      }
+      const baseline = extractBaseline(request.pixels);
+      const result = baseline ? openBaseline(baseline, request.key) : await openLayered(request.pixels, request.key);
+      post({ type: "decoded", result });
+      break;
+    }
+    case "decodeJpeg": {
+      progress("extracting")(null);
+      let container: Uint8Array | null;
+      let corrected: number | undefined;
+      try {
+        const image = readJpeg(request.jpeg);
+        container =
+          image &&
+          extractDct(image, { onProgress: progress("extracting"), onCorrected: (bytes) => (corrected = bytes) });
+      } catch (error) {
+        post({ type: "decoded", result: { revealed: null, error: (error as Error).message } });
+        break;
+      }
+      post({ type: "decoded", result: await open(container, request.key, corrected) });
+      break;
+    }
+    case "open":
+      post({ type: "decoded", result: await open(request.container, request.key) });
+      break;
+    case "openText": {
+      const container = revealFromText(request.content);
+      const baseline = container ? null : revealBaselineFromText(request.content);
+      const result = baseline ? openBaseline(baseline, request.key) : await open(container, request.key);
+      post({ type: "decoded", result });
+      break;
+    }
+    case "analyze":
+      post({
+        type: "analyzed",
+        report: analyzeImage(request.pixels, request.width, request.height, progress("analyzing")),
+      });
+      break;
+    case "compare": {
+      progress("comparing")(null);
+      const comparison = compareCarriers(request.cover, request.encoded, request.width, request.height);
+      post({ type: "compared", comparison }, [
+        comparison.heatmap.pixels.buffer,
+        comparison.lsbBefore.pixels.buffer,
+        comparison.lsbAfter.pixels.buffer,
+      ]);
+      break;
+    }
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handle(event.data).catch((error) => post({ type: "error", message: (error as Error).message ?? String(error) }));
+};